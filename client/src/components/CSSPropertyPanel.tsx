@@ -0,0 +1,372 @@
+import { useEffect, useMemo, useState } from 'react';
+import { parseCSS } from '@/lib/workshopUtils';
+import { parseStylesheet } from '@/lib/cssParser';
+import { parseColor, toHex } from '@/lib/colorPalette';
+import {
+  parseLength,
+  formatLength,
+  readBox,
+  writeBoxSide,
+  setRuleProperty,
+  LENGTH_UNITS,
+  BOX_SIDES,
+  type BoxSide
+} from '@/lib/cssProperties';
+
+interface CSSPropertyPanelProps {
+  // A single rule as written; every change goes back through `onChange` as new source
+  css: string;
+  onChange: (css: string) => void;
+}
+
+const FONT_STACKS = [
+  'system-ui, sans-serif',
+  'Arial, Helvetica, sans-serif',
+  'Georgia, serif',
+  '"Times New Roman", serif',
+  'ui-monospace, Menlo, Consolas, monospace'
+];
+const FONT_WEIGHTS = ['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'];
+const DISPLAYS = ['block', 'inline', 'inline-block', 'flex', 'inline-flex', 'grid', 'inline-grid', 'none'];
+const FLEX_DIRECTIONS = ['row', 'row-reverse', 'column', 'column-reverse'];
+const FLEX_WRAPS = ['nowrap', 'wrap', 'wrap-reverse'];
+const JUSTIFY_CONTENT = ['flex-start', 'center', 'flex-end', 'space-between', 'space-around', 'space-evenly'];
+const ALIGN_ITEMS = ['stretch', 'flex-start', 'center', 'flex-end', 'baseline'];
+const GRID_ALIGN = ['stretch', 'start', 'center', 'end'];
+const GRID_TEMPLATES = ['1fr 1fr', 'repeat(3, 1fr)', 'repeat(4, 1fr)', 'repeat(auto-fill, minmax(200px, 1fr))'];
+const TEXT_ALIGNS = ['left', 'center', 'right', 'justify'];
+
+const stripImportant = (value: string | undefined) => (value ?? '').replace(/\s*!important$/, '');
+
+// A text field that nudges its number with ↑/↓ (shift for ×10) and swaps units without losing it
+function LengthInput({ value, onChange, testId }: { value: string; onChange: (value: string) => void; testId: string }) {
+  const length = parseLength(value);
+  const step = length && ['em', 'rem', ''].includes(length.unit) ? 0.1 : 1;
+
+  const nudge = (direction: number, big: boolean) => {
+    if (!length) return;
+    onChange(formatLength({ value: length.value + direction * step * (big ? 10 : 1), unit: length.unit || (step === 1 ? 'px' : '') }));
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+          e.preventDefault();
+          nudge(e.key === 'ArrowUp' ? 1 : -1, e.shiftKey);
+        }}
+        placeholder="—"
+        className="w-20 px-2 py-0.5 text-xs font-mono border border-border rounded"
+        data-testid={`input-${testId}`}
+      />
+      {length && (
+        <select
+          value={length.unit}
+          onChange={(e) => onChange(formatLength({ value: length.value, unit: e.target.value }))}
+          className="px-1 py-0.5 text-xs border border-border rounded"
+          data-testid={`select-unit-${testId}`}
+        >
+          {(LENGTH_UNITS.includes(length.unit) ? LENGTH_UNITS : [length.unit, ...LENGTH_UNITS]).map(unit => (
+            <option key={unit} value={unit}>{unit || '—'}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+// Opaque colors get a native picker; anything with alpha or a var() stays text-only
+function ColorInput({ value, onChange, testId }: { value: string; onChange: (value: string) => void; testId: string }) {
+  const color = parseColor(value.trim());
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="color"
+        value={color ? toHex({ ...color, a: 1 }) : '#000000'}
+        disabled={!!color && color.a < 1}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-7 h-6 p-0 border border-border rounded"
+        data-testid={`color-${testId}`}
+      />
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="—"
+        className="w-28 px-2 py-0.5 text-xs font-mono border border-border rounded"
+        data-testid={`input-${testId}`}
+      />
+    </div>
+  );
+}
+
+function Choice({ value, options, onChange, testId }: { value: string; options: string[]; onChange: (value: string) => void; testId: string }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-2 py-0.5 text-xs border border-border rounded"
+      data-testid={`select-${testId}`}
+    >
+      <option value="">—</option>
+      {!options.includes(value) && value && <option value={value}>{value}</option>}
+      {options.map(option => <option key={option} value={option}>{option}</option>)}
+    </select>
+  );
+}
+
+// Clearing the field only removes the declaration on blur, so a row doesn't vanish mid-edit
+function DraftInput({ value, onCommit, testId }: { value: string; onCommit: (value: string) => void; testId: string }) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        if (e.target.value.trim()) onCommit(e.target.value);
+      }}
+      onBlur={() => !draft.trim() && onCommit('')}
+      className="flex-1 px-2 py-0.5 text-xs font-mono border border-border rounded"
+      data-testid={`input-${testId}`}
+    />
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="flex items-center justify-between gap-2 text-xs">
+      <span className="text-muted-foreground font-mono">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+export default function CSSPropertyPanel({ css, onChange }: CSSPropertyPanelProps) {
+  const [newProperty, setNewProperty] = useState('');
+  const [newValue, setNewValue] = useState('');
+
+  const hasErrors = useMemo(() => parseStylesheet(css).errors.length > 0, [css]);
+  const properties = useMemo(() => parseCSS(css)[0]?.properties ?? {}, [css]);
+  const value = (property: string) => stripImportant(properties[property]);
+  const set = (property: string) => (next: string) => onChange(setRuleProperty(css, property, next));
+
+  if (hasErrors) {
+    return (
+      <div className="p-3 text-xs text-muted-foreground" data-testid="text-visual-editor-disabled">
+        Fix the syntax error in the text editor to edit properties visually.
+      </div>
+    );
+  }
+
+  const display = value('display');
+  const isFlex = display === 'flex' || display === 'inline-flex';
+  const isGrid = display === 'grid' || display === 'inline-grid';
+
+  const boxInput = (family: 'margin' | 'padding', side: BoxSide) => (
+    <input
+      type="text"
+      value={readBox(properties, family)[BOX_SIDES.indexOf(side)]}
+      onChange={(e) => onChange(writeBoxSide(css, properties, family, side, e.target.value))}
+      onKeyDown={(e) => {
+        if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+        const length = parseLength(readBox(properties, family)[BOX_SIDES.indexOf(side)] || '0');
+        if (!length) return;
+        e.preventDefault();
+        const delta = (e.key === 'ArrowUp' ? 1 : -1) * (e.shiftKey ? 10 : 1);
+        onChange(writeBoxSide(css, properties, family, side, formatLength({ value: length.value + delta, unit: length.unit || 'px' })));
+      }}
+      placeholder="0"
+      className="w-12 px-1 py-0.5 text-xs font-mono text-center border border-border rounded"
+      data-testid={`input-${family}-${side}`}
+    />
+  );
+
+  const addProperty = () => {
+    if (!newProperty.trim() || !newValue.trim()) return;
+    onChange(setRuleProperty(css, newProperty.trim(), newValue));
+    setNewProperty('');
+    setNewValue('');
+  };
+
+  return (
+    <div className="p-3 space-y-4" data-testid="panel-visual-editor">
+      <section className="space-y-1">
+        <h5 className="text-xs font-semibold mb-2">Properties</h5>
+        {Object.keys(properties).length === 0 && (
+          <div className="text-xs text-muted-foreground">No declarations yet.</div>
+        )}
+        {Object.entries(properties).map(([property, raw]) => {
+          const current = stripImportant(raw);
+          const testId = `property-${property}`;
+          return (
+            <div key={property} className="flex items-center gap-2 text-xs">
+              <span className="w-36 font-mono text-primary truncate" title={property}>{property}</span>
+              {parseColor(current.trim()) ? (
+                <ColorInput value={current} onChange={set(property)} testId={testId} />
+              ) : parseLength(current) ? (
+                <LengthInput value={current} onChange={set(property)} testId={testId} />
+              ) : (
+                <DraftInput value={current} onCommit={set(property)} testId={testId} />
+              )}
+              {raw !== current && <span className="text-yellow-400">!important</span>}
+              <button
+                onClick={() => set(property)('')}
+                className="ml-auto px-1 text-red-400 hover:text-red-300"
+                title={`Remove ${property}`}
+                data-testid={`button-remove-${testId}`}
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+        <div className="flex items-center gap-2 pt-1">
+          <input
+            type="text"
+            value={newProperty}
+            onChange={(e) => setNewProperty(e.target.value)}
+            placeholder="property"
+            className="w-36 px-2 py-0.5 text-xs font-mono border border-border rounded"
+            data-testid="input-new-property"
+          />
+          <input
+            type="text"
+            value={newValue}
+            onChange={(e) => setNewValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addProperty()}
+            placeholder="value"
+            className="flex-1 px-2 py-0.5 text-xs font-mono border border-border rounded"
+            data-testid="input-new-property-value"
+          />
+          <button
+            onClick={addProperty}
+            disabled={!newProperty.trim() || !newValue.trim()}
+            className="btn-secondary px-2 py-0.5 rounded text-xs"
+            data-testid="button-add-property"
+          >
+            Add
+          </button>
+        </div>
+      </section>
+
+      <section>
+        <h5 className="text-xs font-semibold mb-2">Box Model</h5>
+        <div className="border border-dashed border-accent/60 rounded p-2 text-xs" data-testid="box-model-margin">
+          <div className="text-muted-foreground mb-1">margin</div>
+          <div className="flex justify-center">{boxInput('margin', 'top')}</div>
+          <div className="flex items-center gap-2 my-1">
+            {boxInput('margin', 'left')}
+            <div className="flex-1 border border-primary/60 rounded p-2" data-testid="box-model-padding">
+              <div className="text-muted-foreground mb-1">padding</div>
+              <div className="flex justify-center">{boxInput('padding', 'top')}</div>
+              <div className="flex items-center gap-2 my-1">
+                {boxInput('padding', 'left')}
+                <div className="flex-1 bg-muted/40 rounded py-2 text-center font-mono text-muted-foreground">
+                  {value('width') || 'auto'} × {value('height') || 'auto'}
+                </div>
+                {boxInput('padding', 'right')}
+              </div>
+              <div className="flex justify-center">{boxInput('padding', 'bottom')}</div>
+            </div>
+            {boxInput('margin', 'right')}
+          </div>
+          <div className="flex justify-center">{boxInput('margin', 'bottom')}</div>
+        </div>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          <Field label="width"><LengthInput value={value('width')} onChange={set('width')} testId="width" /></Field>
+          <Field label="height"><LengthInput value={value('height')} onChange={set('height')} testId="height" /></Field>
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h5 className="text-xs font-semibold">Typography</h5>
+        <Field label="font-family">
+          <input
+            type="text"
+            list="css-font-stacks"
+            value={value('font-family')}
+            onChange={(e) => set('font-family')(e.target.value)}
+            placeholder="—"
+            className="w-56 px-2 py-0.5 text-xs font-mono border border-border rounded"
+            data-testid="input-font-family"
+          />
+        </Field>
+        <datalist id="css-font-stacks">
+          {FONT_STACKS.map(stack => <option key={stack} value={stack} />)}
+        </datalist>
+        <div className="grid grid-cols-2 gap-2">
+          <Field label="font-size"><LengthInput value={value('font-size')} onChange={set('font-size')} testId="font-size" /></Field>
+          <Field label="line-height"><LengthInput value={value('line-height')} onChange={set('line-height')} testId="line-height" /></Field>
+          <Field label="font-weight"><Choice value={value('font-weight')} options={FONT_WEIGHTS} onChange={set('font-weight')} testId="font-weight" /></Field>
+          <Field label="font-style"><Choice value={value('font-style')} options={['normal', 'italic']} onChange={set('font-style')} testId="font-style" /></Field>
+          <Field label="color"><ColorInput value={value('color')} onChange={set('color')} testId="color" /></Field>
+          <Field label="background"><ColorInput value={value('background-color')} onChange={set('background-color')} testId="background-color" /></Field>
+        </div>
+        <div className="flex items-center gap-1 text-xs">
+          <span className="text-muted-foreground font-mono mr-2">text-align</span>
+          {TEXT_ALIGNS.map(align => (
+            <button
+              key={align}
+              onClick={() => set('text-align')(value('text-align') === align ? '' : align)}
+              className={`px-2 py-0.5 rounded border border-border ${value('text-align') === align ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'}`}
+              data-testid={`button-text-align-${align}`}
+            >
+              {align}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <h5 className="text-xs font-semibold">Layout</h5>
+        <Field label="display"><Choice value={display} options={DISPLAYS} onChange={set('display')} testId="display" /></Field>
+        {isFlex && (
+          <div className="grid grid-cols-2 gap-2" data-testid="flex-controls">
+            <Field label="flex-direction"><Choice value={value('flex-direction')} options={FLEX_DIRECTIONS} onChange={set('flex-direction')} testId="flex-direction" /></Field>
+            <Field label="flex-wrap"><Choice value={value('flex-wrap')} options={FLEX_WRAPS} onChange={set('flex-wrap')} testId="flex-wrap" /></Field>
+            <Field label="justify-content"><Choice value={value('justify-content')} options={JUSTIFY_CONTENT} onChange={set('justify-content')} testId="justify-content" /></Field>
+            <Field label="align-items"><Choice value={value('align-items')} options={ALIGN_ITEMS} onChange={set('align-items')} testId="align-items" /></Field>
+            <Field label="gap"><LengthInput value={value('gap')} onChange={set('gap')} testId="gap" /></Field>
+          </div>
+        )}
+        {isGrid && (
+          <div className="space-y-2" data-testid="grid-controls">
+            <Field label="grid-template-columns">
+              <input
+                type="text"
+                value={value('grid-template-columns')}
+                onChange={(e) => set('grid-template-columns')(e.target.value)}
+                placeholder="—"
+                className="w-56 px-2 py-0.5 text-xs font-mono border border-border rounded"
+                data-testid="input-grid-template-columns"
+              />
+            </Field>
+            <div className="flex flex-wrap gap-1">
+              {GRID_TEMPLATES.map(template => (
+                <button
+                  key={template}
+                  onClick={() => set('grid-template-columns')(template)}
+                  className="px-2 py-0.5 text-xs font-mono rounded border border-border hover:bg-muted/50"
+                >
+                  {template}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Field label="gap"><LengthInput value={value('gap')} onChange={set('gap')} testId="gap" /></Field>
+              <Field label="justify-items"><Choice value={value('justify-items')} options={GRID_ALIGN} onChange={set('justify-items')} testId="justify-items" /></Field>
+              <Field label="align-items"><Choice value={value('align-items')} options={GRID_ALIGN} onChange={set('align-items')} testId="align-items" /></Field>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
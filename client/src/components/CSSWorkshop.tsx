@@ -1,6 +1,49 @@
 import { useState, useEffect, useMemo } from 'react';
 import type { ProjectFile, WorkshopMessage } from '@/types/workshop';
 import { parseCSS, CodeManipulator, parseCSSFromFiles } from '@/lib/workshopUtils';
+import { parseStylesheet } from '@/lib/cssParser';
+import {
+  buildSymbolIndex,
+  findUnusedSymbols,
+  symbolsInSelector,
+  symbolKey,
+  renameSymbol,
+  isValidSymbolName,
+  type SymbolEntry,
+  type SymbolLocation
+} from '@/lib/symbolIndex';
+import {
+  standardizeRules,
+  applyStandardization,
+  applyEdits,
+  DEFAULT_STANDARDIZE_OPTIONS,
+  type PropertyOrder,
+  type StandardizeOptions
+} from '@/lib/cssStandardize';
+import {
+  analyzeCascade,
+  mergeDuplicateGroup,
+  removeDeadDeclarations,
+  formatSpecificity,
+  removalEdit,
+  selectorSpecificity,
+  splitSelectorList,
+  type DuplicateGroup
+} from '@/lib/cssCascade';
+import { findUnusedCSS, removeUnusedRules, resolveSelector, relaxSelector } from '@/lib/unusedCSS';
+import { buildPreviewDocument } from '@/lib/cssPreview';
+import { findInlineStyles, groupInlineStyles, extractionTargets, extractInlineStyles, unreachedOccurrences } from '@/lib/inlineStyles';
+import {
+  extractColors,
+  clusterColors,
+  refactorToCustomProperties,
+  customPropertyTarget,
+  isValidCustomPropertyName,
+  toHex
+} from '@/lib/colorPalette';
+import CodeEditor from './CodeEditor';
+import CSSPropertyPanel from './CSSPropertyPanel';
+import DiffViewer from './DiffViewer';
 
 interface CSSWorkshopProps {
   files: ProjectFile[];
@@ -9,215 +52,552 @@ interface CSSWorkshopProps {
 }
 
 export default function CSSWorkshop({ files, onClose, sendMessage }: CSSWorkshopProps) {
-  const [selectedRule, setSelectedRule] = useState<string>('');
+  // `${fileName}:${start}`; selectors alone are ambiguous across files and at-rule blocks
+  const [selectedRuleKey, setSelectedRuleKey] = useState<string>('');
   const [editedCSS, setEditedCSS] = useState<string>('');
-  const [previewUrl, setPreviewUrl] = useState<string>('');
+  // Empty follows the selected rule's page
+  const [previewPage, setPreviewPage] = useState<string>('');
   const [newCSSRule, setNewCSSRule] = useState<string>('');
   const [isCreatingNew, setIsCreatingNew] = useState<boolean>(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [ruleToDelete, setRuleToDelete] = useState<any>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<typeof cssRules[number] | null>(null);
+  const [renameTarget, setRenameTarget] = useState<SymbolEntry | null>(null);
+  const [renameTo, setRenameTo] = useState<string>('');
+  // Batch tools take over the editor column while open
+  const [batchPanel, setBatchPanel] = useState<'standardize' | 'cascade' | 'unused' | 'palette' | 'inline' | null>(null);
+  // Unused rules the user unticked; everything removable starts selected
+  const [keptUnused, setKeptUnused] = useState<Set<string>>(new Set());
+  // Palette clusters are keyed by their representative color as written
+  const [paletteThreshold, setPaletteThreshold] = useState<number>(12);
+  const [paletteNames, setPaletteNames] = useState<Record<string, string>>({});
+  const [paletteSkipped, setPaletteSkipped] = useState<Set<string>>(new Set());
+  // Inline style groups are keyed by their normalized declarations
+  const [inlineNames, setInlineNames] = useState<Record<string, string>>({});
+  const [inlineSkipped, setInlineSkipped] = useState<Set<string>>(new Set());
+  const [inlineTarget, setInlineTarget] = useState<number>(0);
+  const [inlineImportant, setInlineImportant] = useState<boolean>(false);
+  const [standardizeOptions, setStandardizeOptions] = useState<StandardizeOptions>(DEFAULT_STANDARDIZE_OPTIONS);
 
   // Extract and parse CSS rules from files with line numbers
   const cssRules = useMemo(() => {
     return parseCSSFromFiles(files).map(rule => ({
       ...rule,
+      key: `${rule.fileName}:${rule.start}`,
+      specificity: splitSelectorList(rule.selector).map(selectorSpecificity),
       fileId: files.find(f => f.name === rule.fileName)?.id || 'unknown'
     }));
   }, [files]);
 
-  const handleRuleSelect = (rule: any) => {
+  // Consecutive rules from the same file and at-rule context share a group
+  const ruleGroups = useMemo(() => {
+    const groups: Array<{ key: string; source: string; context: string[]; rules: Array<{ rule: typeof cssRules[number]; index: number }> }> = [];
+    cssRules.forEach((rule, index) => {
+      const key = `${rule.source}|${rule.context.join('|')}`;
+      const last = groups[groups.length - 1];
+      if (last && last.key === key) {
+        last.rules.push({ rule, index });
+      } else {
+        groups.push({ key, source: rule.source, context: rule.context, rules: [{ rule, index }] });
+      }
+    });
+    return groups;
+  }, [cssRules]);
+
+  const selectedRuleInfo = cssRules.find(rule => rule.key === selectedRuleKey);
+  const selectedRule = selectedRuleInfo?.selector ?? '';
+
+  // Edits are spliced into the rule's exact source range, so they must stand on their own
+  const editErrors = useMemo(() => {
+    if (!editedCSS.trim()) return [];
+    return parseStylesheet(editedCSS).errors;
+  }, [editedCSS]);
+
+  // Where each class and id is defined and used across the project
+  const symbolIndex = useMemo(() => buildSymbolIndex(files), [files]);
+  const unusedSymbols = useMemo(() => new Set(findUnusedSymbols(symbolIndex).map(entry => symbolKey(entry.kind, entry.name))), [symbolIndex]);
+
+  const unusedInSelector = (selector: string) =>
+    symbolsInSelector(selector).map(s => symbolKey(s.kind, s.name)).filter(key => unusedSymbols.has(key));
+
+  const selectedUsages = useMemo(() => {
+    if (!selectedRule) return [];
+    return symbolsInSelector(selectedRule)
+      .map(s => symbolIndex.get(symbolKey(s.kind, s.name)))
+      .filter((entry): entry is SymbolEntry => !!entry);
+  }, [selectedRule, symbolIndex]);
+
+  // The hub opens the file at that line; the workshop gets out of the way
+  const jumpToLocation = (location: Pick<SymbolLocation, 'filename' | 'line'>) => {
+    sendMessage(null, {
+      type: 'WORKSHOP_FOCUS_LINE',
+      workshopId: 'css-workshop',
+      data: { filename: location.filename, line: location.line }
+    });
+    onClose();
+  };
+
+  const renameError = !renameTarget || renameTo === renameTarget.name
+    ? null
+    : !isValidSymbolName(renameTo)
+      ? 'Not a valid class or id name'
+      : null;
+  const renameClash = renameTarget && !renameError && symbolIndex.has(symbolKey(renameTarget.kind, renameTo));
+
+  const renameEdits = useMemo(() => {
+    if (!renameTarget || !isValidSymbolName(renameTo) || renameTo === renameTarget.name) return [];
+    return renameSymbol(files, renameTarget.kind, renameTarget.name, renameTo);
+  }, [files, renameTarget, renameTo]);
+
+  const startRename = (entry: SymbolEntry) => {
+    setRenameTarget(entry);
+    setRenameTo(entry.name);
+  };
+
+  const cancelRename = () => {
+    setRenameTarget(null);
+    setRenameTo('');
+  };
+
+  // Every file changes in one patch that is reviewed and applied as a whole
+  const handleRename = () => {
+    if (!renameTarget || renameEdits.length === 0) return;
+    const from = symbolKey(renameTarget.kind, renameTarget.name);
+    const to = symbolKey(renameTarget.kind, renameTo);
+    const occurrences = renameEdits.reduce((sum, edit) => sum + edit.count, 0);
+
+    sendMessage(null, {
+      type: 'WORKSHOP_APPLY_PATCH',
+      workshopId: 'css-workshop',
+      data: {
+        files: renameEdits.map(edit => ({ fileId: edit.file.id, code: edit.code })),
+        summary: `Renamed ${from} to ${to} (${occurrences} occurrences in ${renameEdits.length} files)`,
+        atomic: true,
+        changes: renameEdits.map(edit => ({
+          type: 'rename',
+          description: `Renamed ${from} to ${to} ${edit.count} time(s)`,
+          location: edit.file.name
+        }))
+      }
+    });
+
+    cancelRename();
+    onClose();
+  };
+
+  // Only computed while the panel is open; it re-parses every rule
+  const standardizeResults = useMemo(() => {
+    if (batchPanel !== 'standardize') return [];
+    return standardizeRules(cssRules, standardizeOptions);
+  }, [batchPanel, cssRules, standardizeOptions]);
+
+  const toggleStandardizeOption = (option: Exclude<keyof StandardizeOptions, 'order'>) => {
+    setStandardizeOptions(prev => ({ ...prev, [option]: !prev[option] }));
+  };
+
+  // Each rule's edits land in its own file; one patch covers every file that changes
+  const handleStandardize = () => {
+    if (standardizeResults.length === 0) return;
+    const byFile = new Map<string, typeof standardizeResults>();
+    standardizeResults.forEach(result => {
+      byFile.set(result.rule.fileName, [...(byFile.get(result.rule.fileName) || []), result]);
+    });
+
+    const updates = Array.from(byFile.entries()).flatMap(([fileName, results]) => {
+      const file = files.find(f => f.name === fileName);
+      return file ? [{ file, results, code: applyStandardization(file.content, results) }] : [];
+    });
+    if (updates.length === 0) return;
+
+    sendMessage(null, {
+      type: 'WORKSHOP_APPLY_PATCH',
+      workshopId: 'css-workshop',
+      data: {
+        files: updates.map(update => ({ fileId: update.file.id, code: update.code })),
+        summary: `Standardized ${standardizeResults.length} CSS rules in ${updates.length} files`,
+        changes: updates.flatMap(update => update.results.map(result => ({
+          type: 'standardize',
+          description: `${result.rule.selector}: ${result.notes.join(', ') || 'Reformatted declarations'}`,
+          location: `${update.file.name}:${result.rule.lineNumber}`
+        })))
+      }
+    });
+
+    setBatchPanel(null);
+    onClose();
+  };
+
+  const cascadeReport = useMemo(() => {
+    if (batchPanel !== 'cascade') return null;
+    return analyzeCascade(cssRules, files);
+  }, [batchPanel, cssRules, files]);
+
+  // Merging rewrites several places at once, so the patch is reviewed as a whole
+  const handleMergeDuplicates = (group: DuplicateGroup) => {
+    if (!cascadeReport) return;
+    const edits = mergeDuplicateGroup(files, group, cascadeReport.dead);
+    if (edits.length === 0) return;
+    const target = group.rules[group.rules.length - 1].rule;
+
+    sendMessage(null, {
+      type: 'WORKSHOP_APPLY_PATCH',
+      workshopId: 'css-workshop',
+      data: {
+        files: edits.map(edit => ({ fileId: edit.file.id, code: edit.code })),
+        summary: `Merged ${group.rules.length} "${group.selector}" rules into ${target.fileName}:${target.lineNumber}`,
+        atomic: true,
+        changes: group.rules.map(({ rule }) => ({
+          type: rule === target ? 'merge' : 'delete',
+          description: rule === target ? `Merged duplicates of ${group.selector}` : `Folded ${group.selector} into line ${target.lineNumber}`,
+          location: `${rule.fileName}:${rule.lineNumber}`
+        }))
+      }
+    });
+
+    setBatchPanel(null);
+    onClose();
+  };
+
+  const unusedReport = useMemo(() => {
+    if (batchPanel !== 'unused') return null;
+    return findUnusedCSS(files, cssRules, symbolIndex);
+  }, [batchPanel, files, cssRules, symbolIndex]);
+
+  const unusedRuleKey = (rule: { fileName: string; start: number }) => `${rule.fileName}:${rule.start}`;
+  const selectedUnused = (unusedReport?.unused || []).filter(entry => entry.removable && !keptUnused.has(unusedRuleKey(entry.rule)));
+  const dynamicRules = unusedReport
+    ? cssRules.filter(rule => unusedReport.usage.get(rule)?.status === 'dynamic')
+    : [];
+
+  const toggleUnused = (key: string) => {
+    setKeptUnused(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // Every affected file gets its own section in the review
+  const handleRemoveUnused = () => {
+    if (selectedUnused.length === 0) return;
+    const edits = removeUnusedRules(files, selectedUnused.map(entry => entry.rule));
+
+    sendMessage(null, {
+      type: 'WORKSHOP_APPLY_PATCH',
+      workshopId: 'css-workshop',
+      data: {
+        files: edits.map(edit => ({ fileId: edit.file.id, code: edit.code })),
+        summary: `Removed ${selectedUnused.length} unused CSS rules from ${edits.length} files`,
+        changes: selectedUnused.map(({ rule }) => ({
+          type: 'delete',
+          description: `${rule.selector} matches no element in the project's HTML`,
+          location: `${rule.fileName}:${rule.lineNumber}`
+        }))
+      }
+    });
+
+    setBatchPanel(null);
+    onClose();
+  };
+
+  const palette = useMemo(() => {
+    if (batchPanel !== 'palette') return [];
+    return clusterColors(extractColors(cssRules), paletteThreshold);
+  }, [batchPanel, cssRules, paletteThreshold]);
+
+  const existingCustomProperties = useMemo(
+    () => new Set(cssRules.flatMap(rule => Object.keys(rule.properties).filter(property => property.startsWith('--')))),
+    [cssRules]
+  );
+
+  const paletteSelection = palette
+    .filter(cluster => !paletteSkipped.has(cluster.representative.text))
+    .map(cluster => ({ ...cluster, name: paletteNames[cluster.representative.text] ?? cluster.name }));
+
+  const paletteNameError = (name: string, key: string) => {
+    if (!isValidCustomPropertyName(name)) return 'Must look like --color-name';
+    if (existingCustomProperties.has(name)) return 'Already defined in the project';
+    if (paletteSelection.some(cluster => cluster.name === name && cluster.representative.text !== key)) return 'Used by another color';
+    return null;
+  };
+  const paletteHasErrors = paletteSelection.some(cluster => paletteNameError(cluster.name, cluster.representative.text));
+  const paletteTarget = paletteSelection.length > 0 ? customPropertyTarget(files, cssRules, paletteSelection) : null;
+
+  const togglePaletteCluster = (key: string) => {
+    setPaletteSkipped(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // Definitions and references have to land together, so the patch is atomic
+  const handleRefactorColors = () => {
+    if (paletteSelection.length === 0 || paletteHasErrors || !paletteTarget) return;
+    const edits = refactorToCustomProperties(files, cssRules, paletteSelection);
+    if (edits.length === 0) return;
+    const references = edits.reduce((sum, edit) => sum + edit.count, 0);
+
+    sendMessage(null, {
+      type: 'WORKSHOP_APPLY_PATCH',
+      workshopId: 'css-workshop',
+      data: {
+        files: edits.map(edit => ({ fileId: edit.file.id, code: edit.code })),
+        summary: `Introduced ${paletteSelection.length} color custom properties (${references} references in ${edits.length} files)`,
+        atomic: true,
+        changes: paletteSelection.map(cluster => ({
+          type: 'refactor',
+          description: `${cluster.name}: ${cluster.representative.text} replaces ${cluster.members.map(m => m.text).join(', ')}`,
+          location: ':root'
+        }))
+      }
+    });
+
+    setBatchPanel(null);
+    onClose();
+  };
+
+  const inlineGroups = useMemo(() => {
+    if (batchPanel !== 'inline') return [];
+    return groupInlineStyles(findInlineStyles(files));
+  }, [batchPanel, files]);
+
+  const inlineTargets = useMemo(() => extractionTargets(files), [files]);
+
+  const inlineSelection = inlineGroups
+    .filter(group => !inlineSkipped.has(group.key))
+    .map(group => ({ group, className: inlineNames[group.key] ?? group.suggestedName }));
+
+  const inlineNameError = (name: string, key: string) => {
+    if (!isValidSymbolName(name)) return 'Not a valid class name';
+    if (symbolIndex.has(symbolKey('class', name))) return 'Already used in the project';
+    if (inlineSelection.some(entry => entry.className === name && entry.group.key !== key)) return 'Used by another group';
+    return null;
+  };
+  const inlineHasErrors = inlineSelection.some(entry => inlineNameError(entry.className, entry.group.key));
+  // Elements on pages that don't load the chosen target keep their style attribute
+  const inlineUnreached = inlineTargets[inlineTarget]
+    ? unreachedOccurrences(files, inlineSelection, inlineTargets[inlineTarget].target)
+    : [];
+
+  const toggleInlineGroup = (key: string) => {
+    setInlineSkipped(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // The new classes and the elements using them have to land together, so the patch is atomic
+  const handleExtractInlineStyles = () => {
+    const target = inlineTargets[inlineTarget];
+    if (!target || inlineSelection.length === 0 || inlineHasErrors) return;
+    const edits = extractInlineStyles(files, inlineSelection, target.target, inlineImportant);
+    if (edits.length === 0) return;
+    const elements = inlineSelection.reduce((sum, entry) => sum + entry.group.occurrences.length, 0) - inlineUnreached.length;
+    const skipped = inlineUnreached.length > 0 ? `; ${inlineUnreached.length} on pages not loading it left inline` : '';
+
+    sendMessage(null, {
+      type: 'WORKSHOP_APPLY_PATCH',
+      workshopId: 'css-workshop',
+      data: {
+        files: edits.map(edit => ({ fileId: edit.file.id, code: edit.code })),
+        summary: `Extracted ${inlineSelection.length} inline styles into classes in ${target.label} (${elements} elements in ${edits.length} files${skipped})`,
+        atomic: true,
+        changes: inlineSelection.map(({ group, className }) => ({
+          type: 'refactor',
+          description: `.${className} { ${group.key} } replaces ${group.occurrences.length} style attribute${group.occurrences.length === 1 ? '' : 's'}`,
+          location: target.label
+        }))
+      }
+    });
+
+    setBatchPanel(null);
+    onClose();
+  };
+
+  const handleRemoveDeadDeclarations = () => {
+    if (!cascadeReport || cascadeReport.dead.length === 0) return;
+    const edits = removeDeadDeclarations(files, cascadeReport.dead);
+
+    sendMessage(null, {
+      type: 'WORKSHOP_APPLY_PATCH',
+      workshopId: 'css-workshop',
+      data: {
+        files: edits.map(edit => ({ fileId: edit.file.id, code: edit.code })),
+        summary: `Removed ${cascadeReport.dead.length} overridden declarations`,
+        changes: cascadeReport.dead.map(({ rule, declaration }) => ({
+          type: 'delete',
+          description: `${rule.rule.selector} { ${declaration.property}: ${declaration.value} } is always overridden`,
+          location: `${rule.rule.fileName}:${rule.rule.lineNumber}`
+        }))
+      }
+    });
+
+    setBatchPanel(null);
+    onClose();
+  };
+
+  const handleRuleSelect = (rule: typeof cssRules[number]) => {
     setIsCreatingNew(false);
     setNewCSSRule('');
-    setSelectedRule(rule.selector);
-    const cssText = `${rule.selector} {\n${Object.entries(rule.properties)
-      .map(([prop, value]) => `  ${prop}: ${value};`)
-      .join('\n')}\n}`;
-    setEditedCSS(cssText);
-    
-    // Immediately update preview when selecting a new rule
-    updatePreview(cssText);
+    cancelRename();
+    setSelectedRuleKey(rule.key);
+    // The rule exactly as written, comments and nested rules included
+    setEditedCSS(rule.rawContent);
   };
 
   const handleCreateNew = () => {
     setIsCreatingNew(true);
-    setSelectedRule('');
+    setSelectedRuleKey('');
     setEditedCSS('');
     setNewCSSRule('.new-rule {\n  /* Add your styles here */\n  color: #333;\n  background: #fff;\n}');
   };
 
-  const updatePreview = (css: string) => {
-    const previewHTML = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>CSS Preview</title>
-  <style>
-    body { font-family: Arial, sans-serif; margin: 20px; background: #f5f5f5; }
-    ${css}
-  </style>
-</head>
-<body>
-  <div class="container">
-    <h1>Preview Content</h1>
-    <p>This is a sample paragraph to demonstrate your CSS.</p>
-    <div class="hero">Hero Section</div>
-    <div class="card">Card Component</div>
-    <button class="btn">Sample Button</button>
-  </div>
-</body>
-</html>`;
-    
-    // Clean up previous URL
-    if (previewUrl) {
-      URL.revokeObjectURL(previewUrl);
+  const htmlPages = useMemo(() => files.filter(f => f.type === 'html'), [files]);
+
+  // The chosen page, else the page the rule lives in, else one that links its stylesheet
+  const activePreviewPage = useMemo(() => {
+    if (htmlPages.some(f => f.name === previewPage)) return previewPage;
+    if (selectedRuleInfo) {
+      const own = htmlPages.find(f => f.name === selectedRuleInfo.fileName);
+      if (own) return own.name;
+      const linking = htmlPages.find(f => f.content.includes(selectedRuleInfo.fileName));
+      if (linking) return linking.name;
     }
-    
-    const blob = new Blob([previewHTML], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    setPreviewUrl(url);
-  };
+    return htmlPages[0]?.name ?? '';
+  }, [htmlPages, previewPage, selectedRuleInfo]);
 
-  useEffect(() => {
-    if (editedCSS || newCSSRule) {
-      updatePreview(editedCSS || newCSSRule);
+  // The edited selector (it may have changed), resolved through any parent rules
+  const previewSelectors = useMemo(() => {
+    const css = isCreatingNew ? newCSSRule : editedCSS;
+    const rule = parseStylesheet(css).children.find(node => node.type === 'rule');
+    if (!rule || rule.type !== 'rule') return [];
+    const resolved = resolveSelector({ selector: rule.selector, context: isCreatingNew ? [] : selectedRuleInfo?.context ?? [] });
+    return Array.from(new Set([resolved, relaxSelector(resolved)]));
+  }, [isCreatingNew, newCSSRule, editedCSS, selectedRuleInfo]);
+
+  const previewDoc = useMemo(() => {
+    if (!activePreviewPage) return '';
+    return buildPreviewDocument(files, activePreviewPage, {
+      edit: !isCreatingNew && selectedRuleInfo && editedCSS && editErrors.length === 0
+        ? { fileName: selectedRuleInfo.fileName, start: selectedRuleInfo.start, end: selectedRuleInfo.end, css: editedCSS }
+        : null,
+      extraCSS: isCreatingNew ? newCSSRule : undefined,
+      highlight: previewSelectors
+    });
+  }, [files, activePreviewPage, isCreatingNew, selectedRuleInfo, editedCSS, editErrors, newCSSRule, previewSelectors]);
+
+  // Counted on the static page, so script-added elements aren't included
+  const previewMatchCount = useMemo(() => {
+    if (!previewDoc || previewSelectors.length === 0) return null;
+    const doc = new DOMParser().parseFromString(previewDoc, 'text/html');
+    for (const selector of previewSelectors) {
+      try {
+        const count = doc.querySelectorAll(selector).length;
+        if (count > 0) return count;
+      } catch {
+        // Try the relaxed form
+      }
     }
-  }, [editedCSS, newCSSRule]);
+    return 0;
+  }, [previewDoc, previewSelectors]);
 
   // Refresh when files change
   useEffect(() => {
     // Reset selections when files change to force refresh
-    setSelectedRule('');
+    setSelectedRuleKey('');
     setEditedCSS('');
     setNewCSSRule('');
     setIsCreatingNew(false);
-    if (previewUrl) {
-      URL.revokeObjectURL(previewUrl);
-      setPreviewUrl('');
-    }
+    setRenameTarget(null);
+    setBatchPanel(null);
+    setKeptUnused(new Set());
+    setPaletteNames({});
+    setPaletteSkipped(new Set());
+    setInlineNames({});
+    setInlineSkipped(new Set());
+    setInlineTarget(0);
   }, [files]);
 
   const handleApplyChanges = () => {
-    if (!selectedRule || !editedCSS) return;
+    if (!selectedRuleInfo || !editedCSS || editErrors.length > 0) return;
     
     // Find the original file to modify
-    const targetRule = cssRules.find(rule => rule.selector === selectedRule);
-    if (!targetRule) return;
-    
+    const targetRule = selectedRuleInfo;
     const targetFile = files.find(f => f.id === targetRule.fileId);
     if (!targetFile) return;
+    if (targetFile.content.slice(targetRule.start, targetRule.end) !== targetRule.rawContent) {
+      alert('This rule changed since the workshop opened; reopen it and try again');
+      return;
+    }
     
-    try {
-      const manipulator = new CodeManipulator(targetFile.content);
-      let modifiedContent = targetFile.content;
-      
-      if (targetFile.type === 'css') {
-        // For CSS files, replace the entire rule
-        const ruleLocation = manipulator.findCSSRule(selectedRule);
-        if (ruleLocation) {
-          modifiedContent = manipulator.replaceAtLocation(ruleLocation, editedCSS);
-        }
-      } else if (targetFile.type === 'html') {
-        // For HTML with inline styles, need to find and replace within <style> tags
-        const styleRegex = /<style[^>]*>([\s\S]*?)<\/style>/gi;
-        modifiedContent = targetFile.content.replace(styleRegex, (match, cssContent) => {
-          const cssManipulator = new CodeManipulator(cssContent);
-          const ruleLocation = cssManipulator.findCSSRule(selectedRule);
-          if (ruleLocation) {
-            const updatedCSS = cssManipulator.replaceAtLocation(ruleLocation, editedCSS);
-            return match.replace(cssContent, updatedCSS);
-          }
-          return match;
-        });
+    // Replace exactly the rule's source range; everything around it stays byte for byte
+    const modifiedContent =
+      targetFile.content.slice(0, targetRule.start) + editedCSS + targetFile.content.slice(targetRule.end);
+    const where = targetRule.context.length > 0 ? ` inside ${targetRule.context.join(' › ')}` : '';
+    
+    sendMessage(null, {
+      type: 'WORKSHOP_APPLY_PATCH',
+      workshopId: 'css-workshop',
+      data: {
+        code: modifiedContent,
+        fileId: targetFile.id,
+        summary: `CSS rule "${targetRule.selector}"${where} updated in place`,
+        changes: [{
+          type: 'replace',
+          description: `Updated ${targetRule.selector} in ${targetFile.name}`,
+          location: `Line ${targetRule.lineNumber}-${targetRule.endLineNumber}`
+        }]
       }
-      
-      sendMessage(null, {
-        type: 'WORKSHOP_APPLY_PATCH',
-        workshopId: 'css-workshop',
-        data: {
-          code: modifiedContent,
-          summary: `CSS rule "${selectedRule}" updated with preserved structure`,
-          changes: [{
-            type: 'replace',
-            description: `Updated ${selectedRule} in ${targetFile.name}`,
-            location: `Line ${targetRule.startLine}-${targetRule.endLine}`
-          }]
-        }
-      });
-      
-      onClose();
-    } catch (error) {
-      console.error('Failed to apply CSS changes:', error);
-      
-      // Fallback: Send original code as backup
-      sendMessage(null, {
-        type: 'WORKSHOP_APPLY_PATCH',
-        workshopId: 'css-workshop',
-        data: {
-          code: editedCSS,
-          summary: `CSS rule "${selectedRule}" updated (fallback mode)`
-        }
-      });
-      onClose();
-    }
+    });
+    
+    onClose();
   };
 
-  const handleDeleteRule = (rule: any) => {
+  const handleDeleteRule = (rule: typeof cssRules[number]) => {
     setRuleToDelete(rule);
     setShowDeleteDialog(true);
   };
 
+  // Removes exactly the rule's source range, in a CSS file or any one of an HTML file's <style> blocks;
+  // every other rule, and the <style> element itself, stays as written
   const confirmDelete = () => {
     if (!ruleToDelete) return;
-    
-    // Find the file containing this rule
     const targetFile = files.find(f => f.id === ruleToDelete.fileId);
-    
-    if (targetFile) {
-      try {
-        const manipulator = new CodeManipulator(targetFile.content);
-        let modifiedContent = targetFile.content;
-        
-        if (targetFile.type === 'css') {
-          // For CSS files, remove the entire rule
-          const ruleLocation = manipulator.findCSSRule(ruleToDelete.selector);
-          if (ruleLocation) {
-            // Replace the rule with empty content to effectively delete it
-            modifiedContent = manipulator.replaceAtLocation(ruleLocation, '');
-          }
-        } else if (targetFile.type === 'html') {
-          // For HTML files, remove the style tag or rule within <style>
-          const styleTagRegex = new RegExp(`<style[^>]*>[\\s\\S]*?${ruleToDelete.selector.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[\\s\\S]*?</style>`, 'gi');
-          modifiedContent = targetFile.content.replace(styleTagRegex, '');
-        }
-        
-        sendMessage(null, {
-          type: 'WORKSHOP_APPLY_PATCH',
-          workshopId: 'css-workshop',
-          data: {
-            code: modifiedContent,
-            summary: `Removed CSS rule: ${ruleToDelete.selector}`,
-            changes: [{
-              type: 'delete',
-              description: `Deleted CSS rule ${ruleToDelete.selector}`,
-              location: `${targetFile.name}:${ruleToDelete.line || 'unknown'}`
-            }]
-          }
-        });
-        
-        // Clear selection if this rule was selected
-        if (selectedRule === ruleToDelete.selector) {
-          setSelectedRule('');
-          setEditedCSS('');
+
+    if (targetFile && targetFile.content.slice(ruleToDelete.start, ruleToDelete.end) === ruleToDelete.rawContent) {
+      const modifiedContent = applyEdits(targetFile.content, [
+        removalEdit(targetFile.content, ruleToDelete.start, ruleToDelete.end)
+      ]);
+      const where = ruleToDelete.context.length > 0 ? ` inside ${ruleToDelete.context.join(' › ')}` : '';
+
+      sendMessage(null, {
+        type: 'WORKSHOP_APPLY_PATCH',
+        workshopId: 'css-workshop',
+        data: {
+          code: modifiedContent,
+          fileId: targetFile.id,
+          summary: `Removed CSS rule "${ruleToDelete.selector}"${where} from ${ruleToDelete.source}`,
+          changes: [{
+            type: 'delete',
+            description: `Deleted CSS rule ${ruleToDelete.selector}`,
+            location: `${targetFile.name}:${ruleToDelete.lineNumber}-${ruleToDelete.endLineNumber}`
+          }]
         }
-        
-      } catch (error) {
-        console.error('Failed to delete CSS rule:', error);
-        alert('Failed to delete CSS rule from code');
+      });
+
+      // Clear selection if this rule was selected
+      if (selectedRuleKey === ruleToDelete.key) {
+        setSelectedRuleKey('');
+        setEditedCSS('');
       }
+    } else {
+      alert('This rule changed since the workshop opened; reopen it and try again');
     }
-    
+
     setShowDeleteDialog(false);
     setRuleToDelete(null);
   };
@@ -243,6 +623,7 @@ export default function CSSWorkshop({ files, onClose, sendMessage }: CSSWorkshop
         workshopId: 'css-workshop',
         data: {
           code: modifiedContent,
+          fileId: cssFile.id,
           summary: `Added new CSS rule to ${cssFile.name}`,
           changes: [{
             type: 'append',
@@ -271,10 +652,9 @@ export default function CSSWorkshop({ files, onClose, sendMessage }: CSSWorkshop
         } else {
           // Create new style section in head
           const headLocation = manipulator.findHtmlHead();
-          if (headLocation) {
-            const styleSection = `\n    <style>\n${newCSSRule}\n    </style>\n`;
-            modifiedContent = manipulator.insertAtLocation(headLocation, styleSection, false);
-          }
+          if (!headLocation) throw new Error(`${htmlFile.name} has no <head>`);
+          const styleSection = `\n    <style>\n${newCSSRule}\n    </style>\n`;
+          modifiedContent = manipulator.insertAtLocation(headLocation, styleSection, false);
         }
         
         sendMessage(null, {
@@ -282,6 +662,7 @@ export default function CSSWorkshop({ files, onClose, sendMessage }: CSSWorkshop
           workshopId: 'css-workshop',
           data: {
             code: modifiedContent,
+            fileId: htmlFile.id,
             summary: `Added new CSS rule to ${htmlFile.name}`,
             changes: [{
               type: 'append',
@@ -292,27 +673,14 @@ export default function CSSWorkshop({ files, onClose, sendMessage }: CSSWorkshop
         });
         
       } catch (error) {
+        // An untargeted patch would replace whichever file is open, so nothing is sent
         console.error('Failed to append CSS to HTML:', error);
-        // Fallback: send just the CSS rule
-        sendMessage(null, {
-          type: 'WORKSHOP_APPLY_PATCH',
-          workshopId: 'css-workshop',
-          data: {
-            code: newCSSRule,
-            summary: 'New CSS rule created (manual insertion required)'
-          }
-        });
+        alert(`Couldn't find where to add the rule in ${htmlFile.name}; add a <style> block or a stylesheet and try again`);
+        return;
       }
     } else {
-      // No appropriate file found, send just the CSS
-      sendMessage(null, {
-        type: 'WORKSHOP_APPLY_PATCH',
-        workshopId: 'css-workshop',
-        data: {
-          code: newCSSRule,
-          summary: 'New CSS rule created (no CSS/HTML file found for automatic insertion)'
-        }
-      });
+      alert('Add a CSS file or an HTML page to hold the new rule');
+      return;
     }
     
     onClose();
@@ -346,48 +714,80 @@ export default function CSSWorkshop({ files, onClose, sendMessage }: CSSWorkshop
       {/* Workshop Content */}
       <div className="flex-1 grid grid-cols-12 gap-4 p-4 overflow-hidden">
         {/* CSS Rules Panel */}
-        <div className="col-span-4 space-y-4">
+        <div className="col-span-4 space-y-4 overflow-y-auto">
           <div className="tool-panel p-3">
-            <h3 className="text-sm font-semibold mb-3">Detected CSS Rules</h3>
-            <div className="space-y-2 max-h-48 overflow-y-auto">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold">Detected CSS Rules</h3>
+              {unusedSymbols.size > 0 && (
+                <span
+                  className="px-2 py-0.5 text-xs bg-yellow-500/20 text-yellow-400 rounded-full"
+                  title={Array.from(unusedSymbols).join(', ')}
+                  data-testid="badge-unused-selectors"
+                >
+                  ⚠ {unusedSymbols.size} unused
+                </span>
+              )}
+            </div>
+            <div className="space-y-3 max-h-64 overflow-y-auto">
               {cssRules.length === 0 ? (
                 <div className="text-center py-4 text-muted-foreground text-sm">
                   No CSS rules found
                 </div>
               ) : (
-                cssRules.map((rule, index) => (
-                  <div
-                    key={`${rule.fileId}-${index}`}
-                    className={`p-2 rounded cursor-pointer transition-colors ${
-                      selectedRule === rule.selector
-                        ? 'bg-secondary border-2 border-secondary shadow-md text-secondary-foreground'
-                        : 'bg-muted/30 hover:bg-muted/50 border border-transparent'
-                    }`}
-                    onClick={() => handleRuleSelect(rule)}
-                    data-testid={`css-rule-${index}`}
-                  >
-                    <div className="flex items-center gap-2 mb-1">
-                      <div className="font-mono text-sm text-primary">{rule.selector}</div>
-                      <div className="bg-accent/20 text-accent px-2 py-0.5 rounded text-xs font-mono">
-                        Line {rule.lineNumber}{ rule.endLineNumber !== rule.lineNumber ? `-${rule.endLineNumber}` : '' }
-                      </div>
-                      <button 
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteRule(rule);
-                        }}
-                        className="px-2 py-1 text-sm text-red-600 hover:text-red-800 bg-red-100 hover:bg-red-200 border border-red-300 rounded ml-auto font-bold shadow-sm"
-                        data-testid={`button-delete-css-rule-${index}`}
-                        title="Delete CSS rule from code"
-                      >
-                        🗑️
-                      </button>
+                ruleGroups.map(group => (
+                  <div key={`${group.key}-${group.rules[0].index}`} className="space-y-2" data-testid={`css-rule-group-${group.rules[0].index}`}>
+                    <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                      <span>{group.source}</span>
+                      {group.context.map((label, i) => (
+                        <span key={i} className="font-mono text-accent">› {label}</span>
+                      ))}
                     </div>
-                    <div className="text-xs text-muted-foreground">
-                      {Object.keys(rule.properties).join(', ')}
-                    </div>
-                    <div className="text-xs text-muted-foreground mt-1">
-                      {rule.source}
+                    <div className={`space-y-2 ${group.context.length > 0 ? 'ml-2 pl-2 border-l border-accent/40' : ''}`}>
+                      {group.rules.map(({ rule, index }) => (
+                        <div
+                          key={rule.key}
+                          className={`p-2 rounded cursor-pointer transition-colors ${
+                            selectedRuleKey === rule.key
+                              ? 'bg-secondary border-2 border-secondary shadow-md text-secondary-foreground'
+                              : 'bg-muted/30 hover:bg-muted/50 border border-transparent'
+                          }`}
+                          onClick={() => handleRuleSelect(rule)}
+                          data-testid={`css-rule-${index}`}
+                        >
+                          <div className="flex items-center gap-2 mb-1">
+                            <div className="font-mono text-sm text-primary">{rule.selector}</div>
+                            <div
+                              className="text-muted-foreground text-xs font-mono"
+                              title="Specificity (ids, classes, types)"
+                              data-testid={`text-specificity-${index}`}
+                            >
+                              {rule.specificity.map(formatSpecificity).join(' ')}
+                            </div>
+                            <div className="bg-accent/20 text-accent px-2 py-0.5 rounded text-xs font-mono">
+                              Line {rule.lineNumber}{ rule.endLineNumber !== rule.lineNumber ? `-${rule.endLineNumber}` : '' }
+                            </div>
+                            <button 
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeleteRule(rule);
+                              }}
+                              className="px-2 py-1 text-sm text-red-600 hover:text-red-800 bg-red-100 hover:bg-red-200 border border-red-300 rounded ml-auto font-bold shadow-sm"
+                              data-testid={`button-delete-css-rule-${index}`}
+                              title="Delete CSS rule from code"
+                            >
+                              🗑️
+                            </button>
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {Object.keys(rule.properties).join(', ')}
+                          </div>
+                          {unusedInSelector(rule.selector).length > 0 && (
+                            <div className="text-xs text-yellow-400 mt-1" data-testid={`css-rule-unused-${index}`}>
+                              ⚠ Never referenced: {unusedInSelector(rule.selector).join(', ')}
+                            </div>
+                          )}
+                        </div>
+                      ))}
                     </div>
                   </div>
                 ))
@@ -395,6 +795,106 @@ export default function CSSWorkshop({ files, onClose, sendMessage }: CSSWorkshop
             </div>
           </div>
 
+          {selectedRule && !isCreatingNew && (
+            <div className="tool-panel p-3">
+              <h3 className="text-sm font-semibold mb-3">Find Usages</h3>
+              <div className="space-y-3 max-h-56 overflow-y-auto">
+                {selectedUsages.length === 0 ? (
+                  <div className="text-center py-2 text-muted-foreground text-sm">
+                    No classes or ids in this selector
+                  </div>
+                ) : (
+                  selectedUsages.map(entry => {
+                    const key = symbolKey(entry.kind, entry.name);
+                    const locations = [
+                      ...entry.definitions.map(location => ({ location, label: 'def' })),
+                      ...entry.references.map(location => ({ location, label: location.source }))
+                    ];
+                    return (
+                      <div key={key} data-testid={`usages-${key}`}>
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-mono text-sm text-primary">{key}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {entry.definitions.length} def · {entry.references.length} ref
+                          </span>
+                          {entry.references.length === 0 && (
+                            <span className="px-2 py-0.5 text-xs bg-yellow-500/20 text-yellow-400 rounded">unused</span>
+                          )}
+                          <button
+                            className="ml-auto px-2 py-0.5 text-xs bg-muted hover:bg-muted/80 rounded transition-colors"
+                            onClick={() => startRename(entry)}
+                            title={`Rename ${key} in every file`}
+                            data-testid={`button-rename-${key}`}
+                          >
+                            ✏️ Rename
+                          </button>
+                        </div>
+                        {renameTarget && symbolKey(renameTarget.kind, renameTarget.name) === key && (
+                          <div className="mb-2 p-2 rounded bg-muted/30 space-y-2">
+                            <div className="flex items-center gap-2">
+                              <span className="font-mono text-sm text-muted-foreground">{entry.kind === 'class' ? '.' : '#'}</span>
+                              <input
+                                type="text"
+                                value={renameTo}
+                                onChange={(e) => setRenameTo(e.target.value.trim())}
+                                onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                                className="flex-1 px-2 py-1 text-xs bg-background border border-border rounded font-mono"
+                                autoFocus
+                                data-testid="input-rename-selector"
+                              />
+                            </div>
+                            {renameError ? (
+                              <div className="text-xs text-red-400">{renameError}</div>
+                            ) : renameEdits.length > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                {renameEdits.reduce((sum, edit) => sum + edit.count, 0)} occurrence(s) in {renameEdits.map(edit => edit.file.name).join(', ')}
+                              </div>
+                            )}
+                            {renameClash && (
+                              <div className="text-xs text-yellow-400">
+                                ⚠ {symbolKey(entry.kind, renameTo)} already exists; its rules and usages will be merged
+                              </div>
+                            )}
+                            <div className="flex gap-2">
+                              <button
+                                className="flex-1 btn-primary px-2 py-1 rounded text-xs disabled:opacity-50"
+                                onClick={handleRename}
+                                disabled={renameEdits.length === 0}
+                                data-testid="button-confirm-rename"
+                              >
+                                Preview Rename
+                              </button>
+                              <button
+                                className="px-2 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors"
+                                onClick={cancelRename}
+                                data-testid="button-cancel-rename"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                        {locations.map(({ location, label }, i) => (
+                          <div
+                            key={`${location.filename}-${location.line}-${i}`}
+                            className="flex items-center gap-2 p-1 rounded text-xs cursor-pointer hover:bg-muted/50"
+                            onClick={() => jumpToLocation(location)}
+                            title="Open in editor"
+                            data-testid={`usage-${key}-${i}`}
+                          >
+                            <span className="bg-accent/20 text-accent px-1.5 rounded font-mono">{label}</span>
+                            <span className="font-mono text-muted-foreground shrink-0">{location.filename}:{location.line}</span>
+                            <span className="font-mono truncate">{location.context}</span>
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+          )}
+
           <div className="tool-panel p-3">
             <h3 className="text-sm font-semibold mb-3">Batch Operations</h3>
             <div className="space-y-2">
@@ -407,14 +907,43 @@ export default function CSSWorkshop({ files, onClose, sendMessage }: CSSWorkshop
               </button>
               <button 
                 className="w-full btn-primary px-3 py-2 rounded text-sm"
+                onClick={() => setBatchPanel(batchPanel === 'standardize' ? null : 'standardize')}
                 data-testid="button-standardize-rules"
               >
                 🔧 Standardize All Rules
               </button>
+              <button 
+                className="w-full btn-secondary px-3 py-2 rounded text-sm"
+                onClick={() => setBatchPanel(batchPanel === 'cascade' ? null : 'cascade')}
+                data-testid="button-analyze-cascade"
+              >
+                🧬 Find Duplicates & Overrides
+              </button>
+              <button 
+                className="w-full btn-secondary px-3 py-2 rounded text-sm"
+                onClick={() => setBatchPanel(batchPanel === 'unused' ? null : 'unused')}
+                data-testid="button-find-unused-css"
+              >
+                🧹 Find Unused CSS
+              </button>
+              <button 
+                className="w-full btn-secondary px-3 py-2 rounded text-sm"
+                onClick={() => setBatchPanel(batchPanel === 'palette' ? null : 'palette')}
+                data-testid="button-color-palette"
+              >
+                🎨 Color Palette
+              </button>
+              <button 
+                className="w-full btn-secondary px-3 py-2 rounded text-sm"
+                onClick={() => setBatchPanel(batchPanel === 'inline' ? null : 'inline')}
+                data-testid="button-extract-inline-styles"
+              >
+                🧩 Extract Inline Styles
+              </button>
               <button 
                 className="w-full btn-primary px-3 py-2 rounded text-sm"
                 onClick={isCreatingNew ? handleApplyNewCSS : handleApplyChanges}
-                disabled={!editedCSS && !newCSSRule}
+                disabled={isCreatingNew ? !newCSSRule : !editedCSS || editErrors.length > 0}
                 data-testid="button-apply-to-codemaster"
               >
                 {isCreatingNew ? '📝 Add New CSS' : '🔄 Update Existing'}
@@ -423,52 +952,633 @@ export default function CSSWorkshop({ files, onClose, sendMessage }: CSSWorkshop
           </div>
         </div>
 
-        {/* Editor Panel */}
-        <div className="col-span-8 space-y-4">
-          <div className="tool-panel h-80">
-            <div className="p-3 border-b border-border">
+        {/* Batch panels (inline styles, palette, unused CSS, cascade analysis, standardization) replace the rule editor */}
+        {batchPanel === 'inline' ? (
+        <div className="col-span-8 tool-panel flex flex-col overflow-hidden" data-testid="panel-inline-styles">
+          <div className="p-3 border-b border-border space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold">
+                Inline Styles
+                <span className="ml-2 text-xs font-normal text-muted-foreground" data-testid="text-inline-count">
+                  {inlineGroups.reduce((sum, group) => sum + group.occurrences.length, 0)} style attributes, {inlineGroups.length} distinct
+                </span>
+              </h4>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setBatchPanel(null)}
+                  className="btn-secondary px-3 py-1 rounded text-xs"
+                  data-testid="button-close-inline-styles"
+                >
+                  Close
+                </button>
+                <button
+                  onClick={handleExtractInlineStyles}
+                  disabled={inlineSelection.length === 0 || inlineHasErrors || !inlineTargets[inlineTarget]}
+                  className="btn-primary px-3 py-1 rounded text-xs"
+                  data-testid="button-extract-classes"
+                >
+                  Extract Classes ({inlineSelection.length})
+                </button>
+              </div>
+            </div>
+            <div className="flex items-center gap-4 text-xs">
+              <label className="flex items-center gap-2">
+                <span className="text-muted-foreground">Write classes to</span>
+                <select
+                  value={inlineTarget}
+                  onChange={(e) => setInlineTarget(Number(e.target.value))}
+                  className="px-2 py-1 text-xs border border-border rounded"
+                  data-testid="select-inline-target"
+                >
+                  {inlineTargets.map((entry, i) => (
+                    <option key={entry.label} value={i}>{entry.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={inlineImportant}
+                  onChange={(e) => setInlineImportant(e.target.checked)}
+                  data-testid="checkbox-inline-important"
+                />
+                Add !important
+              </label>
+            </div>
+            {inlineUnreached.length > 0 && (
+              <div className="text-xs text-yellow-400" data-testid="text-inline-unreached">
+                ⚠ {inlineTargets[inlineTarget]?.label} isn't loaded by{' '}
+                {Array.from(new Set(inlineUnreached.map(style => style.fileName))).join(', ')}, so {inlineUnreached.length} element
+                {inlineUnreached.length === 1 ? ' there keeps its' : 's there keep their'} style attribute
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground">
+              Inline styles beat every stylesheet rule; as classes they compete by specificity and order, so rules that already match these elements may now win unless !important is added.
+            </div>
+          </div>
+          <div className="flex-1 overflow-y-auto p-3 space-y-2 max-h-[36rem]">
+            {inlineGroups.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground text-sm">
+                No inline style attributes found in the project's HTML.
+              </div>
+            ) : (
+              inlineGroups.map((group, i) => {
+                const selected = !inlineSkipped.has(group.key);
+                const name = inlineNames[group.key] ?? group.suggestedName;
+                const error = selected ? inlineNameError(name, group.key) : null;
+                return (
+                  <div key={group.key} className={`border border-border rounded p-2 text-xs ${selected ? '' : 'opacity-50'}`} data-testid={`inline-group-${i}`}>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selected}
+                        onChange={() => toggleInlineGroup(group.key)}
+                        data-testid={`checkbox-inline-${i}`}
+                      />
+                      <span className="font-mono truncate" title={group.key}>{group.key}</span>
+                      <span className="text-muted-foreground shrink-0">×{group.occurrences.length}</span>
+                      <span className="ml-auto font-mono text-muted-foreground">.</span>
+                      <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setInlineNames(prev => ({ ...prev, [group.key]: e.target.value }))}
+                        disabled={!selected}
+                        className="w-44 px-2 py-0.5 font-mono text-xs border border-border rounded"
+                        data-testid={`input-inline-name-${i}`}
+                      />
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 ml-6">
+                      {group.occurrences.map(occurrence => (
+                        <button
+                          key={`${occurrence.fileName}:${occurrence.attrStart}`}
+                          onClick={() => jumpToLocation({ filename: occurrence.fileName, line: occurrence.line })}
+                          className="font-mono text-muted-foreground hover:text-foreground hover:underline"
+                        >
+                          {occurrence.fileName}:{occurrence.line} &lt;{occurrence.tag}&gt;
+                        </button>
+                      ))}
+                    </div>
+                    {error && (
+                      <div className="mt-1 ml-6 text-red-400" data-testid={`text-inline-error-${i}`}>⚠ {error}</div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+        ) : batchPanel === 'palette' ? (
+        <div className="col-span-8 tool-panel flex flex-col overflow-hidden" data-testid="panel-color-palette">
+          <div className="p-3 border-b border-border space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold">
+                Color Palette
+                <span className="ml-2 text-xs font-normal text-muted-foreground" data-testid="text-palette-count">
+                  {palette.length} colors, {palette.reduce((sum, cluster) => sum + cluster.count, 0)} uses
+                </span>
+              </h4>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setBatchPanel(null)}
+                  className="btn-secondary px-3 py-1 rounded text-xs"
+                  data-testid="button-close-palette"
+                >
+                  Close
+                </button>
+                <button
+                  onClick={handleRefactorColors}
+                  disabled={paletteSelection.length === 0 || paletteHasErrors || !paletteTarget}
+                  className="btn-primary px-3 py-1 rounded text-xs"
+                  data-testid="button-refactor-colors"
+                >
+                  Use Custom Properties ({paletteSelection.length})
+                </button>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs">
+              <span className="text-muted-foreground">Merge near-duplicates</span>
+              <select
+                value={paletteThreshold}
+                onChange={(e) => setPaletteThreshold(Number(e.target.value))}
+                className="px-2 py-1 text-xs border border-border rounded"
+                data-testid="select-palette-threshold"
+              >
+                <option value={0}>Exact matches only</option>
+                <option value={12}>Nearly identical</option>
+                <option value={30}>Similar</option>
+                <option value={60}>Loosely similar</option>
+              </select>
+            </label>
+            {paletteSelection.length > 0 && (
+              paletteTarget ? (
+                <div className="text-xs text-muted-foreground" data-testid="text-palette-target">
+                  Definitions go in {paletteTarget.kind === 'rule'
+                    ? `:root at ${paletteTarget.rule.fileName}:${paletteTarget.rule.lineNumber}`
+                    : `a new :root in ${paletteTarget.file.name}`}
+                </div>
+              ) : (
+                <div className="text-xs text-yellow-400" data-testid="text-palette-target">
+                  ⚠ No stylesheet is loaded by every page using these colors; link a shared stylesheet or select fewer colors
+                </div>
+              )
+            )}
+          </div>
+          <div className="flex-1 overflow-y-auto p-3 space-y-2 max-h-[36rem]">
+            {palette.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground text-sm">
+                No color values found in the project's CSS.
+              </div>
+            ) : (
+              palette.map((cluster, i) => {
+                const key = cluster.representative.text;
+                const selected = !paletteSkipped.has(key);
+                const name = paletteNames[key] ?? cluster.name;
+                const error = selected ? paletteNameError(name, key) : null;
+                return (
+                  <div key={key} className={`border border-border rounded p-2 text-xs ${selected ? '' : 'opacity-50'}`} data-testid={`palette-cluster-${i}`}>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selected}
+                        onChange={() => togglePaletteCluster(key)}
+                        data-testid={`checkbox-palette-${i}`}
+                      />
+                      <span
+                        className="w-6 h-6 rounded border border-border shrink-0"
+                        style={{ backgroundColor: toHex(cluster.representative.color) }}
+                        title={toHex(cluster.representative.color)}
+                      />
+                      <span className="font-mono font-medium">{key}</span>
+                      <span className="text-muted-foreground">{cluster.count} use{cluster.count === 1 ? '' : 's'}</span>
+                      <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setPaletteNames(prev => ({ ...prev, [key]: e.target.value }))}
+                        disabled={!selected}
+                        className="ml-auto w-44 px-2 py-0.5 font-mono text-xs border border-border rounded"
+                        data-testid={`input-palette-name-${i}`}
+                      />
+                    </div>
+                    {cluster.members.length > 1 && (
+                      <div className="flex flex-wrap gap-2 mt-2 ml-6">
+                        {cluster.members.map(member => (
+                          <span key={member.text} className="flex items-center gap-1 text-muted-foreground" title={toHex(member.color)}>
+                            <span className="w-3 h-3 rounded-sm border border-border" style={{ backgroundColor: toHex(member.color) }} />
+                            <span className="font-mono">{member.text}</span>
+                            <span>×{member.count}</span>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {error && (
+                      <div className="mt-1 ml-6 text-red-400" data-testid={`text-palette-error-${i}`}>⚠ {error}</div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+        ) : batchPanel === 'unused' && unusedReport ? (
+        <div className="col-span-8 tool-panel flex flex-col overflow-hidden" data-testid="panel-unused-css">
+          <div className="p-3 border-b border-border flex items-center justify-between">
+            <h4 className="text-sm font-semibold">
+              Unused CSS
+              <span className="ml-2 text-xs font-normal text-muted-foreground" data-testid="text-unused-count">
+                {unusedReport.unused.length} of {cssRules.length} rules match nothing in {unusedReport.pages} HTML page{unusedReport.pages === 1 ? '' : 's'}
+              </span>
+            </h4>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setBatchPanel(null)}
+                className="btn-secondary px-3 py-1 rounded text-xs"
+                data-testid="button-close-unused"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleRemoveUnused}
+                disabled={selectedUnused.length === 0}
+                className="btn-primary px-3 py-1 rounded text-xs"
+                data-testid="button-remove-unused"
+              >
+                Remove {selectedUnused.length} Rules
+              </button>
+            </div>
+          </div>
+          <div className="flex-1 overflow-y-auto p-3 space-y-4 max-h-[36rem]">
+            {unusedReport.pages === 0 ? (
+              <div className="text-center py-8 text-muted-foreground text-sm">
+                Upload an HTML page to check which rules match an element.
+              </div>
+            ) : unusedReport.unused.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground text-sm">
+                Every rule matches an element or is referenced from a script.
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {unusedReport.unused.map(({ rule, removable }, i) => {
+                  const key = unusedRuleKey(rule);
+                  return (
+                    <label key={key} className="flex items-center gap-2 text-xs" data-testid={`unused-rule-${i}`}>
+                      <input
+                        type="checkbox"
+                        checked={removable && !keptUnused.has(key)}
+                        disabled={!removable}
+                        onChange={() => toggleUnused(key)}
+                        data-testid={`checkbox-unused-rule-${i}`}
+                      />
+                      <span className="font-mono text-primary truncate">{rule.selector}</span>
+                      {rule.context.length > 0 && (
+                        <span className="font-mono text-accent truncate">in {rule.context.join(' › ')}</span>
+                      )}
+                      {!removable && (
+                        <span className="text-yellow-400 shrink-0">⚠ holds nested rules that are used</span>
+                      )}
+                      <button
+                        onClick={(e) => {
+                          e.preventDefault();
+                          jumpToLocation({ filename: rule.fileName, line: rule.lineNumber });
+                        }}
+                        className="ml-auto font-mono text-muted-foreground hover:text-foreground shrink-0"
+                      >
+                        {rule.fileName}:{rule.lineNumber}
+                      </button>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+            {dynamicRules.length > 0 && (
+              <section>
+                <h5 className="text-xs font-semibold mb-2">Kept: referenced from scripts ({dynamicRules.length})</h5>
+                <div className="space-y-1">
+                  {dynamicRules.map(rule => {
+                    const usage = unusedReport.usage.get(rule);
+                    return (
+                      <div key={rule.key} className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="font-mono truncate">{rule.selector}</span>
+                        <span className="shrink-0">
+                          matches no element, but scripts use {usage?.status === 'dynamic' ? usage.symbols.join(', ') : ''}
+                        </span>
+                        <span className="ml-auto font-mono shrink-0">{rule.fileName}:{rule.lineNumber}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            )}
+          </div>
+        </div>
+        ) : batchPanel === 'cascade' && cascadeReport ? (
+        <div className="col-span-8 tool-panel flex flex-col overflow-hidden" data-testid="panel-cascade">
+          <div className="p-3 border-b border-border flex items-center justify-between">
+            <h4 className="text-sm font-semibold">
+              Duplicates & Overrides
+              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                {cascadeReport.rules.length} rules in source order: CSS files, then &lt;style&gt; blocks
+              </span>
+            </h4>
+            <button
+              onClick={() => setBatchPanel(null)}
+              className="btn-secondary px-3 py-1 rounded text-xs"
+              data-testid="button-close-cascade"
+            >
+              Close
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-3 space-y-4 max-h-[36rem]">
+            <section>
+              <h5 className="text-xs font-semibold mb-2">Duplicate Selectors ({cascadeReport.duplicates.length})</h5>
+              {cascadeReport.duplicates.length === 0 ? (
+                <div className="text-xs text-muted-foreground">No selector is defined twice in the same context.</div>
+              ) : (
+                <div className="space-y-2">
+                  {cascadeReport.duplicates.map((group, i) => {
+                    const target = group.rules[group.rules.length - 1].rule;
+                    return (
+                      <div key={`${group.context.join('|')}|${group.selector}`} className="border border-border rounded p-2 text-xs" data-testid={`duplicate-group-${i}`}>
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-mono font-medium text-primary">{group.selector}</span>
+                          {group.context.length > 0 && (
+                            <span className="font-mono text-accent truncate">in {group.context.join(' › ')}</span>
+                          )}
+                          <button
+                            onClick={() => handleMergeDuplicates(group)}
+                            disabled={group.conflict !== null}
+                            title={group.conflict ?? undefined}
+                            className="ml-auto btn-primary px-2 py-0.5 rounded text-xs shrink-0"
+                            data-testid={`button-merge-duplicates-${i}`}
+                          >
+                            Merge into {target.fileName}:{target.lineNumber}
+                          </button>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {group.rules.map(({ rule, order }) => (
+                            <button
+                              key={`${rule.fileName}:${rule.start}`}
+                              onClick={() => jumpToLocation({ filename: rule.fileName, line: rule.lineNumber })}
+                              className="font-mono text-muted-foreground hover:text-foreground"
+                              title={`#${order + 1} in source order`}
+                            >
+                              {rule.fileName}:{rule.lineNumber}
+                            </button>
+                          ))}
+                        </div>
+                        {group.conflict && (
+                          <div className="mt-1 text-yellow-400" data-testid={`text-merge-conflict-${i}`}>
+                            ⚠ Can't merge: {group.conflict}
+                          </div>
+                        )}
+                        {group.reorderRisks.length > 0 && (
+                          <div className="mt-1 text-yellow-400" data-testid={`text-merge-risk-${i}`}>
+                            ⚠ Merging moves {Array.from(new Set(group.reorderRisks.map(risk => risk.property))).join(', ')} past{' '}
+                            {group.reorderRisks.map(risk => `${risk.rule.rule.selector} (${risk.rule.rule.fileName}:${risk.rule.rule.lineNumber})`).filter((v, j, all) => all.indexOf(v) === j).join(', ')}
+                            , which may change which value wins
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h5 className="text-xs font-semibold">Dead Declarations ({cascadeReport.dead.length})</h5>
+                <button
+                  onClick={handleRemoveDeadDeclarations}
+                  disabled={cascadeReport.dead.length === 0}
+                  className="btn-primary px-2 py-0.5 rounded text-xs"
+                  data-testid="button-remove-dead-declarations"
+                >
+                  Remove All
+                </button>
+              </div>
+              {cascadeReport.dead.length === 0 ? (
+                <div className="text-xs text-muted-foreground">Every declaration wins somewhere.</div>
+              ) : (
+                <div className="space-y-1">
+                  {cascadeReport.dead.map(({ rule, declaration, overriddenBy }, i) => (
+                    <div key={`${rule.rule.fileName}:${declaration.start}`} className="flex items-center gap-2 text-xs" data-testid={`dead-declaration-${i}`}>
+                      <button
+                        onClick={() => jumpToLocation({ filename: rule.rule.fileName, line: rule.rule.lineNumber })}
+                        className="font-mono text-muted-foreground hover:text-foreground shrink-0"
+                      >
+                        {rule.rule.fileName}:{rule.rule.lineNumber}
+                      </button>
+                      <span className="font-mono truncate">
+                        {rule.rule.selector} {'{'} <span className="line-through">{declaration.property}: {declaration.value}{declaration.important ? ' !important' : ''}</span> {'}'}
+                      </span>
+                      <span className="ml-auto text-muted-foreground shrink-0">
+                        overridden by {overriddenBy.declaration.value}{overriddenBy.declaration.important ? ' !important' : ''}{' '}
+                        {overriddenBy.rule === rule ? 'later in the rule' : `at ${overriddenBy.rule.rule.fileName}:${overriddenBy.rule.rule.lineNumber}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section>
+              <h5 className="text-xs font-semibold mb-2">!important Usage ({cascadeReport.important.length})</h5>
+              {cascadeReport.important.length === 0 ? (
+                <div className="text-xs text-muted-foreground">No declarations use !important.</div>
+              ) : (
+                <div className="space-y-1">
+                  {cascadeReport.important.map(({ rule, declaration, competing }, i) => (
+                    <div key={`${rule.rule.fileName}:${declaration.start}`} className="flex items-center gap-2 text-xs" data-testid={`important-usage-${i}`}>
+                      <button
+                        onClick={() => jumpToLocation({ filename: rule.rule.fileName, line: rule.rule.lineNumber })}
+                        className="font-mono text-muted-foreground hover:text-foreground shrink-0"
+                      >
+                        {rule.rule.fileName}:{rule.rule.lineNumber}
+                      </button>
+                      <span className="font-mono truncate">{rule.rule.selector} {'{'} {declaration.property}: {declaration.value} {'}'}</span>
+                      <span className="font-mono text-muted-foreground shrink-0">{rule.specificity.map(formatSpecificity).join(' ')}</span>
+                      {competing > 0 && (
+                        <span className="ml-auto text-yellow-400 shrink-0">⚠ competes with {competing} other !important {declaration.property}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+        </div>
+        ) : batchPanel === 'standardize' ? (
+        <div className="col-span-8 tool-panel flex flex-col overflow-hidden" data-testid="panel-standardize">
+          <div className="p-3 border-b border-border space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold">
+                Standardize All Rules
+                <span className="ml-2 text-xs font-normal text-muted-foreground" data-testid="text-standardize-count">
+                  {standardizeResults.length} of {cssRules.length} rules change
+                </span>
+              </h4>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setBatchPanel(null)}
+                  className="btn-secondary px-3 py-1 rounded text-xs"
+                  data-testid="button-close-standardize"
+                >
+                  Close
+                </button>
+                <button
+                  onClick={handleStandardize}
+                  disabled={standardizeResults.length === 0}
+                  className="btn-primary px-3 py-1 rounded text-xs"
+                  data-testid="button-apply-standardize"
+                >
+                  Review Changes
+                </button>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-xs">
+              <label className="flex items-center gap-1">
+                <span className="text-muted-foreground">Property order</span>
+                <select
+                  value={standardizeOptions.order}
+                  onChange={(e) => setStandardizeOptions(prev => ({ ...prev, order: e.target.value as PropertyOrder }))}
+                  className="px-2 py-1 text-xs border border-border rounded"
+                  data-testid="select-standardize-order"
+                >
+                  <option value="grouped">Grouped</option>
+                  <option value="alphabetical">Alphabetical</option>
+                  <option value="none">Keep as written</option>
+                </select>
+              </label>
+              {([
+                ['lowercaseHex', 'Lowercase hex'],
+                ['units', 'Consistent units'],
+                ['shorthands', 'Merge shorthands'],
+                ['dedupe', 'Remove duplicates']
+              ] as const).map(([option, label]) => (
+                <label key={option} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={standardizeOptions[option]}
+                    onChange={() => toggleStandardizeOption(option)}
+                    data-testid={`checkbox-standardize-${option}`}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex-1 overflow-y-auto p-3 space-y-3 max-h-[32rem]">
+            {standardizeResults.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground text-sm">
+                Every rule already matches these settings.
+              </div>
+            ) : (
+              standardizeResults.map((result, i) => (
+                <div key={`${result.rule.fileName}:${result.rule.start}`} className="border border-border rounded" data-testid={`standardize-rule-${i}`}>
+                  <div className="px-3 py-2 border-b border-border text-xs flex items-center gap-2">
+                    <span className="font-mono font-medium truncate">{result.rule.selector}</span>
+                    {result.rule.context.length > 0 && (
+                      <span className="font-mono text-accent truncate">in {result.rule.context.join(' › ')}</span>
+                    )}
+                    <span className="ml-auto font-mono text-muted-foreground shrink-0">{result.rule.fileName}:{result.rule.lineNumber}</span>
+                  </div>
+                  {result.notes.length > 0 && (
+                    <div className="px-3 py-1 text-xs text-muted-foreground">{result.notes.join(' · ')}</div>
+                  )}
+                  <DiffViewer original={result.original} modified={result.standardized} mode="unified" className="py-1" />
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+        ) : (
+        /* Editor Panel */
+        <div className="col-span-8 space-y-4 overflow-y-auto">
+          <div className="tool-panel h-80 flex flex-col overflow-hidden">
+            <div className="p-3 border-b border-border flex items-center gap-2">
               <h4 className="text-sm font-semibold">
                 {isCreatingNew ? 'Create New CSS Rule' : 'CSS Rule Editor'}
               </h4>
+              {!isCreatingNew && selectedRuleInfo && selectedRuleInfo.context.length > 0 && (
+                <span className="text-xs font-mono text-accent truncate" data-testid="text-rule-context">
+                  in {selectedRuleInfo.context.join(' › ')}
+                </span>
+              )}
             </div>
-            <div className="flex h-full">
-              <div className="w-12 bg-muted/30 text-right px-2 py-3 text-xs text-muted-foreground font-mono border-r border-border">
-                {Array.from({ length: 10 }, (_, i) => (
-                  <div key={i + 1} className="leading-5">{i + 1}</div>
-                ))}
+            <CodeEditor
+              value={isCreatingNew ? newCSSRule : editedCSS}
+              onChange={(value) => isCreatingNew ? setNewCSSRule(value) : setEditedCSS(value)}
+              language="css"
+              placeholder={isCreatingNew ? "Enter new CSS rule..." : "Select a CSS rule to edit..."}
+              className="flex-1 min-h-0"
+              data-testid="textarea-css-editor"
+            />
+            {!isCreatingNew && editErrors.length > 0 && (
+              <div className="px-3 py-2 border-t border-border text-xs text-red-400" data-testid="text-css-edit-error">
+                ⚠ {editErrors[0].message} at character {editErrors[0].offset + 1}; fix it before updating so the surrounding CSS stays intact
+              </div>
+            )}
+          </div>
+
+          {(isCreatingNew ? newCSSRule : editedCSS) && (
+            <div className="tool-panel">
+              <div className="p-3 border-b border-border">
+                <h4 className="text-sm font-semibold">Visual Editor</h4>
               </div>
-              <textarea 
-                className="flex-1 p-3 bg-transparent text-sm font-mono resize-none outline-none"
-                placeholder={isCreatingNew ? "Enter new CSS rule..." : "Select a CSS rule to edit..."}
-                value={isCreatingNew ? newCSSRule : editedCSS}
-                onChange={(e) => isCreatingNew ? setNewCSSRule(e.target.value) : setEditedCSS(e.target.value)}
-                data-testid="textarea-css-editor"
+              <CSSPropertyPanel
+                css={isCreatingNew ? newCSSRule : editedCSS}
+                onChange={(value) => isCreatingNew ? setNewCSSRule(value) : setEditedCSS(value)}
               />
             </div>
-          </div>
+          )}
 
           <div className="tool-panel">
-            <div className="p-3 border-b border-border">
+            <div className="p-3 border-b border-border flex items-center gap-2">
               <h4 className="text-sm font-semibold">Live Preview</h4>
+              {previewMatchCount !== null && (
+                <span
+                  className={`text-xs ${previewMatchCount > 0 ? 'text-yellow-400' : 'text-muted-foreground'}`}
+                  data-testid="text-preview-match-count"
+                >
+                  {previewMatchCount > 0
+                    ? `${previewMatchCount} element${previewMatchCount === 1 ? '' : 's'} highlighted`
+                    : 'Selector matches nothing on this page'}
+                </span>
+              )}
+              {htmlPages.length > 0 && (
+                <select
+                  value={activePreviewPage}
+                  onChange={(e) => setPreviewPage(e.target.value)}
+                  className="ml-auto px-2 py-1 text-xs border border-border rounded"
+                  data-testid="select-preview-page"
+                >
+                  {htmlPages.map(page => (
+                    <option key={page.id} value={page.name}>{page.name}</option>
+                  ))}
+                </select>
+              )}
             </div>
-            <div className="h-40 bg-white">
-              {previewUrl ? (
+            <div className="h-64 bg-white">
+              {previewDoc ? (
                 <iframe 
-                  src={previewUrl}
+                  srcDoc={previewDoc}
+                  sandbox="allow-scripts"
                   className="w-full h-full border-0"
+                  title="CSS preview"
                   data-testid="iframe-css-preview"
                 />
               ) : (
                 <div className="flex items-center justify-center h-full text-gray-500">
                   <div className="text-center">
                     <i className="fas fa-eye-slash text-2xl mb-2"></i>
-                    <p className="text-sm">Select a CSS rule to preview</p>
+                    <p className="text-sm">Upload an HTML page to preview your CSS on it</p>
                   </div>
                 </div>
               )}
             </div>
           </div>
         </div>
+        )}
       </div>
 
       {/* Delete Confirmation Dialog */}
@@ -482,6 +1592,13 @@ export default function CSSWorkshop({ files, onClose, sendMessage }: CSSWorkshop
               <span className="font-mono text-sm bg-muted p-1 rounded mt-2 block break-all">
                 {ruleToDelete?.selector}
               </span>
+              {ruleToDelete && (
+                <span className="text-xs mt-2 block" data-testid="text-delete-rule-location">
+                  {ruleToDelete.source}, line {ruleToDelete.lineNumber}
+                  {ruleToDelete.lineNumber !== ruleToDelete.endLineNumber ? `-${ruleToDelete.endLineNumber}` : ''}
+                  {ruleToDelete.context.length > 0 ? ` in ${ruleToDelete.context.join(' › ')}` : ''}
+                </span>
+              )}
             </p>
             <div className="flex gap-3 justify-end">
               <button
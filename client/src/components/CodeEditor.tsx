@@ -0,0 +1,375 @@
+import { forwardRef, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import {
+  tokenize,
+  findFoldRanges,
+  findMatchingBracket,
+  languageFromFilename,
+  type Language,
+  type Token
+} from '@/lib/syntaxHighlighter';
+
+export interface CodeEditorHandle {
+  textarea: HTMLTextAreaElement | null;
+  focusLine: (line: number) => void;
+  getSelection: () => { selectionStart: number; selectionEnd: number; scrollTop: number };
+  setSelection: (selectionStart: number, selectionEnd: number, scrollTop?: number) => void;
+}
+
+interface CodeEditorProps {
+  value: string;
+  onChange?: (value: string) => void;
+  language?: Language;
+  filename?: string;
+  readOnly?: boolean;
+  placeholder?: string;
+  className?: string;
+  'data-testid'?: string;
+}
+
+// Lines startLine+1 .. startLine+lineCount are hidden behind a placeholder on startLine
+interface Fold {
+  startLine: number;
+  lineCount: number;
+}
+
+interface FoldState {
+  value: string;
+  folds: Fold[];
+}
+
+const LINE_HEIGHT = 20;
+const INDENT = '  ';
+
+const NO_FOLDS: Fold[] = [];
+
+// Text cut out of the textarea by a fold; `at` is the visible offset (end of the fold's first line) it belongs at.
+// Folds live beside the text rather than in it, so whatever characters the file holds pass through untouched.
+interface HiddenRange {
+  at: number;
+  text: string;
+  lineCount: number;
+}
+
+interface EditorView {
+  text: string;
+  // Real (0-based) line number of each visible line
+  lineNumbers: number[];
+  // Sorted by `at`
+  hidden: HiddenRange[];
+  foldByLine: Set<number>;
+}
+
+function buildView(value: string, folds: Fold[]): EditorView {
+  const lines = value.split('\n');
+  const visible: string[] = [];
+  const lineNumbers: number[] = [];
+  const hidden: HiddenRange[] = [];
+  const foldByLine = new Set<number>();
+  const byStart = new Map(folds.map(fold => [fold.startLine, fold]));
+  let length = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const fold = byStart.get(i);
+    lineNumbers.push(i);
+    visible.push(lines[i]);
+    length += (visible.length > 1 ? 1 : 0) + lines[i].length;
+    if (fold && i + fold.lineCount < lines.length) {
+      foldByLine.add(i);
+      hidden.push({ at: length, text: '\n' + lines.slice(i + 1, i + 1 + fold.lineCount).join('\n'), lineCount: fold.lineCount });
+      i += fold.lineCount;
+    }
+  }
+
+  return { text: visible.join('\n'), lineNumbers, hidden, foldByLine };
+}
+
+// Replays a textarea edit onto the real text. The edit is the span between the common prefix and suffix of the
+// old and new visible text (the caret settles ties). Folds on either side survive; ones inside it are deleted with
+// it, and one the edit starts at (e.g. Delete at the end of a folded line) opens instead of swallowing what follows.
+function applyVisibleEdit(view: EditorView, text: string, caret: number): FoldState {
+  const previous = view.text;
+  const limit = Math.min(previous.length, text.length);
+  let prefix = 0;
+  while (prefix < Math.min(limit, caret) && previous[prefix] === text[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < limit - prefix && previous[previous.length - 1 - suffix] === text[text.length - 1 - suffix]) suffix++;
+  const end = previous.length - suffix;
+  const inserted = text.slice(prefix, text.length - suffix);
+
+  let value = '';
+  let copied = 0;
+  let edited = false;
+  const folds: Fold[] = [];
+  const copyTo = (offset: number) => {
+    value += previous.slice(copied, offset);
+    copied = offset;
+  };
+  const applyEdit = () => {
+    copyTo(prefix);
+    value += inserted;
+    copied = end;
+    edited = true;
+  };
+  const restore = (range: HiddenRange, folded: boolean) => {
+    if (folded) folds.push({ startLine: value.split('\n').length - 1, lineCount: range.lineCount });
+    value += range.text;
+  };
+
+  for (const range of view.hidden) {
+    // Typing at the end of a folded line stays on that line unless it starts a new one
+    const before = range.at < prefix || (range.at === prefix && (end > prefix || inserted.startsWith('\n')));
+    if (before) {
+      copyTo(range.at);
+      restore(range, range.at < prefix || end === prefix);
+    } else if (range.at >= end) {
+      if (!edited) applyEdit();
+      copyTo(range.at);
+      restore(range, true);
+    }
+  }
+  if (!edited) applyEdit();
+  copyTo(previous.length);
+
+  // A fold whose first line was pulled into the one before it can't be shown separately, so it opens
+  const kept: Fold[] = [];
+  for (const fold of folds) {
+    const last = kept[kept.length - 1];
+    if (!last || fold.startLine > last.startLine + last.lineCount) kept.push(fold);
+  }
+  return { value, folds: kept };
+}
+
+function visibleToReal(view: EditorView, offset: number): number {
+  let real = offset;
+  for (const range of view.hidden) {
+    if (range.at >= offset) break;
+    real += range.text.length;
+  }
+  return real;
+}
+
+function realToVisible(view: EditorView, offset: number): number {
+  let shift = 0;
+  for (const range of view.hidden) {
+    const start = range.at + shift;
+    if (offset <= start) break;
+    // Inside the folded lines: land on the placeholder
+    if (offset <= start + range.text.length) return range.at;
+    shift += range.text.length;
+  }
+  return offset - shift;
+}
+
+// Placeholders take no room in the textarea; they're drawn in the highlight layer just before the line break
+function renderText(token: Token, placeholders: number[], keyPrefix: string) {
+  const end = token.start + token.text.length;
+  const inside = placeholders.filter(at => at >= token.start && at < end);
+  if (inside.length === 0) return token.text;
+  const parts: React.ReactNode[] = [];
+  let from = 0;
+  inside.forEach((at, index) => {
+    parts.push(token.text.slice(from, at - token.start));
+    parts.push(<span key={`${keyPrefix}-${index}`} className="fold-placeholder" />);
+    from = at - token.start;
+  });
+  parts.push(token.text.slice(from));
+  return parts;
+}
+
+function renderTokens(tokens: Token[], matched: [number, number] | null, placeholders: number[]) {
+  return tokens.map((token, index) => {
+    const isMatch = matched !== null && token.type === 'punctuation' && matched.includes(token.start);
+    const className = [token.type === 'plain' ? '' : token.type, isMatch ? 'bracket-match' : ''].filter(Boolean).join(' ');
+    return className
+      ? <span key={index} className={className}>{renderText(token, placeholders, String(index))}</span>
+      : <span key={index}>{renderText(token, placeholders, String(index))}</span>;
+  });
+}
+
+const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(function CodeEditor(
+  { value, onChange, language, filename = '', readOnly = false, placeholder, className = '', 'data-testid': testId },
+  ref
+) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Real offsets to select once the view has re-rendered (after unfolding or a Tab insert)
+  const pendingSelection = useRef<{ start: number; end: number; scrollTop?: number; reveal?: boolean } | null>(null);
+
+  const [foldState, setFoldState] = useState<FoldState>({ value: '', folds: [] });
+  const [caret, setCaret] = useState<number>(-1);
+  // Bumped to guarantee a render (and so the layout effect) when only a pending selection changed
+  const [, setSelectionTick] = useState(0);
+
+  const lang = language ?? languageFromFilename(filename);
+  // Folds only apply to the text they were made on; any outside change opens everything up
+  const folds = foldState.value === value ? foldState.folds : NO_FOLDS;
+
+  const realTokens = useMemo(() => tokenize(value, lang), [value, lang]);
+  const foldRanges = useMemo(() => findFoldRanges(value, realTokens), [value, realTokens]);
+  const view = useMemo(() => buildView(value, folds), [value, folds]);
+  const tokens = useMemo(() => view.text === value ? realTokens : tokenize(view.text, lang), [view.text, value, realTokens, lang]);
+  const matched = useMemo(() => caret >= 0 ? findMatchingBracket(tokens, caret) : null, [tokens, caret]);
+
+  const placeholders = useMemo(() => view.hidden.map(range => range.at), [view]);
+
+  const foldableByLine = useMemo(() => new Map(foldRanges.map(range => [range.startLine, range])), [foldRanges]);
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop;
+      highlightRef.current.scrollLeft = textarea.scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = textarea.scrollTop;
+  };
+
+  const emitVisible = (text: string, caret: number) => {
+    const next = applyVisibleEdit(view, text, caret);
+    setFoldState(next);
+    onChange?.(next.value);
+  };
+
+  const unfoldAround = (realLine: number) => {
+    const remaining = folds.filter(f => !(realLine > f.startLine && realLine <= f.startLine + f.lineCount));
+    if (remaining.length !== folds.length) setFoldState({ value, folds: remaining });
+  };
+
+  const toggleFold = (line: number) => {
+    if (folds.some(f => f.startLine === line)) {
+      setFoldState({ value, folds: folds.filter(f => f.startLine !== line) });
+      return;
+    }
+    const range = foldableByLine.get(line);
+    if (!range) return;
+    const lineCount = range.endLine - range.startLine - 1;
+    // Folds nested inside the new one are absorbed by it
+    const outside = folds.filter(f => f.startLine < line || f.startLine > line + lineCount);
+    setFoldState({ value, folds: [...outside, { startLine: line, lineCount }].sort((a, b) => a.startLine - b.startLine) });
+  };
+
+  useLayoutEffect(() => {
+    const pending = pendingSelection.current;
+    const textarea = textareaRef.current;
+    if (!pending || !textarea) return;
+    pendingSelection.current = null;
+    const start = realToVisible(view, pending.start);
+    textarea.setSelectionRange(start, realToVisible(view, pending.end));
+    if (pending.reveal) {
+      const visibleLine = view.text.slice(0, start).split('\n').length - 1;
+      textarea.scrollTop = Math.max(0, (visibleLine - 2) * LINE_HEIGHT);
+    } else if (pending.scrollTop !== undefined) {
+      textarea.scrollTop = pending.scrollTop;
+    }
+    syncScroll();
+  });
+
+  useImperativeHandle(ref, () => ({
+    textarea: textareaRef.current,
+    focusLine: (line: number) => {
+      const lines = value.split('\n');
+      const index = Math.min(Math.max(line, 1), lines.length) - 1;
+      const start = lines.slice(0, index).reduce((sum, l) => sum + l.length + 1, 0);
+      unfoldAround(index);
+      pendingSelection.current = { start, end: start + lines[index].length, reveal: true };
+      textareaRef.current?.focus();
+      setCaret(-1);
+      setSelectionTick(tick => tick + 1);
+
+      // Brief flash so the jump is easy to spot
+      const container = containerRef.current;
+      if (container) {
+        container.classList.add('editor-flash');
+        setTimeout(() => container.classList.remove('editor-flash'), 1000);
+      }
+    },
+    getSelection: () => {
+      const textarea = textareaRef.current;
+      return {
+        selectionStart: textarea ? visibleToReal(view, textarea.selectionStart) : 0,
+        selectionEnd: textarea ? visibleToReal(view, textarea.selectionEnd) : 0,
+        scrollTop: textarea?.scrollTop ?? 0
+      };
+    },
+    setSelection: (selectionStart: number, selectionEnd: number, scrollTop?: number) => {
+      const before = value.slice(0, selectionStart).split('\n').length - 1;
+      unfoldAround(before);
+      pendingSelection.current = { start: selectionStart, end: selectionEnd, scrollTop };
+      setCaret(-1);
+      setSelectionTick(tick => tick + 1);
+    }
+  }), [value, view, folds]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || readOnly) return;
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    const text = textarea.value;
+    const next = text.slice(0, selectionStart) + INDENT + text.slice(selectionEnd);
+    const caretAfter = visibleToReal(view, selectionStart) + INDENT.length;
+    pendingSelection.current = { start: caretAfter, end: caretAfter };
+    emitVisible(next, selectionStart + INDENT.length);
+  };
+
+  return (
+    <div ref={containerRef} className={`code-editor flex overflow-hidden ${className}`}>
+      {/* Gutter */}
+      <div
+        ref={gutterRef}
+        className="w-16 shrink-0 bg-muted/20 text-right py-3 text-xs text-muted-foreground font-mono border-r border-border overflow-hidden select-none"
+      >
+        {view.lineNumbers.map((line) => {
+          const isFolded = view.foldByLine.has(line);
+          const canFold = isFolded || foldableByLine.has(line);
+          return (
+            <div key={line} className="h-5 leading-5 flex items-center justify-end gap-1 pr-1">
+              <span>{line + 1}</span>
+              <button
+                type="button"
+                className={`w-3 text-[10px] ${canFold ? 'hover:text-foreground' : 'invisible'}`}
+                onClick={() => toggleFold(line)}
+                tabIndex={-1}
+                data-testid={`fold-toggle-${line + 1}`}
+              >
+                {isFolded ? '▸' : '▾'}
+              </button>
+            </div>
+          );
+        })}
+        <div className="h-5" />
+      </div>
+
+      {/* Highlighted text sits under a transparent textarea with identical metrics */}
+      <div className="relative flex-1 overflow-hidden">
+        <pre
+          ref={highlightRef}
+          aria-hidden="true"
+          className="syntax-highlight absolute inset-0 m-0 p-3 text-sm leading-5 font-mono whitespace-pre overflow-hidden pointer-events-none"
+        >
+          {renderTokens(tokens, matched, placeholders)}
+          {placeholders.includes(view.text.length) && <span className="fold-placeholder" />}
+          {'\n '}
+        </pre>
+        <textarea
+          ref={textareaRef}
+          value={view.text}
+          onChange={(e) => emitVisible(e.target.value, e.target.selectionEnd)}
+          onScroll={syncScroll}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart === e.currentTarget.selectionEnd ? e.currentTarget.selectionStart : -1)}
+          onKeyDown={handleKeyDown}
+          readOnly={readOnly}
+          placeholder={placeholder}
+          wrap="off"
+          spellCheck="false"
+          className="code-editor-input absolute inset-0 w-full h-full p-3 text-sm leading-5 font-mono whitespace-pre bg-transparent resize-none outline-none overflow-auto"
+          data-testid={testId}
+        />
+      </div>
+    </div>
+  );
+});
+
+export default CodeEditor;
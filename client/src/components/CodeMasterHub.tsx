@@ -1,16 +1,53 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import type { Project } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
 import OverlaySystem from './OverlaySystem';
+import VersionHistory from './VersionHistory';
+import EditHistory from './EditHistory';
+import DiffViewer, { type DiffMode } from './DiffViewer';
+import PatchReview, { type PendingPatch, type ReviewedFile } from './PatchReview';
+import CodeEditor, { type CodeEditorHandle } from './CodeEditor';
 import { useOverlay } from '@/hooks/useOverlay';
 import { useWorkshopMessage } from '@/hooks/useWorkshopMessage';
-import type { ProjectFile, AnalysisChange, ProjectStats, WorkshopMessage } from '@/types/workshop';
+import { useAuth } from '@/hooks/use-auth';
+import { useProjectAutosave, type AutosaveStatus } from '@/hooks/useProjectAutosave';
+import { useProjectVersions } from '@/hooks/useProjectVersions';
+import { useEditHistory } from '@/hooks/useEditHistory';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { diffHunks, hunksToChanges } from '@/lib/diffEngine';
+import { searchFiles, replaceInContent, buildSearchPattern, DEFAULT_SEARCH_OPTIONS, type SearchOptions } from '@/lib/projectSearch';
+import type { CSSBeautifyOptions } from '@/lib/cssBeautifyTool';
+import type { ProjectFile, AnalysisChange, ProjectStats, WorkshopMessage, WorkshopPatch, WorkshopPatchFile, WorkshopFocusLine } from '@/types/workshop';
 
 type TemplateType = 'html5' | 'basic' | 'css' | 'js';
 type ViewMode = 'project' | 'original' | 'diff';
 
-export default function CodeMasterHub() {
+// Where the caret was in a file that isn't currently open
+interface CursorState {
+  selectionStart: number;
+  selectionEnd: number;
+  scrollTop: number;
+}
+
+// Everything undo/redo puts back
+interface EditorSnapshot {
+  files: ProjectFile[];
+  currentCode: string;
+  currentFilename: string;
+  originalCode: string;
+}
+
+interface CodeMasterHubProps {
+  projectId?: string;
+}
+
+export default function CodeMasterHub({ projectId }: CodeMasterHubProps) {
   const { toast } = useToast();
+  const [, navigate] = useLocation();
   const { currentOverlay, openOverlay, closeOverlay } = useOverlay();
+  const { user, logoutMutation } = useAuth();
   
   // Core state
   const [files, setFiles] = useState<ProjectFile[]>([]);
@@ -18,21 +55,138 @@ export default function CodeMasterHub() {
   const [originalCode, setOriginalCode] = useState<string>('');
   const [changes, setChanges] = useState<AnalysisChange[]>([]);
   const [currentFilename, setCurrentFilename] = useState<string>('');
+  // Original content of files that aren't open; the open file's lives in originalCode
+  const [fileOriginals, setFileOriginals] = useState<Record<string, string>>({});
   
   // UI state
   const [selectedTemplate, setSelectedTemplate] = useState<TemplateType>('html5');
   const [searchTerm, setSearchTerm] = useState<string>('');
-  const [searchResults, setSearchResults] = useState<Array<{line: number, content: string}>>([]);
+  const [replaceTerm, setReplaceTerm] = useState<string>('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  // The search that was last run; results are recomputed from it as files change
+  const [activeSearch, setActiveSearch] = useState<{ term: string; options: SearchOptions } | null>(null);
   const [showOriginal, setShowOriginal] = useState<boolean>(false);
   const [showDiff, setShowDiff] = useState<boolean>(false);
+  const [diffMode, setDiffMode] = useState<DiffMode>('unified');
+  const [pendingPatch, setPendingPatch] = useState<PendingPatch | null>(null);
+  // Bumped with every new patch so its review starts afresh
+  const [patchSerial, setPatchSerial] = useState<number>(0);
   const [previewUrl, setPreviewUrl] = useState<string>('');
   const [showPreview, setShowPreview] = useState<boolean>(false);
+  const [beautifyStyle, setBeautifyStyle] = useState<Pick<CSSBeautifyOptions, 'indent' | 'braceStyle'>>({ indent: 2, braceStyle: 'same-line' });
   
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
   const toolInputRef = useRef<HTMLInputElement>(null);
-  const mainEditorRef = useRef<HTMLTextAreaElement>(null);
+  const mainEditorRef = useRef<CodeEditorHandle>(null);
+  const hydratedProjectId = useRef<string | null>(null);
+  const cursorPositions = useRef<Map<string, CursorState>>(new Map());
+  // Line to reveal once a search result's file has opened
+  const pendingFocusLine = useRef<number | null>(null);
   
+  // Project persistence
+  const { data: project, error: projectError } = useQuery<Project>({
+    queryKey: ['/api/projects', projectId],
+    enabled: !!projectId
+  });
+  const { versions, recordVersion, restoreVersion, isRestoring } = useProjectVersions(projectId);
+  const { status: saveStatus, markSaved, labelNextSave } = useProjectAutosave(projectId, files, recordVersion);
+  const history = useEditHistory<EditorSnapshot>();
+  const { record: recordHistory, clear: clearHistory } = history;
+
+  const takeSnapshot = useCallback((): EditorSnapshot => ({
+    files,
+    currentCode,
+    currentFilename,
+    originalCode
+  }), [files, currentCode, currentFilename, originalCode]);
+
+  const restoreSnapshot = useCallback((snapshot: EditorSnapshot | undefined) => {
+    if (!snapshot) return;
+    setFiles(snapshot.files);
+    setCurrentCode(snapshot.currentCode);
+    setCurrentFilename(snapshot.currentFilename);
+    setOriginalCode(snapshot.originalCode);
+  }, []);
+
+  const createProjectMutation = useMutation({
+    mutationFn: async (initialFiles: ProjectFile[]) => {
+      const res = await apiRequest('POST', '/api/projects', {
+        name: initialFiles[0]?.name || 'Untitled session',
+        files: initialFiles
+      });
+      return (await res.json()) as Project;
+    },
+    onSuccess: (created: Project) => {
+      // Seed the cache and skip hydration: the hub already holds this state
+      queryClient.setQueryData(['/api/projects', created.id], created);
+      hydratedProjectId.current = created.id;
+      markSaved(Array.isArray(created.files) ? created.files as ProjectFile[] : []);
+      navigate(`/projects/${created.id}`, { replace: true });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Save Failed',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  // Replace the working set with files from the server, keeping the open file if it still exists
+  const loadSavedFiles = useCallback((savedFiles: ProjectFile[], preferredName?: string) => {
+    setFiles(savedFiles);
+    markSaved(savedFiles);
+    clearHistory();
+    setFileOriginals({});
+    cursorPositions.current.clear();
+
+    const active = savedFiles.find(f => f.name === preferredName) ?? savedFiles[0];
+    if (active) {
+      setCurrentCode(active.content);
+      setCurrentFilename(active.name);
+      setOriginalCode(active.content);
+      setShowOriginal(true);
+      setShowDiff(false);
+    }
+  }, [markSaved, clearHistory]);
+
+  // Load a saved session once per project
+  useEffect(() => {
+    if (!project || hydratedProjectId.current === project.id) return;
+    hydratedProjectId.current = project.id;
+    loadSavedFiles(project.files ?? []);
+  }, [project, loadSavedFiles]);
+
+  const handleRestoreVersion = useCallback(async (versionId: string) => {
+    const restored = await restoreVersion(versionId).catch(() => null);
+    if (!restored) return;
+
+    loadSavedFiles(restored.files ?? [], currentFilename);
+    setChanges([]);
+    toast({
+      title: 'Version Restored',
+      description: `${restored.files?.length ?? 0} file(s) restored`
+    });
+  }, [restoreVersion, loadSavedFiles, currentFilename, toast]);
+
+  useEffect(() => {
+    if (!projectError) return;
+    toast({
+      title: 'Project Unavailable',
+      description: projectError.message,
+      variant: 'destructive'
+    });
+    navigate('/projects');
+  }, [projectError, toast, navigate]);
+
+  // The first files added to an unsaved session create its project; after a failure the next edit retries
+  useEffect(() => {
+    if (projectId || files.length === 0 || createProjectMutation.isPending || createProjectMutation.isSuccess) return;
+    if (createProjectMutation.isError && createProjectMutation.variables === files) return;
+    createProjectMutation.mutate(files);
+  }, [projectId, files, createProjectMutation]);
+
   // Stats computation
   const stats = useMemo(() => {
     const lineCount = currentCode.split('\n').length;
@@ -44,7 +198,120 @@ export default function CodeMasterHub() {
     };
   }, [files.length, currentCode, changes.length]);
 
+  // Remember the open file's caret and original before another file takes the editor
+  const stashActiveFile = useCallback(() => {
+    if (!currentFilename) return;
+    const editor = mainEditorRef.current;
+    if (editor) {
+      cursorPositions.current.set(currentFilename, editor.getSelection());
+    }
+    setFileOriginals(prev => ({ ...prev, [currentFilename]: originalCode }));
+  }, [currentFilename, originalCode]);
+
+  const openFile = useCallback((name: string) => {
+    const file = files.find(f => f.name === name);
+    if (!file || name === currentFilename) return;
+
+    stashActiveFile();
+    setCurrentFilename(file.name);
+    setCurrentCode(file.content);
+    setOriginalCode(fileOriginals[file.name] ?? file.content);
+    setShowOriginal(true);
+  }, [files, currentFilename, fileOriginals, stashActiveFile]);
+
+  // Removing the open file moves the editor to its neighbour, or empties it when none is left
+  const removeFile = useCallback((name: string) => {
+    const index = files.findIndex(f => f.name === name);
+    if (index === -1) return;
+    const remaining = files.filter((_, i) => i !== index);
+
+    setFiles(remaining);
+    setFileOriginals(({ [name]: _removed, ...rest }) => rest);
+    cursorPositions.current.delete(name);
+    if (name !== currentFilename) return;
+
+    const next = remaining[Math.min(index, remaining.length - 1)];
+    setCurrentFilename(next?.name ?? '');
+    setCurrentCode(next?.content ?? '');
+    setOriginalCode(next ? fileOriginals[next.name] ?? next.content : '');
+    setShowOriginal(!!next);
+    setShowDiff(false);
+  }, [files, currentFilename, fileOriginals]);
+
+  const isFileDirty = useCallback((file: ProjectFile) => {
+    return file.name === currentFilename
+      ? currentCode !== originalCode
+      : file.content !== (fileOriginals[file.name] ?? file.content);
+  }, [currentFilename, currentCode, originalCode, fileOriginals]);
+
+  // Put the caret back where it was when a file is reopened, unless a search result asked for a line
+  useEffect(() => {
+    const editor = mainEditorRef.current;
+    if (!editor) return;
+    const line = pendingFocusLine.current;
+    if (line !== null) {
+      pendingFocusLine.current = null;
+      editor.focusLine(line);
+      return;
+    }
+    const cursor = cursorPositions.current.get(currentFilename);
+    if (!cursor) return;
+    editor.setSelection(cursor.selectionStart, cursor.selectionEnd, cursor.scrollTop);
+  }, [currentFilename]);
+
+  // Enhanced search with auto-focus
+  const focusOnLine = useCallback((lineNumber: number) => {
+    mainEditorRef.current?.focusLine(lineNumber);
+  }, []);
+
+  // Jump to a search hit, opening its file first when needed
+  const goToMatch = useCallback((filename: string, line: number) => {
+    if (filename === currentFilename) {
+      focusOnLine(line);
+    } else {
+      pendingFocusLine.current = line;
+      openFile(filename);
+    }
+  }, [currentFilename, focusOnLine, openFile]);
+
   // Workshop communication
+  // The open file's latest text lives in the editor; every other file in `files`
+  const readFile = useCallback((name: string) => {
+    return name === currentFilename ? currentCode : files.find(f => f.name === name)?.content ?? '';
+  }, [currentFilename, currentCode, files]);
+
+  // Tool results replace file contents, with one change record per diff hunk.
+  // The editor and diff follow the first updated file.
+  const applyFileUpdates = useCallback((updates: ReviewedFile[], tool: string, summary: string) => {
+    if (updates.length === 0) return;
+    const nextChanges = updates.flatMap(update =>
+      hunksToChanges(diffHunks(readFile(update.filename), update.code), tool, summary, update.filename)
+    );
+    const nextFiles = updates.reduce((acc, update) => withFileContent(acc, update.filename, update.code), files);
+    const focus = updates[0];
+
+    recordHistory(`${tool}: ${summary}`, takeSnapshot(), {
+      files: nextFiles,
+      currentCode: focus.code,
+      currentFilename: focus.filename,
+      originalCode: readFile(focus.filename)
+    });
+    stashActiveFile();
+    setFileOriginals(prev => updates.slice(1).reduce(
+      (acc, update) => ({ ...acc, [update.filename]: readFile(update.filename) }),
+      prev
+    ));
+    setOriginalCode(readFile(focus.filename)); // Store current as original
+    setCurrentFilename(focus.filename);
+    setCurrentCode(focus.code);
+    setFiles(nextFiles);
+    setShowOriginal(true);
+    setShowDiff(true);
+    setChanges(prev => [...prev, ...nextChanges]);
+    // The version is taken on the server once autosave has stored these files
+    if (nextChanges.length > 0) labelNextSave({ tool, description: summary });
+  }, [readFile, files, labelNextSave, recordHistory, takeSnapshot, stashActiveFile]);
+
   const handleWorkshopMessage = useCallback((message: WorkshopMessage) => {
     console.log('Workshop message:', message);
     
@@ -56,24 +323,71 @@ export default function CodeMasterHub() {
         });
         break;
         
-      case 'WORKSHOP_APPLY_PATCH':
-        if (message.data?.code) {
-          setOriginalCode(currentCode); // Store current as original
-          setCurrentCode(message.data.code);
-          setShowOriginal(true);
-          setShowDiff(true);
-          setChanges(prev => [...prev, {
-            id: Date.now().toString(),
-            type: 'modified',
-            line: 0,
-            content: 'Code updated by workshop',
+      case 'WORKSHOP_APPLY_PATCH': {
+        const patch = message.data as WorkshopPatch | undefined;
+        const targets: WorkshopPatchFile[] = patch?.files
+          ?? (typeof patch?.code === 'string' ? [{ fileId: patch.fileId, filename: patch.filename, code: patch.code }] : []);
+
+        // Untargeted patches keep the old behaviour of applying to the open file
+        const resolved = targets.map(target => {
+          const file = files.find(f => f.id === target.fileId) ?? files.find(f => f.name === target.filename);
+          const filename = file?.name ?? (target.fileId || target.filename ? null : currentFilename);
+          return { target, filename };
+        });
+        const missing = resolved.filter(entry => entry.filename === null);
+        if (missing.length > 0) {
+          toast({
+            title: 'Patch Target Missing',
+            description: `Skipped ${missing.map(entry => entry.target.filename || entry.target.fileId).join(', ')}`,
+            variant: 'destructive'
+          });
+        }
+
+        const patchFiles = resolved
+          .filter((entry): entry is { target: WorkshopPatchFile; filename: string } => entry.filename !== null)
+          .map(({ target, filename }) => ({ filename, original: readFile(filename), proposed: target.code }));
+
+        // Patches wait for a per-hunk review instead of replacing the code outright
+        if (patchFiles.length > 0) {
+          setPatchSerial(serial => serial + 1);
+          setPendingPatch({
             tool: message.workshopId || 'unknown',
-            description: message.data.summary || 'Code modified'
-          }]);
+            summary: patch?.summary || 'Code modified',
+            files: patchFiles,
+            atomic: patch?.atomic
+          });
         }
         break;
+      }
+
+      case 'WORKSHOP_FOCUS_LINE': {
+        const target = message.data as WorkshopFocusLine | undefined;
+        const file = files.find(f => f.id === target?.fileId) ?? files.find(f => f.name === target?.filename);
+        if (target && file) goToMatch(file.name, target.line);
+        break;
+      }
     }
-  }, [toast, currentCode]);
+  }, [toast, files, currentFilename, readFile, goToMatch]);
+
+  const applyReviewedPatch = useCallback((reviewed: ReviewedFile[], accepted: number, total: number) => {
+    if (!pendingPatch) return;
+    const summary = accepted === total ? pendingPatch.summary : `${pendingPatch.summary} (${accepted} of ${total} hunks)`;
+    applyFileUpdates(reviewed, pendingPatch.tool, summary);
+    setPendingPatch(null);
+
+    toast({
+      title: 'Patch Applied',
+      description: summary
+    });
+  }, [pendingPatch, applyFileUpdates, toast]);
+
+  const discardPatch = useCallback(() => {
+    setPendingPatch(null);
+    toast({
+      title: 'Patch Discarded',
+      description: 'No changes were applied'
+    });
+  }, [toast]);
 
   const { sendMessage } = useWorkshopMessage(handleWorkshopMessage);
 
@@ -128,8 +442,8 @@ document.addEventListener('DOMContentLoaded', function() {
   };
 
   // File operations
-  const handleFilesUploaded = useCallback(async (files: FileList | File[]) => {
-    const fileArray = Array.from(files);
+  const handleFilesUploaded = useCallback(async (uploaded: FileList | File[]) => {
+    const fileArray = Array.from(uploaded);
     const newFiles: ProjectFile[] = [];
     
     for (const file of fileArray) {
@@ -144,9 +458,22 @@ document.addEventListener('DOMContentLoaded', function() {
       newFiles.push(projectFile);
     }
     
-    setFiles(prev => [...prev, ...newFiles]);
+    // File names are unique within a project, so re-uploading replaces the old copy in place
+    const merged = files.map(existing => {
+      const replacement = newFiles.find(f => f.name === existing.name);
+      return replacement ? { ...replacement, id: existing.id } : existing;
+    });
+    const nextFiles = [...merged, ...newFiles.filter(f => !files.some(existing => existing.name === f.name))];
+    setFiles(nextFiles);
     
     if (newFiles.length > 0) {
+      stashActiveFile();
+      recordHistory(`Uploaded ${newFiles.length} file(s)`, takeSnapshot(), {
+        files: nextFiles,
+        currentCode: newFiles[0].content,
+        currentFilename: newFiles[0].name,
+        originalCode: newFiles[0].content
+      });
       setCurrentCode(newFiles[0].content);
       setCurrentFilename(newFiles[0].name);
       // Auto-populate original code window as well
@@ -159,12 +486,20 @@ document.addEventListener('DOMContentLoaded', function() {
       title: 'Files Loaded',
       description: `${newFiles.length} file(s) added to project`
     });
-  }, [toast]);
+  }, [files, recordHistory, takeSnapshot, stashActiveFile, toast]);
 
   // Template loading
   const loadTemplate = useCallback((templateType: TemplateType) => {
+    const filename = `template.${templateType === 'js' ? 'js' : templateType === 'css' ? 'css' : 'html'}`;
+    recordHistory(`Template: ${templateType.toUpperCase()}`, takeSnapshot(), {
+      files,
+      currentCode: templates[templateType],
+      currentFilename: filename,
+      originalCode: ''
+    });
+    stashActiveFile();
     setCurrentCode(templates[templateType]);
-    setCurrentFilename(`template.${templateType === 'js' ? 'js' : templateType === 'css' ? 'css' : 'html'}`);
+    setCurrentFilename(filename);
     setOriginalCode('');
     setShowOriginal(false);
     setShowDiff(false);
@@ -173,60 +508,96 @@ document.addEventListener('DOMContentLoaded', function() {
       title: 'Template Loaded',
       description: `${templateType.toUpperCase()} template loaded`
     });
-  }, [toast]);
+  }, [files, recordHistory, takeSnapshot, stashActiveFile, toast]);
 
-  // Enhanced search with auto-focus
-  const focusOnLine = useCallback((lineNumber: number) => {
-    if (!mainEditorRef.current) return;
-    
-    const textarea = mainEditorRef.current;
-    const lines = currentCode.split('\n');
-    
-    // Calculate character position for the line
-    let charPosition = 0;
-    for (let i = 0; i < lineNumber - 1; i++) {
-      charPosition += lines[i].length + 1; // +1 for newline character
+  // Keystrokes in quick succession collapse into a single history entry per file
+  // Edits to the open file go straight back into `files` so autosave and other tools see them
+  const handleEditorChange = useCallback((code: string) => {
+    const before = takeSnapshot();
+    const nextFiles = withFileContent(files, currentFilename, code);
+    recordHistory(`Edited ${currentFilename || 'code'}`, before, { ...before, files: nextFiles, currentCode: code }, `typing:${currentFilename}`);
+    setCurrentCode(code);
+    setFiles(nextFiles);
+  }, [files, currentFilename, recordHistory, takeSnapshot]);
+
+  const clearEditor = useCallback(() => {
+    const before = takeSnapshot();
+    const nextFiles = withFileContent(files, currentFilename, '');
+    recordHistory('Cleared editor', before, { ...before, files: nextFiles, currentCode: '' });
+    setCurrentCode('');
+    setFiles(nextFiles);
+  }, [files, currentFilename, recordHistory, takeSnapshot]);
+
+  const undo = useCallback(() => restoreSnapshot(history.undo()), [history.undo, restoreSnapshot]);
+  const redo = useCallback(() => restoreSnapshot(history.redo()), [history.redo, restoreSnapshot]);
+
+  // Ctrl+Z / Ctrl+Shift+Z drive the app history everywhere except other text inputs and open workshops
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || currentOverlay) return;
+      const target = e.target as HTMLElement | null;
+      const isOtherInput = target !== mainEditorRef.current?.textarea
+        && (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target?.isContentEditable);
+      if (isOtherInput) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, currentOverlay]);
+
+  // Every project file with the open file's live text, plus the open buffer if it isn't a project file yet
+  const searchableFiles = useMemo(() => {
+    const entries = files.map(f => ({ name: f.name, content: readFile(f.name) }));
+    if (currentCode && !files.some(f => f.name === currentFilename)) {
+      entries.push({ name: currentFilename, content: currentCode });
     }
-    
-    // Focus and select the line
-    textarea.focus();
-    textarea.setSelectionRange(charPosition, charPosition + lines[lineNumber - 1].length);
-    
-    // Scroll to the line
-    const lineHeight = parseInt(getComputedStyle(textarea).lineHeight) || 20;
-    textarea.scrollTop = Math.max(0, (lineNumber - 3) * lineHeight);
-    
-    // Add temporary highlight effect
-    textarea.style.transition = 'background-color 0.3s';
-    const originalBg = textarea.style.backgroundColor;
-    textarea.style.backgroundColor = 'rgba(88, 166, 255, 0.1)';
-    setTimeout(() => {
-      textarea.style.backgroundColor = originalBg;
-    }, 1000);
-  }, [currentCode]);
+    return entries;
+  }, [files, readFile, currentCode, currentFilename]);
+
+  const searchResults = useMemo(() => {
+    if (!activeSearch) return [];
+    try {
+      return searchFiles(searchableFiles, activeSearch.term, activeSearch.options);
+    } catch {
+      return [];
+    }
+  }, [activeSearch, searchableFiles]);
+
+  const clearSearch = useCallback(() => {
+    setSearchTerm('');
+    setActiveSearch(null);
+  }, []);
 
   // Search functionality  
   const performSearch = useCallback(() => {
-    if (!searchTerm.trim() || !currentCode) {
-      setSearchResults([]);
+    if (!searchTerm) {
+      setActiveSearch(null);
       return;
     }
+
+    let results;
+    try {
+      results = searchFiles(searchableFiles, searchTerm, searchOptions);
+    } catch (error) {
+      toast({
+        title: 'Invalid Pattern',
+        description: error instanceof Error ? error.message : 'The regular expression could not be parsed',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setActiveSearch({ term: searchTerm, options: searchOptions });
+    const total = results.reduce((sum, result) => sum + result.matches.length, 0);
     
-    const lines = currentCode.split('\n');
-    const results: Array<{line: number, content: string}> = [];
-    
-    lines.forEach((line, index) => {
-      if (line.toLowerCase().includes(searchTerm.toLowerCase())) {
-        results.push({
-          line: index + 1,
-          content: line
-        });
-      }
-    });
-    
-    setSearchResults(results);
-    
-    if (results.length === 0) {
+    if (total === 0) {
       toast({
         title: 'Search Complete',
         description: 'No matches found',
@@ -234,16 +605,53 @@ document.addEventListener('DOMContentLoaded', function() {
       });
     } else {
       // Auto-focus on first result
-      if (results.length > 0) {
-        setTimeout(() => focusOnLine(results[0].line), 100);
-      }
+      const first = results[0];
+      setTimeout(() => goToMatch(first.filename, first.matches[0].line), 100);
       
       toast({
         title: 'Search Complete',
-        description: `Found ${results.length} matches`
+        description: `Found ${total} matches in ${results.length} file(s)`
+      });
+    }
+  }, [searchTerm, searchOptions, searchableFiles, toast, goToMatch]);
+
+  // Replace All goes through the same per-hunk review as workshop patches
+  const replaceAll = useCallback(() => {
+    if (!searchTerm) return;
+    try {
+      buildSearchPattern(searchTerm, searchOptions);
+    } catch (error) {
+      toast({
+        title: 'Invalid Pattern',
+        description: error instanceof Error ? error.message : 'The regular expression could not be parsed',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    let total = 0;
+    const patchFiles = searchableFiles.flatMap(file => {
+      const { code, count } = replaceInContent(file.content, searchTerm, replaceTerm, searchOptions);
+      total += count;
+      return count > 0 && code !== file.content ? [{ filename: file.name, original: file.content, proposed: code }] : [];
+    });
+
+    if (patchFiles.length === 0) {
+      toast({
+        title: 'Nothing to Replace',
+        description: 'No matches found',
+        variant: 'destructive'
       });
+      return;
     }
-  }, [searchTerm, currentCode, toast, focusOnLine]);
+
+    setPatchSerial(serial => serial + 1);
+    setPendingPatch({
+      tool: 'search',
+      summary: `Replaced ${total} match(es) of "${searchTerm}" with "${replaceTerm}"`,
+      files: patchFiles
+    });
+  }, [searchTerm, replaceTerm, searchOptions, searchableFiles, toast]);
 
   // Auto-refresh preview when code changes
   useEffect(() => {
@@ -306,19 +714,7 @@ document.addEventListener('DOMContentLoaded', function() {
       const { spacingTool } = await import('@/lib/spacingTool');
       const result = await spacingTool.run(currentCode, { filename: currentFilename });
       
-      setOriginalCode(currentCode);
-      setCurrentCode(result.code);
-      setShowOriginal(true);
-      setShowDiff(true);
-      
-      setChanges(prev => [...prev, {
-        id: Date.now().toString(),
-        type: 'modified',
-        line: 0,
-        content: result.summary,
-        tool: 'Spacing Tool',
-        description: result.summary
-      }]);
+      applyFileUpdates([{ filename: currentFilename, code: result.code }], 'Spacing Tool', result.summary);
       
       toast({
         title: 'Spacing Applied',
@@ -331,7 +727,51 @@ document.addEventListener('DOMContentLoaded', function() {
         variant: 'destructive'
       });
     }
-  }, [currentCode, currentFilename, toast]);
+  }, [currentCode, currentFilename, applyFileUpdates, toast]);
+
+  const runCSSTool = useCallback(async (kind: 'minify' | 'beautify') => {
+    if (!currentCode) {
+      toast({
+        title: 'No Code',
+        description: 'Please load a file first',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      const tool = kind === 'minify'
+        ? (await import('@/lib/cssMinifyTool')).cssMinifyTool
+        : (await import('@/lib/cssBeautifyTool')).cssBeautifyTool;
+      const result = await tool.run(currentCode, { filename: currentFilename, options: beautifyStyle });
+
+      if (result.warnings.length > 0) {
+        toast({
+          title: kind === 'minify' ? 'Minify Skipped' : 'Beautify Skipped',
+          description: result.warnings.join(' '),
+          variant: 'destructive'
+        });
+        return;
+      }
+      if (result.code === currentCode) {
+        toast({ title: 'No Changes', description: result.summary });
+        return;
+      }
+
+      applyFileUpdates([{ filename: currentFilename, code: result.code }], kind === 'minify' ? 'CSS Minifier' : 'CSS Beautifier', result.summary);
+
+      toast({
+        title: kind === 'minify' ? 'CSS Minified' : 'CSS Beautified',
+        description: result.summary
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to apply ${kind === 'minify' ? 'minifier' : 'beautifier'}`,
+        variant: 'destructive'
+      });
+    }
+  }, [currentCode, currentFilename, beautifyStyle, applyFileUpdates, toast]);
 
   const runFileCode = useCallback(() => {
     if (files.length === 0) {
@@ -355,6 +795,9 @@ document.addEventListener('DOMContentLoaded', function() {
 
   const resetProject = useCallback(() => {
     setFiles([]);
+    clearHistory();
+    setFileOriginals({});
+    cursorPositions.current.clear();
     setCurrentCode('');
     setOriginalCode('');
     setCurrentFilename('');
@@ -362,7 +805,8 @@ document.addEventListener('DOMContentLoaded', function() {
     setShowOriginal(false);
     setShowDiff(false);
     setSearchTerm('');
-    setSearchResults([]);
+    setReplaceTerm('');
+    setActiveSearch(null);
     
     if (previewUrl) {
       URL.revokeObjectURL(previewUrl);
@@ -370,11 +814,18 @@ document.addEventListener('DOMContentLoaded', function() {
     }
     setShowPreview(false);
     
+    // Start a fresh session; the saved project stays available from the picker
+    hydratedProjectId.current = null;
+    createProjectMutation.reset();
+    if (projectId) {
+      navigate('/');
+    }
+    
     toast({
       title: 'Project Reset',
       description: 'All files and changes cleared'
     });
-  }, [previewUrl, toast]);
+  }, [previewUrl, toast, projectId, navigate, createProjectMutation, clearHistory]);
 
   return (
     <div className="min-h-screen gradient-bg">
@@ -414,10 +865,20 @@ document.addEventListener('DOMContentLoaded', function() {
               >
                 🔗 Prefetch/Preconnect
               </button>
+              <button 
+                className="px-3 py-2 text-sm rounded-md bg-muted/50 hover:bg-muted transition-colors"
+                onClick={() => navigate('/projects')}
+                data-testid="button-projects"
+              >
+                📁 Projects
+              </button>
             </nav>
 
             {/* Stats */}
             <div className="flex items-center gap-3">
+              <div className="px-3 py-1 text-xs bg-muted/50 rounded-full">
+                <span data-testid="text-save-status">{getSaveStatusLabel(projectId ? saveStatus : 'idle')}</span>
+              </div>
               <div className="px-3 py-1 text-xs bg-muted/50 rounded-full">
                 <span data-testid="text-lines-count">Lines: {stats.linesAnalyzed}</span>
               </div>
@@ -427,6 +888,18 @@ document.addEventListener('DOMContentLoaded', function() {
               <div className="px-3 py-1 text-xs bg-muted/50 rounded-full">
                 <span data-testid="text-changes-count">Changes: {stats.changesCount}</span>
               </div>
+              {user && (
+                <button
+                  className="px-3 py-1 text-xs bg-muted/50 hover:bg-muted rounded-full transition-colors"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  data-testid="button-logout"
+                  title="Sign out"
+                >
+                  <i className="fas fa-sign-out-alt mr-1"></i>
+                  {user.username}
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -483,7 +956,7 @@ document.addEventListener('DOMContentLoaded', function() {
                   </button>
                   <button 
                     className="px-3 py-1.5 rounded text-xs bg-muted hover:bg-muted/80 transition-colors"
-                    onClick={() => setCurrentCode('')}
+                    onClick={clearEditor}
                     data-testid="button-clear-editor"
                   >
                     <i className="fas fa-trash text-xs"></i>
@@ -496,26 +969,23 @@ document.addEventListener('DOMContentLoaded', function() {
               <div className="mb-6">
                 <div className="flex items-center gap-2 mb-3">
                   <i className="fas fa-search text-sm text-muted-foreground"></i>
-                  <h3 className="text-sm font-semibold">Enhanced Search & Focus</h3>
+                  <h3 className="text-sm font-semibold">Search & Replace</h3>
                 </div>
                 
-                <div className="relative mb-3">
+                <div className="relative mb-2">
                   <input
                     type="text"
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     onKeyDown={(e) => e.key === 'Enter' && performSearch()}
-                    placeholder="Search code (multi-line supported)..."
+                    placeholder="Search all project files..."
                     className="w-full px-3 py-2 pr-16 text-xs bg-background border border-border rounded-md font-mono"
                     data-testid="input-search"
                   />
                   <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex gap-1">
                     {searchTerm.trim().length > 0 && (
                       <button
-                        onClick={() => {
-                          setSearchTerm('');
-                          setSearchResults([]);
-                        }}
+                        onClick={clearSearch}
                         className="px-2 py-1 hover:bg-red-200 rounded text-red-700 bg-red-100 border border-red-300 text-lg font-bold shadow-sm"
                         data-testid="button-clear-search-x"
                         title="Clear search"
@@ -533,6 +1003,36 @@ document.addEventListener('DOMContentLoaded', function() {
                     </button>
                   </div>
                 </div>
+
+                {/* Search options */}
+                <div className="flex gap-1 mb-2">
+                  {([
+                    { key: 'regex', label: '.*', title: 'Use regular expression' },
+                    { key: 'caseSensitive', label: 'Aa', title: 'Match case' },
+                    { key: 'wholeWord', label: 'ab', title: 'Match whole word' }
+                  ] as const).map(option => (
+                    <button
+                      key={option.key}
+                      className={`px-2 py-0.5 text-xs font-mono rounded transition-colors ${
+                        searchOptions[option.key] ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80 text-muted-foreground'
+                      }`}
+                      onClick={() => setSearchOptions(prev => ({ ...prev, [option.key]: !prev[option.key] }))}
+                      title={option.title}
+                      data-testid={`toggle-search-${option.key}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                <input
+                  type="text"
+                  value={replaceTerm}
+                  onChange={(e) => setReplaceTerm(e.target.value)}
+                  placeholder={searchOptions.regex ? 'Replace with ($1 for groups)...' : 'Replace with...'}
+                  className="w-full px-3 py-2 mb-3 text-xs bg-background border border-border rounded-md font-mono"
+                  data-testid="input-replace"
+                />
                 
                 {/* Search control buttons */}
                 <div className="flex gap-2 mb-3">
@@ -543,34 +1043,47 @@ document.addEventListener('DOMContentLoaded', function() {
                   >
                     🔍 Search
                   </button>
+                  <button 
+                    className="flex-1 px-3 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors disabled:opacity-50"
+                    onClick={replaceAll}
+                    disabled={!searchTerm}
+                    data-testid="button-replace-all"
+                  >
+                    ⇄ Replace All
+                  </button>
                   <button 
                     className="flex-1 px-3 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors"
-                    onClick={() => {
-                      setSearchTerm('');
-                      setSearchResults([]);
-                    }}
+                    onClick={clearSearch}
                     data-testid="button-clear-search"
                   >
                     🗑️ Clear
                   </button>
                 </div>
 
-                {/* Search Results */}
+                {/* Search Results, grouped by file */}
                 {searchResults.length > 0 && (
-                  <div className="bg-background border border-border rounded-md max-h-48 overflow-y-auto">
-                    {searchResults.map((result, index) => (
-                      <div 
-                        key={index}
-                        className="flex items-center gap-2 p-2 border-b border-border last:border-b-0 hover:bg-secondary cursor-pointer text-xs transition-colors"
-                        onClick={() => focusOnLine(result.line)}
-                        data-testid={`search-result-${index}`}
-                      >
-                        <div className="bg-accent/20 text-accent px-2 py-0.5 rounded text-xs font-mono min-w-12 text-center">
-                          {result.line}
-                        </div>
-                        <div className="flex-1 font-mono text-muted-foreground truncate">
-                          {result.content.trim()}
+                  <div className="bg-background border border-border rounded-md max-h-64 overflow-y-auto">
+                    {searchResults.map((result, fileIndex) => (
+                      <div key={result.filename} data-testid={`search-file-${fileIndex}`}>
+                        <div className="sticky top-0 flex items-center justify-between px-2 py-1 bg-muted text-xs font-semibold border-b border-border">
+                          <span className="truncate">📄 {result.filename}</span>
+                          <span className="text-muted-foreground font-normal">{result.matches.length}</span>
                         </div>
+                        {result.matches.map((match, index) => (
+                          <div 
+                            key={`${match.line}-${match.column}`}
+                            className="flex items-center gap-2 p-2 border-b border-border last:border-b-0 hover:bg-secondary cursor-pointer text-xs transition-colors"
+                            onClick={() => goToMatch(result.filename, match.line)}
+                            data-testid={`search-result-${fileIndex}-${index}`}
+                          >
+                            <div className="bg-accent/20 text-accent px-2 py-0.5 rounded text-xs font-mono min-w-12 text-center">
+                              {match.line}
+                            </div>
+                            <div className="flex-1 font-mono text-muted-foreground truncate">
+                              {match.content.trim()}
+                            </div>
+                          </div>
+                        ))}
                       </div>
                     ))}
                   </div>
@@ -611,13 +1124,24 @@ document.addEventListener('DOMContentLoaded', function() {
                 {/* Loaded Files */}
                 <div className="space-y-2 mb-3 max-h-32 overflow-y-auto">
                   {files.map((file) => (
-                    <div key={file.id} className="flex items-center justify-between p-2 bg-muted/30 rounded text-xs">
+                    <div
+                      key={file.id}
+                      className={`flex items-center justify-between p-2 rounded text-xs cursor-pointer ${
+                        file.name === currentFilename ? 'bg-primary/20 text-primary' : 'bg-muted/30 hover:bg-muted/50'
+                      }`}
+                      onClick={() => openFile(file.name)}
+                      data-testid={`file-item-${file.id}`}
+                    >
                       <span className="flex items-center gap-2">
                         <i className={getFileIcon(file.type)}></i>
                         {file.name}
+                        {isFileDirty(file) && <span className="text-accent">●</span>}
                       </span>
                       <button 
-                        onClick={() => setFiles(prev => prev.filter(f => f.id !== file.id))}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          removeFile(file.name);
+                        }}
                         className="text-muted-foreground hover:text-foreground"
                         data-testid={`button-remove-file-${file.id}`}
                       >
@@ -746,15 +1270,115 @@ document.addEventListener('DOMContentLoaded', function() {
                       </button>
                     </div>
                   </div>
+
+                  <div className="p-2 bg-secondary/10 border border-secondary/30 rounded-md">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <i className="fas fa-compress-alt text-secondary text-sm"></i>
+                        <div>
+                          <div className="text-xs font-medium">CSS Minifier</div>
+                          <div className="text-xs text-muted-foreground">v1.0.0 - Ready</div>
+                        </div>
+                      </div>
+                      <button 
+                        className="btn-secondary px-2 py-1 rounded text-xs"
+                        onClick={() => runCSSTool('minify')}
+                        data-testid="button-run-css-minify"
+                      >
+                        Run
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="p-2 bg-secondary/10 border border-secondary/30 rounded-md">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <i className="fas fa-expand-alt text-secondary text-sm"></i>
+                        <div>
+                          <div className="text-xs font-medium">CSS Beautifier</div>
+                          <div className="text-xs text-muted-foreground">v1.0.0 - Ready</div>
+                        </div>
+                      </div>
+                      <button 
+                        className="btn-secondary px-2 py-1 rounded text-xs"
+                        onClick={() => runCSSTool('beautify')}
+                        data-testid="button-run-css-beautify"
+                      >
+                        Run
+                      </button>
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      <select
+                        value={String(beautifyStyle.indent)}
+                        onChange={(e) => setBeautifyStyle(prev => ({ ...prev, indent: e.target.value === 'tab' ? 'tab' : Number(e.target.value) }))}
+                        className="flex-1 px-1 py-0.5 text-xs border border-border rounded"
+                        data-testid="select-beautify-indent"
+                      >
+                        <option value="2">2 spaces</option>
+                        <option value="4">4 spaces</option>
+                        <option value="tab">Tabs</option>
+                      </select>
+                      <select
+                        value={beautifyStyle.braceStyle}
+                        onChange={(e) => setBeautifyStyle(prev => ({ ...prev, braceStyle: e.target.value as CSSBeautifyOptions['braceStyle'] }))}
+                        className="flex-1 px-1 py-0.5 text-xs border border-border rounded"
+                        data-testid="select-beautify-braces"
+                      >
+                        <option value="same-line">Brace on same line</option>
+                        <option value="next-line">Brace on next line</option>
+                      </select>
+                    </div>
+                  </div>
                 </div>
               </div>
             </div>
+
+            <EditHistory
+              entries={history.entries}
+              index={history.index}
+              canUndo={history.canUndo}
+              canRedo={history.canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              onJump={(index) => restoreSnapshot(history.jumpTo(index))}
+            />
+
+            <VersionHistory
+              projectId={projectId}
+              versions={versions}
+              files={files}
+              onRestore={handleRestoreVersion}
+              isRestoring={isRestoring}
+            />
           </aside>
 
           {/* Right Panel - Code Editor & Preview */}
           <main className="col-span-8 space-y-6">
             {/* Main Code Editor */}
             <div className="code-window rounded-lg overflow-hidden">
+              {files.length > 0 && (
+                <div className="flex overflow-x-auto bg-muted/20 border-b border-border" data-testid="editor-tabs">
+                  {files.map((file) => (
+                    <button
+                      key={file.id}
+                      className={`px-3 py-2 text-xs flex items-center gap-2 border-r border-border whitespace-nowrap transition-colors ${
+                        file.name === currentFilename ? 'bg-card text-foreground' : 'text-muted-foreground hover:bg-muted/40'
+                      }`}
+                      onClick={() => openFile(file.name)}
+                      data-testid={`tab-file-${file.id}`}
+                    >
+                      <i className={getFileIcon(file.type)}></i>
+                      {file.name}
+                      {isFileDirty(file) && <span className="text-accent" title="Modified">●</span>}
+                    </button>
+                  ))}
+                  {currentFilename && !files.some(f => f.name === currentFilename) && (
+                    <span className="px-3 py-2 text-xs italic bg-card text-foreground whitespace-nowrap">
+                      {currentFilename}
+                    </span>
+                  )}
+                </div>
+              )}
               <div className="bg-muted/30 px-4 py-3 border-b border-border flex items-center justify-between">
                 <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
                   Project Code
@@ -768,22 +1392,15 @@ document.addEventListener('DOMContentLoaded', function() {
                   </button>
                 </div>
               </div>
-              <div className="flex h-96">
-                <div className="w-16 bg-muted/20 text-right px-2 py-3 text-xs text-muted-foreground font-mono border-r border-border overflow-hidden">
-                  {currentCode.split('\n').map((_, index) => (
-                    <div key={index} className="leading-5">{index + 1}</div>
-                  ))}
-                </div>
-                <textarea
-                  ref={mainEditorRef}
-                  value={currentCode}
-                  onChange={(e) => setCurrentCode(e.target.value)}
-                  placeholder="Start coding here or load a template..."
-                  className="flex-1 p-3 bg-transparent text-sm font-mono resize-none outline-none"
-                  spellCheck="false"
-                  data-testid="textarea-main-editor"
-                />
-              </div>
+              <CodeEditor
+                ref={mainEditorRef}
+                value={currentCode}
+                onChange={handleEditorChange}
+                filename={currentFilename}
+                placeholder="Start coding here or load a template..."
+                className="h-96"
+                data-testid="textarea-main-editor"
+              />
             </div>
 
             {/* Original Code Section - Show when original exists */}
@@ -815,8 +1432,12 @@ document.addEventListener('DOMContentLoaded', function() {
                     Diff Preview
                   </h3>
                   <div className="flex gap-2">
-                    <button className="px-2 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors">
-                      🧩 Show Diff
+                    <button
+                      className="px-2 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors"
+                      onClick={() => setDiffMode(mode => mode === 'unified' ? 'split' : 'unified')}
+                      data-testid="button-toggle-diff-mode"
+                    >
+                      🧩 {diffMode === 'unified' ? 'Side by Side' : 'Unified'}
                     </button>
                     <button 
                       className="px-2 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors"
@@ -826,19 +1447,16 @@ document.addEventListener('DOMContentLoaded', function() {
                     </button>
                   </div>
                 </div>
-                <div className="p-3 h-56 overflow-auto">
-                  <div className="space-y-2">
-                    {changes.slice(-5).map((change) => (
-                      <div key={change.id} className={`p-2 rounded text-sm diff-${change.type}`}>
-                        <div className="font-mono font-medium">
-                          {change.tool}: {change.content}
-                        </div>
-                        <div className="text-xs text-muted-foreground mt-1">
-                          {change.description}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
+                <div className="h-56 overflow-auto">
+                  <DiffViewer original={originalCode} modified={currentCode} mode={diffMode} className="py-2" />
+                </div>
+                <div className="px-3 py-2 border-t border-border space-y-1 max-h-24 overflow-auto">
+                  {changes.slice(-5).map((change) => (
+                    <div key={change.id} className="text-xs text-muted-foreground truncate">
+                      <span className={`px-1 rounded diff-${change.type}`}>L{change.line}</span>{' '}
+                      {change.tool}: {change.description}
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
@@ -908,11 +1526,24 @@ document.addEventListener('DOMContentLoaded', function() {
         files={files}
         sendMessage={sendMessage}
       />
+
+      {pendingPatch && (
+        <PatchReview
+          key={patchSerial}
+          patch={pendingPatch}
+          onApply={applyReviewedPatch}
+          onCancel={discardPatch}
+        />
+      )}
     </div>
   );
 }
 
 // Utility functions
+function withFileContent(files: ProjectFile[], name: string, content: string): ProjectFile[] {
+  return files.map(f => f.name === name ? { ...f, content, size: new Blob([content]).size } : f);
+}
+
 function getFileType(filename: string): 'html' | 'css' | 'js' | 'json' {
   const ext = filename.split('.').pop()?.toLowerCase();
   switch (ext) {
@@ -933,6 +1564,17 @@ function getFileType(filename: string): 'html' | 'css' | 'js' | 'json' {
   }
 }
 
+function getSaveStatusLabel(status: AutosaveStatus): string {
+  switch (status) {
+    case 'pending': return '● Unsaved';
+    case 'saving': return '⏳ Saving...';
+    case 'saved': return '✓ Saved';
+    case 'conflict': return '⚠️ Save conflict';
+    case 'error': return '⚠️ Save failed';
+    default: return '○ Not saved';
+  }
+}
+
 function getFileIcon(type: string): string {
   switch (type) {
     case 'html': return 'fab fa-html5 text-orange-500';
@@ -0,0 +1,103 @@
+import { useMemo } from 'react';
+import {
+  diffHunks,
+  formatHunkHeader,
+  toSplitRows,
+  toUnifiedLines,
+  type DiffHunk,
+  type DiffLine,
+  type InlineSegment
+} from '@/lib/diffEngine';
+
+export type DiffMode = 'unified' | 'split';
+
+interface DiffViewerProps {
+  original: string;
+  modified: string;
+  mode?: DiffMode;
+  context?: number;
+  className?: string;
+}
+
+const lineClass: Record<DiffLine['type'], string> = {
+  equal: '',
+  added: 'diff-added',
+  removed: 'diff-removed'
+};
+
+function LineText({ line, segments }: { line: DiffLine | null; segments?: InlineSegment[] }) {
+  if (!line) return null;
+  if (!segments) return <>{line.text || ' '}</>;
+  const highlight = line.type === 'added' ? 'diff-word-added' : 'diff-word-removed';
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <span key={index} className={segment.changed ? highlight : undefined}>{segment.text}</span>
+      ))}
+    </>
+  );
+}
+
+function Gutter({ value }: { value: number | null }) {
+  return (
+    <span className="w-10 shrink-0 pr-2 text-right text-muted-foreground/60 select-none">
+      {value ?? ''}
+    </span>
+  );
+}
+
+export function DiffHunkView({ hunk, mode = 'unified' }: { hunk: DiffHunk; mode?: DiffMode }) {
+  return (
+    <>
+      <div className="diff-hunk-header px-2 py-1 sticky left-0">{formatHunkHeader(hunk)}</div>
+
+      {mode === 'unified' ? (
+        toUnifiedLines(hunk.lines).map(({ line, segments }, index) => (
+          <div key={index} className={`flex whitespace-pre ${lineClass[line.type]}`}>
+            <Gutter value={line.oldLine} />
+            <Gutter value={line.newLine} />
+            <span className="w-4 shrink-0 select-none">
+              {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+            </span>
+            <span className="flex-1"><LineText line={line} segments={segments} /></span>
+          </div>
+        ))
+      ) : (
+        toSplitRows(hunk.lines).map((row, index) => (
+          <div key={index} className="grid grid-cols-2">
+            <div className={`flex whitespace-pre overflow-hidden ${row.left ? lineClass[row.left.type] : 'bg-muted/20'}`}>
+              <Gutter value={row.left?.oldLine ?? null} />
+              <span className="flex-1"><LineText line={row.left} segments={row.leftSegments} /></span>
+            </div>
+            <div className={`flex whitespace-pre overflow-hidden border-l border-border ${row.right ? lineClass[row.right.type] : 'bg-muted/20'}`}>
+              <Gutter value={row.right?.newLine ?? null} />
+              <span className="flex-1"><LineText line={row.right} segments={row.rightSegments} /></span>
+            </div>
+          </div>
+        ))
+      )}
+    </>
+  );
+}
+
+export default function DiffViewer({ original, modified, mode = 'unified', context = 3, className = '' }: DiffViewerProps) {
+  const hunks = useMemo(() => diffHunks(original, modified, context), [original, modified, context]);
+
+  if (hunks.length === 0) {
+    return (
+      <div className={`text-center py-6 text-muted-foreground text-sm ${className}`} data-testid="diff-empty">
+        No differences
+      </div>
+    );
+  }
+
+  return (
+    <div className={`text-xs font-mono overflow-auto ${className}`} data-testid={`diff-viewer-${mode}`}>
+      {hunks.map((hunk, hunkIndex) => (
+        <div key={hunkIndex} className="mb-2" data-testid={`diff-hunk-${hunkIndex}`}>
+          <DiffHunkView hunk={hunk} mode={mode} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { formatDistanceToNow } from 'date-fns';
+import type { HistoryEntry } from '@/hooks/useEditHistory';
+
+interface EditHistoryProps<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+export default function EditHistory<T>({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump }: EditHistoryProps<T>) {
+  return (
+    <div className="tool-panel p-5">
+      <div className="flex items-center gap-3 mb-4">
+        <i className="fas fa-undo text-primary text-lg"></i>
+        <h2 className="text-lg font-semibold">Edit History</h2>
+        <div className="ml-auto flex gap-1">
+          <button
+            className="px-2 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors disabled:opacity-50"
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            data-testid="button-undo"
+          >
+            ↶ Undo
+          </button>
+          <button
+            className="px-2 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors disabled:opacity-50"
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            data-testid="button-redo"
+          >
+            ↷ Redo
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-4 text-muted-foreground text-sm">
+          Edits, templates, tool runs and patches show up here
+        </div>
+      ) : (
+        <div className="max-h-60 overflow-y-auto space-y-1">
+          {/* Newest first; entries past the current one are redoable */}
+          {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+            <div
+              key={entry.id}
+              className={`p-2 rounded cursor-pointer text-xs ${
+                i === index ? 'bg-secondary text-secondary-foreground'
+                  : i > index ? 'bg-muted/20 text-muted-foreground opacity-60 hover:opacity-100'
+                  : 'bg-muted/30 hover:bg-muted/50'
+              }`}
+              onClick={() => onJump(i)}
+              data-testid={`history-entry-${i}`}
+            >
+              <div className="font-medium truncate">{entry.label}</div>
+              <div className={i === index ? 'opacity-80' : 'text-muted-foreground'}>
+                {formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
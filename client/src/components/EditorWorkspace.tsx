@@ -1,13 +1,16 @@
 import { useState, useMemo } from 'react';
 import type { AnalysisChange } from '@/types/workshop';
+import DiffViewer from './DiffViewer';
+import CodeEditor from './CodeEditor';
 
 interface EditorWorkspaceProps {
   currentCode: string;
+  originalCode?: string;
   changes: AnalysisChange[];
   onCodeChange: (code: string) => void;
 }
 
-export default function EditorWorkspace({ currentCode, changes, onCodeChange }: EditorWorkspaceProps) {
+export default function EditorWorkspace({ currentCode, originalCode = '', changes, onCodeChange }: EditorWorkspaceProps) {
   const [viewMode, setViewMode] = useState<'original' | 'modified' | 'diff'>('original');
   const [showPreview, setShowPreview] = useState(false);
 
@@ -18,20 +21,6 @@ export default function EditorWorkspace({ currentCode, changes, onCodeChange }:
     return URL.createObjectURL(blob);
   }, [currentCode, showPreview]);
 
-  const lineNumbers = useMemo(() => {
-    const lines = currentCode.split('\n');
-    return Array.from({ length: Math.max(25, lines.length) }, (_, i) => i + 1);
-  }, [currentCode]);
-
-  const syntaxHighlight = (code: string) => {
-    return code
-      .replace(/(&lt;\/?)(\w+)/g, '<span class="tag">$1$2</span>')
-      .replace(/(\w+)=/g, '<span class="attribute">$1</span>=')
-      .replace(/"([^"]*)"/g, '<span class="string">"$1"</span>')
-      .replace(/\/\*.*?\*\//g, '<span class="comment">$&</span>')
-      .replace(/\/\/.*$/gm, '<span class="comment">$&</span>');
-  };
-
   return (
     <section className="col-span-9 space-y-4">
       {/* Editor Tabs and Controls */}
@@ -82,27 +71,22 @@ export default function EditorWorkspace({ currentCode, changes, onCodeChange }:
       </div>
 
       {/* Main Code Editor */}
-      <div className="tool-panel h-96 flex overflow-hidden">
-        {/* Line Numbers */}
-        <div className="w-12 bg-muted/30 text-right px-2 py-3 text-xs text-muted-foreground font-mono border-r border-border">
-          {lineNumbers.map(num => (
-            <div key={num} className="leading-5" data-testid={`line-number-${num}`}>
-              {num}
-            </div>
-          ))}
+      {viewMode === 'diff' ? (
+        <div className="tool-panel h-96 overflow-hidden">
+          <DiffViewer original={originalCode} modified={currentCode} mode="split" className="h-full py-2" />
         </div>
-        
-        {/* Code Content */}
-        <div className="flex-1 relative">
-          <textarea
-            className="w-full h-full p-3 bg-transparent text-sm font-mono resize-none outline-none syntax-highlight"
+      ) : (
+        <div className="tool-panel h-96 overflow-hidden">
+          <CodeEditor
             value={currentCode}
-            onChange={(e) => onCodeChange(e.target.value)}
+            onChange={onCodeChange}
+            language="html"
             placeholder="Load a file to start editing..."
+            className="h-full"
             data-testid="textarea-code-editor"
           />
         </div>
-      </div>
+      )}
 
       {/* Analysis and Diff Panels */}
       <div className="grid grid-cols-2 gap-4 h-64">
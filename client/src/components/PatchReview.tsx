@@ -0,0 +1,173 @@
+import { useState, useMemo } from 'react';
+import { diffHunks, applyHunks } from '@/lib/diffEngine';
+import { DiffHunkView, type DiffMode } from './DiffViewer';
+
+export interface PendingPatchFile {
+  filename: string;
+  original: string;
+  proposed: string;
+}
+
+export interface PendingPatch {
+  tool: string;
+  summary: string;
+  files: PendingPatchFile[];
+  // All-or-nothing patches (e.g. a rename) can't be applied hunk by hunk
+  atomic?: boolean;
+}
+
+export interface ReviewedFile {
+  filename: string;
+  code: string;
+}
+
+interface PatchReviewProps {
+  patch: PendingPatch;
+  onApply: (files: ReviewedFile[], accepted: number, total: number) => void;
+  onCancel: () => void;
+}
+
+export default function PatchReview({ patch, onApply, onCancel }: PatchReviewProps) {
+  const fileHunks = useMemo(
+    () => patch.files.map(file => diffHunks(file.original, file.proposed)),
+    [patch]
+  );
+  const [accepted, setAccepted] = useState<boolean[][]>(() => fileHunks.map(hunks => hunks.map(() => true)));
+  const [mode, setMode] = useState<DiffMode>('unified');
+
+  const total = fileHunks.reduce((sum, hunks) => sum + hunks.length, 0);
+  const acceptedCount = accepted.reduce((sum, flags) => sum + flags.filter(Boolean).length, 0);
+
+  const toggleHunk = (fileIndex: number, hunkIndex: number) => {
+    setAccepted(prev => prev.map((flags, i) => i !== fileIndex ? flags : flags.map((value, j) => j === hunkIndex ? !value : value)));
+  };
+
+  const setAll = (value: boolean) => {
+    setAccepted(fileHunks.map(hunks => hunks.map(() => value)));
+  };
+
+  const handleApply = () => {
+    // Files with every hunk rejected are left out so they don't show up as changed
+    const reviewed = patch.files
+      .map((file, i) => ({ file, hunks: fileHunks[i], flags: accepted[i] }))
+      .filter(({ flags }) => flags.some(Boolean))
+      .map(({ file, hunks, flags }) => ({ filename: file.filename, code: applyHunks(file.original, hunks, flags) }));
+    onApply(reviewed, acceptedCount, total);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[1100]" onClick={onCancel}>
+      <div
+        className="bg-card border border-border rounded-lg shadow-xl w-full max-w-5xl mx-4 h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        data-testid="patch-review"
+      >
+        <div className="p-4 border-b border-border flex items-center justify-between bg-muted/30">
+          <div>
+            <h3 className="text-lg font-semibold">🔍 Review Patch</h3>
+            <p className="text-xs text-muted-foreground">
+              {patch.tool} · {patch.files.length} file{patch.files.length === 1 ? '' : 's'}: {patch.summary}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="px-2 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors"
+              onClick={() => setMode(m => m === 'unified' ? 'split' : 'unified')}
+              data-testid="button-patch-diff-mode"
+            >
+              🧩 {mode === 'unified' ? 'Side by Side' : 'Unified'}
+            </button>
+            {!patch.atomic && (
+              <>
+                <button
+                  className="px-2 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors"
+                  onClick={() => setAll(true)}
+                  data-testid="button-accept-all-hunks"
+                >
+                  ✅ Accept All
+                </button>
+                <button
+                  className="px-2 py-1 text-xs bg-muted hover:bg-muted/80 rounded transition-colors"
+                  onClick={() => setAll(false)}
+                  data-testid="button-reject-all-hunks"
+                >
+                  ✖ Reject All
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {total === 0 ? (
+            <div className="text-center py-8 text-muted-foreground text-sm">
+              The patch doesn't change anything
+            </div>
+          ) : (
+            patch.files.map((file, fileIndex) => fileHunks[fileIndex].length > 0 && (
+              <div key={file.filename} className="space-y-3" data-testid={`patch-file-${file.filename}`}>
+                <div className="text-sm font-semibold flex items-center gap-2">
+                  <i className="fas fa-file-code text-primary"></i>
+                  {file.filename}
+                </div>
+                {fileHunks[fileIndex].map((hunk, hunkIndex) => {
+                  const isAccepted = accepted[fileIndex][hunkIndex];
+                  return (
+                    <div
+                      key={hunkIndex}
+                      className={`code-window rounded-lg overflow-hidden ${isAccepted ? '' : 'opacity-50'}`}
+                      data-testid={`patch-hunk-${fileIndex}-${hunkIndex}`}
+                    >
+                      <div className="bg-muted/30 px-3 py-2 border-b border-border flex items-center justify-between text-xs">
+                        <span className="text-muted-foreground">Hunk {hunkIndex + 1} of {fileHunks[fileIndex].length}</span>
+                        {!patch.atomic && (
+                          <button
+                            className={`px-2 py-0.5 rounded transition-colors ${
+                              isAccepted ? 'bg-secondary/20 hover:bg-secondary/30 text-secondary' : 'bg-muted hover:bg-muted/80'
+                            }`}
+                            onClick={() => toggleHunk(fileIndex, hunkIndex)}
+                            data-testid={`button-toggle-hunk-${fileIndex}-${hunkIndex}`}
+                          >
+                            {isAccepted ? '✅ Accepted' : '✖ Rejected'}
+                          </button>
+                        )}
+                      </div>
+                      <div className="text-xs font-mono overflow-x-auto">
+                        <DiffHunkView hunk={hunk} mode={mode} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="p-4 border-t border-border flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {patch.atomic
+              ? `All ${total} hunk${total === 1 ? '' : 's'} apply together`
+              : `${acceptedCount} of ${total} hunk${total === 1 ? '' : 's'} selected`}
+          </span>
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-sm bg-muted hover:bg-muted/80 rounded transition-colors"
+              data-testid="button-cancel-patch"
+            >
+              Discard Patch
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={acceptedCount === 0}
+              className="btn-primary px-4 py-2 text-sm rounded disabled:opacity-50"
+              data-testid="button-apply-patch"
+            >
+              {patch.atomic ? 'Apply All' : 'Apply Selected'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
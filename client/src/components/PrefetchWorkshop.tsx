@@ -144,6 +144,7 @@ export default function PrefetchWorkshop({ files, onClose, sendMessage }: Prefet
           workshopId: 'prefetch-workshop',
           data: {
             code: modifiedContent,
+            fileId: htmlFile.id,
             summary: `Smart-inserted ${selectedResources.length} prefetch optimizations into <head> section`,
             changes: [{
               type: 'insert',
@@ -165,6 +166,7 @@ export default function PrefetchWorkshop({ files, onClose, sendMessage }: Prefet
           workshopId: 'prefetch-workshop',
           data: {
             code: modifiedContent,
+            fileId: htmlFile.id,
             summary: `Added ${selectedResources.length} prefetch optimizations after <head> tag`
           }
         });
@@ -211,6 +213,7 @@ export default function PrefetchWorkshop({ files, onClose, sendMessage }: Prefet
           workshopId: 'prefetch-workshop',
           data: {
             code: modifiedContent,
+            fileId: htmlFile.id,
             summary: `Removed prefetch/preconnect tag for ${resourceToDelete}`
           }
         });
@@ -0,0 +1,242 @@
+import { useState, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import type { ProjectVersion } from '@shared/schema';
+import type { ProjectFile } from '@/types/workshop';
+import type { ProjectVersionSummary } from '@/hooks/useProjectVersions';
+import DiffViewer from './DiffViewer';
+
+interface VersionHistoryProps {
+  projectId?: string;
+  versions: ProjectVersionSummary[];
+  files: ProjectFile[];
+  onRestore: (versionId: string) => void;
+  isRestoring: boolean;
+}
+
+type FileStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+// Compare target meaning the files open in the editor rather than a stored version
+const CURRENT = 'current';
+
+export default function VersionHistory({ projectId, versions, files, onRestore, isRestoring }: VersionHistoryProps) {
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [versionToRestore, setVersionToRestore] = useState<ProjectVersionSummary | null>(null);
+
+  return (
+    <div className="tool-panel p-5">
+      <div className="flex items-center gap-3 mb-4">
+        <i className="fas fa-history text-primary text-lg"></i>
+        <h2 className="text-lg font-semibold">Version History</h2>
+      </div>
+
+      {!projectId ? (
+        <div className="text-center py-4 text-muted-foreground text-sm">
+          Upload files to start tracking versions
+        </div>
+      ) : versions.length === 0 ? (
+        <div className="text-center py-4 text-muted-foreground text-sm">
+          No versions yet. Tool runs and workshop patches are recorded here.
+        </div>
+      ) : (
+        <div className="relative max-h-72 overflow-y-auto pl-4 border-l border-border space-y-3">
+          {versions.map((version, index) => (
+            <div key={version.id} className="relative" data-testid={`version-item-${version.id}`}>
+              <div className={`absolute -left-[21px] top-1.5 w-2.5 h-2.5 rounded-full ${index === 0 ? 'bg-primary' : 'bg-muted-foreground/50'}`}></div>
+              <div className="text-xs font-medium">{version.toolName}</div>
+              <div className="text-xs text-muted-foreground">{version.summary}</div>
+              <div className="flex items-center gap-2 mt-1">
+                <span className="text-xs text-muted-foreground">
+                  {version.createdAt ? formatDistanceToNow(new Date(version.createdAt), { addSuffix: true }) : ''}
+                  {' · '}{version.fileCount} file{version.fileCount === 1 ? '' : 's'}
+                </span>
+                <button
+                  className="ml-auto px-2 py-0.5 text-xs bg-muted hover:bg-muted/80 rounded transition-colors"
+                  onClick={() => setCompareId(version.id)}
+                  data-testid={`button-compare-version-${version.id}`}
+                >
+                  🧩 Compare
+                </button>
+                {index > 0 && (
+                  <button
+                    className="px-2 py-0.5 text-xs bg-secondary/20 hover:bg-secondary/30 text-secondary rounded transition-colors"
+                    onClick={() => setVersionToRestore(version)}
+                    disabled={isRestoring}
+                    data-testid={`button-restore-version-${version.id}`}
+                  >
+                    ↩ Restore
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {compareId && projectId && (
+        <VersionCompare
+          projectId={projectId}
+          versions={versions}
+          versionId={compareId}
+          files={files}
+          onClose={() => setCompareId(null)}
+        />
+      )}
+
+      {/* Restore Confirmation Dialog */}
+      {versionToRestore && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-card border border-border rounded-lg shadow-xl p-6 max-w-md mx-4">
+            <h3 className="text-lg font-semibold mb-4">↩ Restore Version</h3>
+            <p className="text-muted-foreground mb-6">
+              Replace all project files with this version? The current state stays in the history.
+              <br />
+              <span className="font-mono text-sm bg-muted p-1 rounded mt-2 block break-all">
+                {versionToRestore.toolName}: {versionToRestore.summary}
+              </span>
+            </p>
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={() => setVersionToRestore(null)}
+                className="px-4 py-2 text-sm bg-muted hover:bg-muted/80 rounded transition-colors"
+                data-testid="button-cancel-restore"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  onRestore(versionToRestore.id);
+                  setVersionToRestore(null);
+                }}
+                className="px-4 py-2 text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded transition-colors"
+                data-testid="button-confirm-restore"
+              >
+                Yes, Restore
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface VersionCompareProps {
+  projectId: string;
+  versions: ProjectVersionSummary[];
+  versionId: string;
+  files: ProjectFile[];
+  onClose: () => void;
+}
+
+const versionLabel = (version: ProjectVersionSummary) =>
+  `${version.toolName}: ${version.summary}${version.createdAt ? ` (${formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })})` : ''}`;
+
+// Diffs a stored version against the current files or any other version
+function VersionCompare({ projectId, versions, versionId, files, onClose }: VersionCompareProps) {
+  const [targetId, setTargetId] = useState<string>(CURRENT);
+  const { data: version, isLoading } = useQuery<ProjectVersion>({
+    queryKey: ['/api/projects', projectId, 'versions', versionId]
+  });
+  const { data: target, isLoading: isTargetLoading } = useQuery<ProjectVersion>({
+    queryKey: ['/api/projects', projectId, 'versions', targetId],
+    enabled: targetId !== CURRENT
+  });
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const targetFiles = targetId === CURRENT ? files : target?.files;
+
+  // Files are matched by name so re-uploads and restores still line up
+  const entries = useMemo(() => {
+    if (!version || !targetFiles) return [];
+    const names = Array.from(new Set([...version.files.map(f => f.name), ...targetFiles.map(f => f.name)]));
+    return names.map(name => {
+      const before = version.files.find(f => f.name === name);
+      const after = targetFiles.find(f => f.name === name);
+      const status: FileStatus = !before ? 'added'
+        : !after ? 'removed'
+        : before.content === after.content ? 'unchanged' : 'modified';
+      return { name, before, after, status };
+    });
+  }, [version, targetFiles]);
+
+  const selected = entries.find(e => e.name === selectedName)
+    ?? entries.find(e => e.status !== 'unchanged')
+    ?? entries[0];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-card border border-border rounded-lg shadow-xl w-full max-w-5xl mx-4 h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-border flex items-center justify-between bg-muted/30">
+          <div>
+            <h3 className="text-lg font-semibold">🧩 Compare Version</h3>
+            {version && (
+              <p className="text-xs text-muted-foreground">{version.toolName}: {version.summary}</p>
+            )}
+            <label className="flex items-center gap-2 mt-1 text-xs">
+              <span className="text-muted-foreground">Compare with</span>
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="px-2 py-1 text-xs border border-border rounded"
+                data-testid="select-compare-target"
+              >
+                <option value={CURRENT}>Current files</option>
+                {versions.filter(v => v.id !== versionId).map(v => (
+                  <option key={v.id} value={v.id}>{versionLabel(v)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <button
+            className="p-2 hover:bg-muted rounded-md transition-colors"
+            onClick={onClose}
+            data-testid="button-close-version-compare"
+          >
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        {isLoading || isTargetLoading || !version || !targetFiles ? (
+          <div className="flex-1 flex items-center justify-center text-muted-foreground">
+            <i className="fas fa-spinner fa-spin text-2xl"></i>
+          </div>
+        ) : (
+          <div className="flex-1 grid grid-cols-12 gap-4 p-4 overflow-hidden">
+            <div className="col-span-3 space-y-1 overflow-y-auto">
+              {entries.map(entry => (
+                <div
+                  key={entry.name}
+                  className={`p-2 rounded cursor-pointer text-xs flex items-center justify-between ${
+                    selected?.name === entry.name ? 'bg-secondary text-secondary-foreground' : 'bg-muted/30 hover:bg-muted/50'
+                  }`}
+                  onClick={() => setSelectedName(entry.name)}
+                  data-testid={`version-file-${entry.name}`}
+                >
+                  <span className="truncate">{entry.name}</span>
+                  <span className={`px-1.5 py-0.5 rounded diff-${entry.status === 'unchanged' ? 'modified' : entry.status}`}>
+                    {entry.status}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="col-span-9 code-window rounded-lg overflow-hidden flex flex-col">
+              <div className="bg-muted/30 px-3 py-2 border-b border-border grid grid-cols-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                <span>This Version</span>
+                <span>{targetId === CURRENT ? 'Current' : 'Compared Version'}</span>
+              </div>
+              <DiffViewer
+                original={selected?.before?.content ?? ''}
+                modified={selected?.after?.content ?? ''}
+                mode="split"
+                className="flex-1 py-2"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
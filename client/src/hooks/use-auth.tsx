@@ -0,0 +1,110 @@
+import { createContext, useContext, type ReactNode } from 'react';
+import { useQuery, useMutation, type UseMutationResult } from '@tanstack/react-query';
+import type { SafeUser } from '@shared/schema';
+import { getQueryFn, apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+type Credentials = {
+  username: string;
+  password: string;
+};
+
+type AuthContextType = {
+  user: SafeUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<SafeUser, Error, Credentials>;
+  registerMutation: UseMutationResult<SafeUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  // A 401 here just means "signed out", so resolve to null instead of throwing
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<SafeUser | null, Error>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest('POST', '/api/login', credentials);
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (user: SafeUser) => {
+      queryClient.setQueryData(['/api/user'], user);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Login Failed',
+        description: error.message,
+        variant: 'destructive'
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest('POST', '/api/register', credentials);
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (user: SafeUser) => {
+      queryClient.setQueryData(['/api/user'], user);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Registration Failed',
+        description: error.message,
+        variant: 'destructive'
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/logout');
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous user, then mark as signed out
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Logout Failed',
+        description: error.message,
+        variant: 'destructive'
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,74 @@
+import { useState, useCallback } from 'react';
+
+export interface HistoryEntry<T> {
+  id: string;
+  label: string;
+  snapshot: T;
+  timestamp: number;
+  // Entries sharing a merge key (e.g. typing) collapse into one while they keep coming
+  mergeKey?: string;
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+const MAX_ENTRIES = 100;
+const MERGE_WINDOW_MS = 1500;
+
+export function useEditHistory<T>() {
+  const [state, setState] = useState<HistoryState<T>>({ entries: [], index: -1 });
+
+  // `before` seeds the history the first time anything is recorded
+  const record = useCallback((label: string, before: T, after: T, mergeKey?: string) => {
+    setState(prev => {
+      const now = Date.now();
+      let entries = prev.entries.slice(0, prev.index + 1);
+      if (entries.length === 0) {
+        entries = [{ id: `${now}-start`, label: 'Session start', snapshot: before, timestamp: now }];
+      }
+
+      const top = entries[entries.length - 1];
+      if (mergeKey && top.mergeKey === mergeKey && now - top.timestamp < MERGE_WINDOW_MS) {
+        entries[entries.length - 1] = { ...top, snapshot: after, timestamp: now };
+        return { entries, index: entries.length - 1 };
+      }
+
+      entries.push({ id: `${now}-${entries.length}`, label, snapshot: after, timestamp: now, mergeKey });
+      const trimmed = entries.slice(-MAX_ENTRIES);
+      return { entries: trimmed, index: trimmed.length - 1 };
+    });
+  }, []);
+
+  // Moving through history returns the snapshot to restore; the caller applies it
+  const jumpTo = useCallback((index: number): T | undefined => {
+    const entry = state.entries[index];
+    if (!entry) return undefined;
+    // Moving away from the top ends any run of merged typing
+    setState(prev => ({
+      entries: prev.entries.map((e, i) => i === prev.index ? { ...e, mergeKey: undefined } : e),
+      index
+    }));
+    return entry.snapshot;
+  }, [state.entries]);
+
+  const undo = useCallback(() => jumpTo(state.index - 1), [jumpTo, state.index]);
+  const redo = useCallback(() => jumpTo(state.index + 1), [jumpTo, state.index]);
+
+  const clear = useCallback(() => {
+    setState({ entries: [], index: -1 });
+  }, []);
+
+  return {
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    record,
+    undo,
+    redo,
+    jumpTo,
+    clear
+  };
+}
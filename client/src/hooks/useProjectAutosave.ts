@@ -0,0 +1,173 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import type { Project } from '@shared/schema';
+import type { ProjectFile } from '@/types/workshop';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { VersionChange } from '@/hooks/useProjectVersions';
+
+export type AutosaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'conflict' | 'error';
+
+interface SavedFile {
+  snapshot: string;
+  revision: number;
+}
+
+// Revision is server-owned, so it never counts as a local edit
+function toSnapshot(file: ProjectFile): string {
+  const { revision: _revision, ...rest } = file;
+  return JSON.stringify(rest);
+}
+
+function ifMatch(saved: SavedFile): Record<string, string> {
+  return { 'If-Match': `"${saved.revision}"` };
+}
+
+function hasUnsavedChanges(files: ProjectFile[], saved: Map<string, SavedFile>): boolean {
+  if (files.length !== saved.size) return true;
+  return files.some(file => saved.get(file.id)?.snapshot !== toSnapshot(file));
+}
+
+// `onSaved` hears about the changes labelled with `labelNextSave` once a save has stored them
+export function useProjectAutosave(
+  projectId: string | undefined,
+  files: ProjectFile[],
+  onSaved?: (projectId: string, changes: VersionChange[]) => void,
+  delay = 1500
+) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const statusRef = useRef<AutosaveStatus>('idle');
+  // What the server already has, per file id; only the difference is sent
+  const saved = useRef<Map<string, SavedFile>>(new Map());
+  // Saves run one at a time: each diffs against what the previous one stored. A save due while
+  // another is running waits for it and then sends the latest files.
+  const latest = useRef({ projectId, files });
+  const inFlight = useRef(false);
+  const queued = useRef(false);
+  // Labels wait in `labelled` until the files they describe reach `latest`, then in `pendingChanges`
+  // until a save takes them
+  const labelled = useRef<VersionChange[]>([]);
+  const pendingChanges = useRef<VersionChange[]>([]);
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+
+  const { mutate } = useMutation({
+    mutationFn: async ({ id, files }: { id: string; files: ProjectFile[] }) => {
+      const base = `/api/projects/${id}/files`;
+      // Snapshot the client's copy: the server only differs in bookkeeping like size
+      const remember = (file: ProjectFile, res: Response) => res.json().then((stored: ProjectFile) => {
+        saved.current.set(file.id, { snapshot: toSnapshot(file), revision: stored.revision ?? 1 });
+      });
+
+      for (const [fileId, entry] of Array.from(saved.current.entries())) {
+        if (!files.some(f => f.id === fileId)) {
+          await apiRequest('DELETE', `${base}/${fileId}`, undefined, ifMatch(entry));
+          saved.current.delete(fileId);
+        }
+      }
+
+      for (const file of files) {
+        const entry = saved.current.get(file.id);
+        const { id: fileId, name, content, type } = file;
+        if (!entry) {
+          await remember(file, await apiRequest('POST', base, { id: fileId, name, content, type }));
+        } else if (entry.snapshot !== toSnapshot(file)) {
+          await remember(file, await apiRequest('PUT', `${base}/${fileId}`, { name, content, type }, ifMatch(entry)));
+        }
+      }
+    },
+    onSettled: (_data, _error, { id, files }) => {
+      // Keep the cached project in step so reopening it doesn't hydrate stale files
+      queryClient.setQueryData<Project>(['/api/projects', id], (old) => old && {
+        ...old,
+        files: files.filter(f => saved.current.has(f.id)).map(f => ({ ...f, revision: saved.current.get(f.id)!.revision }))
+      });
+    },
+  });
+
+  const updateStatus = useCallback((next: AutosaveStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const markSaved = useCallback((savedFiles: ProjectFile[]) => {
+    saved.current = new Map(savedFiles.map(file => [file.id, { snapshot: toSnapshot(file), revision: file.revision ?? 1 }]));
+    updateStatus('saved');
+  }, [updateStatus]);
+
+  const save = useCallback(() => {
+    if (inFlight.current) {
+      queued.current = true;
+      return;
+    }
+    const { projectId: id, files } = latest.current;
+    if (!id || statusRef.current === 'conflict') return;
+    if (!hasUnsavedChanges(files, saved.current)) {
+      pendingChanges.current = [];
+      updateStatus('saved');
+      return;
+    }
+
+    const changes = pendingChanges.current.splice(0);
+    inFlight.current = true;
+    updateStatus('saving');
+    const settle = (next: AutosaveStatus) => {
+      inFlight.current = false;
+      updateStatus(next);
+      if (queued.current) {
+        queued.current = false;
+        save();
+      }
+    };
+    mutate({ id, files }, {
+      onSuccess: () => {
+        if (changes.length > 0) onSavedRef.current?.(id, changes);
+        settle(hasUnsavedChanges(latest.current.files, saved.current) ? 'pending' : 'saved');
+      },
+      onError: (error: Error) => {
+        if (/^412:/.test(error.message)) {
+          // Nothing more is saved until the project is reopened, so there is nothing left to record
+          pendingChanges.current = [];
+          toast({
+            title: 'Save Conflict',
+            description: 'A file was changed elsewhere. Reopen the project to load the latest version.',
+            variant: 'destructive'
+          });
+          settle('conflict');
+        } else {
+          // The next save that stores these edits records them
+          pendingChanges.current.unshift(...changes);
+          settle('error');
+        }
+      }
+    });
+  }, [mutate, toast, updateStatus]);
+
+  useEffect(() => {
+    latest.current = { projectId, files };
+    pendingChanges.current.push(...labelled.current.splice(0));
+    if (!projectId) {
+      updateStatus('idle');
+      return;
+    }
+    // A conflict sticks until the project is reopened, so retries don't keep failing loudly
+    if (statusRef.current === 'conflict') return;
+    // Labelled edits that were undone before saving leave nothing to record
+    if (!hasUnsavedChanges(files, saved.current)) {
+      if (!inFlight.current) pendingChanges.current = [];
+      return;
+    }
+
+    if (!inFlight.current) updateStatus('pending');
+    const timer = setTimeout(save, delay);
+
+    return () => clearTimeout(timer);
+  }, [projectId, files, delay, save, updateStatus]);
+
+  const labelNextSave = useCallback((change: VersionChange) => {
+    labelled.current.push(change);
+  }, []);
+
+  return { status, markSaved, labelNextSave };
+}
@@ -0,0 +1,78 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import type { Project, ProjectVersion } from '@shared/schema';
+import type { AnalysisChange } from '@/types/workshop';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+export type ProjectVersionSummary = Omit<ProjectVersion, 'files'> & { fileCount: number };
+
+// A tool run can produce several hunk-level changes but is recorded as one version
+export type VersionChange = Pick<AnalysisChange, 'tool' | 'description'>;
+
+export function useProjectVersions(projectId: string | undefined) {
+  const { toast } = useToast();
+
+  const { data: versions = [] } = useQuery<ProjectVersionSummary[]>({
+    queryKey: ['/api/projects', projectId, 'versions'],
+    enabled: !!projectId
+  });
+
+  const recordMutation = useMutation({
+    // One at a time, so the timeline keeps the order the saves landed in
+    scope: { id: 'project-versions' },
+    mutationFn: async ({ id, changes }: { id: string; changes: VersionChange[] }) => {
+      // The server snapshots its stored files; several changes saved together share one version
+      await apiRequest('POST', `/api/projects/${id}/versions`, {
+        toolName: Array.from(new Set(changes.map(change => change.tool))).join(', '),
+        summary: changes.map(change => change.description).join('; ')
+      });
+      return id;
+    },
+    onSuccess: (id: string) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', id, 'versions'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Version Not Saved',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ id, versionId }: { id: string; versionId: string }) => {
+      const res = await apiRequest('POST', `/api/projects/${id}/versions/${versionId}/restore`);
+      return (await res.json()) as Project;
+    },
+    onSuccess: (project: Project) => {
+      queryClient.setQueryData(['/api/projects', project.id], project);
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', project.id, 'versions'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Restore Failed',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  // Called by autosave once the files carrying `changes` are stored
+  const recordVersion = useCallback((id: string, changes: VersionChange[]) => {
+    recordMutation.mutate({ id, changes });
+  }, [recordMutation.mutate]);
+
+  const restoreVersion = useCallback((versionId: string) => {
+    if (!projectId) return Promise.reject(new Error('No project is open'));
+    return restoreMutation.mutateAsync({ id: projectId, versionId });
+  }, [projectId, restoreMutation.mutateAsync]);
+
+  return {
+    versions,
+    recordVersion,
+    restoreVersion,
+    isRestoring: restoreMutation.isPending
+  };
+}
@@ -7,10 +7,15 @@ export function useWorkshopMessage(onMessage?: (message: WorkshopMessage) => voi
   const sendMessage = useCallback((iframe: HTMLIFrameElement | null, message: WorkshopMessage) => {
     if (iframe?.contentWindow) {
       iframe.contentWindow.postMessage(message, '*');
+    } else if (!iframe) {
+      // In-page workshops have no frame of their own; their messages go to the hub's listener
+      window.postMessage(message, window.location.origin);
     }
   }, []);
 
   const handleMessage = useCallback((event: MessageEvent<WorkshopMessage>) => {
+    // Only this page's own posts count; preview frames run project scripts that could forge patches
+    if (event.source !== window || event.origin !== window.location.origin) return;
     if (event.data && typeof event.data === 'object' && event.data.type) {
       messageQueue.current.push(event.data);
       onMessage?.(event.data);
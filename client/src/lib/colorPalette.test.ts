@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { ProjectFile } from '@/types/workshop';
+import { clusterColors, customPropertyTarget, extractColors, refactorToCustomProperties } from './colorPalette';
+import { parseCSSFromFiles } from './workshopUtils';
+
+const file = (name: string, content: string): ProjectFile => ({
+  id: name,
+  name,
+  content,
+  type: name.endsWith('.html') ? 'html' : 'css',
+  size: content.length
+});
+
+const link = (href: string) => `<link rel="stylesheet" href="${href}">`;
+
+function refactor(files: ProjectFile[]) {
+  const rules = parseCSSFromFiles(files);
+  // Colors only used by existing custom properties would just be redefined
+  const clusters = clusterColors(extractColors(rules), 0).filter(cluster => cluster.occurrences.some(o => !o.property.startsWith('--')));
+  return {
+    target: customPropertyTarget(files, rules, clusters),
+    edits: Object.fromEntries(refactorToCustomProperties(files, rules, clusters).map(edit => [edit.file.name, edit.code]))
+  };
+}
+
+describe('refactorToCustomProperties', () => {
+  it('adds to an existing :root and points literals at the new properties', () => {
+    const { edits } = refactor([file('a.css', ':root {\n  --brand: #111;\n}\n.a { color: #FF0000; }')]);
+
+    expect(edits['a.css']).toBe(':root {\n  --brand: #111;\n  --color-red: #FF0000;\n}\n.a { color: var(--color-red); }');
+  });
+
+  it('terminates a last declaration written without a semicolon', () => {
+    expect(refactor([file('a.css', ':root { --brand: #111 }\n.a { color: red; }')]).edits['a.css'])
+      .toBe(':root { --brand: #111;\n  --color-red: red; }\n.a { color: var(--color-red); }');
+    expect(refactor([file('a.css', ':root {\n  --brand: #111 /* dark */\n}\n.a { color: red; }')]).edits['a.css'])
+      .toBe(':root {\n  --brand: #111 /* dark */;\n  --color-red: red;\n}\n.a { color: var(--color-red); }');
+  });
+
+  it('puts a new :root after leading @charset and @import', () => {
+    expect(refactor([file('a.css', '@charset "utf-8";\n@import "x.css";\n.a { color: red; }')]).edits['a.css'])
+      .toBe('@charset "utf-8";\n@import "x.css";\n:root {\n  --color-red: red;\n}\n\n.a { color: var(--color-red); }');
+  });
+
+  it('defines the properties in a stylesheet every page using the colors links', () => {
+    const files = [
+      file('page.css', '.a { color: red; }'),
+      file('shared.css', 'body { margin: 0; }'),
+      file('index.html', `${link('shared.css')}${link('page.css')}`),
+      file('about.html', `${link('shared.css')}<style>.b { color: red; }</style>`)
+    ];
+    const { target, edits } = refactor(files);
+
+    expect(target).toMatchObject({ kind: 'file', file: { name: 'shared.css' } });
+    expect(edits['shared.css']).toBe(':root {\n  --color-red: red;\n}\n\nbody { margin: 0; }');
+  });
+
+  it('skips an existing :root that some page using the colors does not load', () => {
+    const files = [
+      file('theme.css', ':root { --brand: #111; }'),
+      file('site.css', '.a { color: red; }'),
+      file('index.html', link('site.css')),
+      file('themed.html', `${link('theme.css')}${link('site.css')}`)
+    ];
+
+    expect(refactor(files).target).toMatchObject({ kind: 'file', file: { name: 'site.css' } });
+  });
+
+  it('changes nothing when the pages share no stylesheet', () => {
+    const files = [
+      file('a.css', '.a { color: red; }'),
+      file('b.css', '.b { color: red; }'),
+      file('a.html', link('a.css')),
+      file('b.html', link('b.css'))
+    ];
+
+    expect(refactor(files)).toEqual({ target: null, edits: {} });
+  });
+});
@@ -0,0 +1,316 @@
+import type { ProjectFile } from '@/types/workshop';
+import { parseStylesheet, type CSSDeclaration, type CSSRule } from './cssParser';
+import { pageStylesheets } from './cssPreview';
+import { applyEdits, type TextEdit } from './cssStandardize';
+import type { ProjectCSSRule } from './workshopUtils';
+
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  // 0-1
+  a: number;
+}
+
+export interface ColorOccurrence {
+  rule: ProjectCSSRule;
+  property: string;
+  // As written, e.g. `#FFF` or `rgb(0 0 0 / 50%)`
+  text: string;
+  color: RGBA;
+  // File-absolute offsets of `text`
+  start: number;
+  end: number;
+}
+
+export interface PaletteColor {
+  text: string;
+  color: RGBA;
+  count: number;
+}
+
+export interface ColorCluster {
+  // The most used member; the rest are near-duplicates of it
+  representative: PaletteColor;
+  members: PaletteColor[];
+  occurrences: ColorOccurrence[];
+  count: number;
+  // Suggested custom property, e.g. `--color-blue-2`
+  name: string;
+}
+
+// CSS named colors (transparent and currentColor aren't palette entries)
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+  darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+  deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+  firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+  ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+  greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+  indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+  lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+  lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+  lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+  magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+  mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+  mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+  orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+  paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+  pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+  sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+  skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+  springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+  whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32'
+};
+
+// Named colors are only read from properties that take a color, so `font-family: Tan` stays a font
+const COLOR_PROPERTY = /^(color|background(-color|-image)?|border(-(top|right|bottom|left|block|inline)(-(start|end))?)?(-color)?|outline(-color)?|box-shadow|text-shadow|text-decoration(-color)?|text-emphasis(-color)?|column-rule(-color)?|caret-color|accent-color|fill|stroke|stop-color|flood-color|lighting-color|scrollbar-color|--.*)$/i;
+// Hex, functional notation, or a named color with the character before it (no lookbehind)
+const COLOR_LITERAL = new RegExp(
+  `(#(?:[\\da-f]{8}|[\\da-f]{6}|[\\da-f]{3,4})(?![\\w-]))|(\\b(?:rgba?|hsla?)\\([^()]*\\))|(^|[^\\w#.-])(${Object.keys(NAMED_COLORS).join('|')})(?![\\w-])`,
+  'gi'
+);
+// Strings and url(...) never hold a color we should touch
+const LITERAL = /"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|url\([^)]*\)/gi;
+
+const clamp = (n: number, max: number) => Math.min(max, Math.max(0, n));
+
+function parseHex(hex: string): RGBA {
+  const digits = hex.length <= 4 ? hex.split('').map(d => d + d).join('') : hex;
+  const channel = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+  return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+}
+
+// `rgb(1, 2, 3)`, `rgb(1 2 3 / 50%)`, `hsl(120deg 50% 50%)` and their `a` variants
+function parseFunction(name: string, args: string): RGBA | null {
+  const parts = args.replace('/', ' ').split(/[\s,]+/).filter(Boolean);
+  if (parts.length < 3 || parts.some(p => !/^-?[\d.]+(%|deg|turn|rad)?$/.test(p))) return null;
+  const num = (p: string) => parseFloat(p);
+  const alpha = parts[3] === undefined ? 1 : parts[3].endsWith('%') ? num(parts[3]) / 100 : num(parts[3]);
+
+  if (name.startsWith('rgb')) {
+    const channel = (p: string) => clamp(Math.round(p.endsWith('%') ? num(p) * 2.55 : num(p)), 255);
+    return { r: channel(parts[0]), g: channel(parts[1]), b: channel(parts[2]), a: clamp(alpha, 1) };
+  }
+
+  const hue = parts[0].endsWith('turn') ? num(parts[0]) * 360 : parts[0].endsWith('rad') ? num(parts[0]) * 180 / Math.PI : num(parts[0]);
+  const s = clamp(num(parts[1]) / 100, 1);
+  const l = clamp(num(parts[2]) / 100, 1);
+  const k = (n: number) => (n + (((hue % 360) + 360) % 360) / 30) % 12;
+  const f = (n: number) => l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return { r: Math.round(f(0) * 255), g: Math.round(f(8) * 255), b: Math.round(f(4) * 255), a: clamp(alpha, 1) };
+}
+
+export function parseColor(text: string): RGBA | null {
+  const lower = text.toLowerCase();
+  if (lower.startsWith('#')) return parseHex(lower.slice(1));
+  if (NAMED_COLORS[lower]) return parseHex(NAMED_COLORS[lower]);
+  const fn = /^(rgba?|hsla?)\((.*)\)$/.exec(lower);
+  return fn ? parseFunction(fn[1], fn[2]) : null;
+}
+
+// Weighted RGB ("redmean") distance, a cheap stand-in for perceptual difference; 0-~765
+export function colorDistance(x: RGBA, y: RGBA): number {
+  const mean = (x.r + y.r) / 2;
+  const dr = x.r - y.r;
+  const dg = x.g - y.g;
+  const db = x.b - y.b;
+  const rgb = Math.sqrt((2 + mean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - mean) / 256) * db * db);
+  return rgb + Math.abs(x.a - y.a) * 255;
+}
+
+export const toHex = ({ r, g, b, a }: RGBA) =>
+  '#' + [r, g, b, ...(a < 1 ? [Math.round(a * 255)] : [])].map(n => n.toString(16).padStart(2, '0')).join('');
+
+// Color literals in one declaration value, with offsets relative to the value
+function colorsInValue(value: string, property: string): Array<{ text: string; color: RGBA; offset: number }> {
+  const skipped: Array<[number, number]> = [];
+  let literal;
+  LITERAL.lastIndex = 0;
+  while ((literal = LITERAL.exec(value)) !== null) skipped.push([literal.index, literal.index + literal[0].length]);
+
+  const found: Array<{ text: string; color: RGBA; offset: number }> = [];
+  const namedAllowed = COLOR_PROPERTY.test(property);
+  let match;
+  COLOR_LITERAL.lastIndex = 0;
+  while ((match = COLOR_LITERAL.exec(value)) !== null) {
+    const text = match[1] || match[2] || match[4];
+    const offset = match.index + (match[4] ? match[3].length : 0);
+    if (skipped.some(([from, to]) => offset >= from && offset < to)) continue;
+    if (match[4] && !namedAllowed) continue;
+    const color = parseColor(text);
+    if (color) found.push({ text, color, offset });
+  }
+  return found;
+}
+
+// Every color literal in every rule's own declarations
+export function extractColors(rules: ProjectCSSRule[]): ColorOccurrence[] {
+  return rules.flatMap(rule => {
+    const node = parseStylesheet(rule.rawContent).children.find((child): child is CSSRule => child.type === 'rule');
+    if (!node) return [];
+    return node.children
+      .filter((child): child is CSSDeclaration => child.type === 'declaration')
+      .flatMap(decl => {
+        const source = rule.rawContent.slice(decl.range.start, decl.range.end);
+        const valueOffset = decl.range.start + source.indexOf(decl.value, source.indexOf(':') + 1);
+        return colorsInValue(decl.value, decl.property).map(found => ({
+          rule,
+          property: decl.property,
+          text: found.text,
+          color: found.color,
+          start: rule.start + valueOffset + found.offset,
+          end: rule.start + valueOffset + found.offset + found.text.length
+        }));
+      });
+  });
+}
+
+function hueName({ r, g, b }: RGBA): string {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max - min < 24) return max > 230 ? 'white' : min < 25 ? 'black' : 'gray';
+  const d = max - min;
+  const hue = max === r ? ((g - b) / d + 6) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  const names = ['red', 'orange', 'yellow', 'yellow', 'green', 'green', 'cyan', 'blue', 'blue', 'purple', 'pink', 'red'];
+  return names[Math.floor(hue * 2) % 12];
+}
+
+// Greedy clustering, most used colors first: each color joins the first cluster whose representative
+// is within `threshold`. A threshold of 0 only merges spellings of the same color (`#FFF`, `white`).
+export function clusterColors(occurrences: ColorOccurrence[], threshold: number): ColorCluster[] {
+  const byText = new Map<string, PaletteColor>();
+  occurrences.forEach(occurrence => {
+    const key = occurrence.text.toLowerCase().replace(/\s+/g, '');
+    const entry = byText.get(key);
+    if (entry) entry.count++;
+    else byText.set(key, { text: occurrence.text, color: occurrence.color, count: 1 });
+  });
+
+  const clusters: Array<Omit<ColorCluster, 'name'>> = [];
+  Array.from(byText.values())
+    .sort((a, b) => b.count - a.count)
+    .forEach(color => {
+      const cluster = clusters.find(c => colorDistance(c.representative.color, color.color) <= threshold);
+      if (cluster) {
+        cluster.members.push(color);
+        cluster.count += color.count;
+      } else {
+        clusters.push({ representative: color, members: [color], occurrences: [], count: color.count });
+      }
+    });
+
+  const memberOf = new Map<string, Omit<ColorCluster, 'name'>>();
+  clusters.forEach(cluster => cluster.members.forEach(m => memberOf.set(m.text.toLowerCase().replace(/\s+/g, ''), cluster)));
+  occurrences.forEach(o => memberOf.get(o.text.toLowerCase().replace(/\s+/g, ''))?.occurrences.push(o));
+
+  const used = new Map<string, number>();
+  return clusters
+    .sort((a, b) => b.count - a.count)
+    .map(cluster => {
+      const base = `--color-${hueName(cluster.representative.color)}`;
+      const n = (used.get(base) || 0) + 1;
+      used.set(base, n);
+      return { ...cluster, name: n === 1 ? base : `${base}-${n}` };
+    });
+}
+
+export const isValidCustomPropertyName = (name: string) => /^--[a-zA-Z_][\w-]*$/.test(name);
+
+// Where the new definitions go: an existing top-level `:root` rule, a stylesheet, or a page's `<style>` block
+export type RootTarget =
+  | { kind: 'rule'; rule: ProjectCSSRule }
+  | { kind: 'file'; file: ProjectFile };
+
+// Pages a file's rules apply to. A stylesheet no page links counts for every page, as in the preview.
+function pagesLoading(files: ProjectFile[], fileName: string): Set<string> {
+  const pages = files.filter(f => f.type === 'html');
+  const file = files.find(f => f.name === fileName);
+  if (file?.type === 'html') return new Set([fileName]);
+  const linking = pages.filter(page => pageStylesheets(files, page).some(sheet => sheet.type === 'file' && sheet.fileName === fileName));
+  return new Set((linking.length > 0 ? linking : pages).map(page => page.name));
+}
+
+// The first place every page using these colors loads: an existing `:root` rule, else a stylesheet, else a
+// `<style>` block. Null when no such place exists (e.g. two pages share no stylesheet).
+export function customPropertyTarget(files: ProjectFile[], rules: ProjectCSSRule[], clusters: ColorCluster[]): RootTarget | null {
+  const using = new Set(clusters.flatMap(cluster => cluster.occurrences
+    .filter(o => !o.property.startsWith('--'))
+    .flatMap(o => Array.from(pagesLoading(files, o.rule.fileName)))));
+  const reachesAll = (fileName: string) => {
+    const loaded = pagesLoading(files, fileName);
+    return Array.from(using).every(page => loaded.has(page));
+  };
+
+  const root = rules.find(rule => rule.selector === ':root' && rule.context.length === 0 && reachesAll(rule.fileName));
+  if (root) return { kind: 'rule', rule: root };
+  const file = files.find(f => f.type === 'css' && reachesAll(f.name))
+    || files.find(f => f.type === 'html' && /<style[^>]*>/i.test(f.content) && reachesAll(f.name));
+  return file ? { kind: 'file', file } : null;
+}
+
+// Declares each cluster once on `:root` (see customPropertyTarget; a new rule goes at the top of its file)
+// and points every literal at it. Custom property definitions keep their literals, so existing variables
+// aren't turned into references to the new ones. Nothing changes when there is no target.
+export function refactorToCustomProperties(
+  files: ProjectFile[],
+  rules: ProjectCSSRule[],
+  clusters: Array<ColorCluster>
+): Array<{ file: ProjectFile; code: string; count: number }> {
+  const target = customPropertyTarget(files, rules, clusters);
+  if (!target) return [];
+  const edits = new Map<string, TextEdit[]>();
+  const push = (fileName: string, edit: TextEdit) => edits.set(fileName, [...(edits.get(fileName) || []), edit]);
+
+  clusters.forEach(cluster => {
+    cluster.occurrences
+      .filter(o => !o.property.startsWith('--'))
+      .forEach(o => push(o.rule.fileName, { start: o.start, end: o.end, code: `var(${cluster.name})` }));
+  });
+
+  const definitions = clusters.map(cluster => `${cluster.name}: ${cluster.representative.text};`);
+  if (target.kind === 'rule') {
+    const root = target.rule;
+    const node = parseStylesheet(root.rawContent).children[0] as CSSRule;
+    const inner = root.rawContent.slice(node.blockRange.start, node.blockRange.end);
+    const indent = /\n([ \t]*)\S/.exec(inner)?.[1] ?? '  ';
+    const insertAt = root.start + node.blockRange.start + inner.trimEnd().length;
+    // The block's last declaration may omit its `;`, which would swallow the new ones into its value
+    const last = node.children[node.children.length - 1];
+    const text = last?.type === 'declaration' ? root.rawContent.slice(last.range.start, last.range.end).trimEnd() : '';
+    const missingAt = text && !text.endsWith(';') ? root.start + last.range.start + text.length : -1;
+    if (missingAt !== -1 && missingAt !== insertAt) push(root.fileName, { start: missingAt, end: missingAt, code: ';' });
+    const code = definitions.map(d => `\n${indent}${d}`).join('');
+    push(root.fileName, { start: insertAt, end: insertAt, code: (missingAt === insertAt ? ';' : '') + code });
+  } else {
+    const file = target.file;
+    const block = `:root {\n${definitions.map(d => `  ${d}`).join('\n')}\n}\n\n`;
+    let insertAt = 0;
+    if (file.type === 'css') {
+      // After any leading @charset/@import, which must stay first
+      const leading = /^(?:\s*(?:@charset|@import)[^;]*;)*\s*/i.exec(file.content);
+      insertAt = leading ? leading[0].length : 0;
+    } else {
+      const style = /<style[^>]*>\s*/i.exec(file.content)!;
+      insertAt = style.index + style[0].length;
+    }
+    push(file.name, { start: insertAt, end: insertAt, code: block });
+  }
+
+  return files.flatMap(file => {
+    const fileEdits = edits.get(file.name);
+    if (!fileEdits) return [];
+    const count = fileEdits.filter(edit => edit.code.startsWith('var(')).length;
+    return [{ file, code: applyEdits(file.content, fileEdits), count }];
+  });
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { cssBeautifyTool, type CSSBeautifyOptions } from './cssBeautifyTool';
+
+const beautify = async (code: string, options: Partial<CSSBeautifyOptions> = {}) => cssBeautifyTool.run(code, { options });
+
+describe('css-beautify', () => {
+  it('prints one declaration per line with a blank line between rules', async () => {
+    const result = await beautify('.a,.b>p{color:red;margin:0 auto}@media screen and ( max-width:600px ){.c{color:blue}}');
+
+    expect(result.code).toBe([
+      '.a,',
+      '.b > p {',
+      '  color: red;',
+      '  margin: 0 auto;',
+      '}',
+      '',
+      '@media screen and (max-width: 600px) {',
+      '  .c {',
+      '    color: blue;',
+      '  }',
+      '}',
+      ''
+    ].join('\n'));
+    expect(result.stats).toMatchObject({ rules: 2, declarations: 3 });
+  });
+
+  it('follows the indent, brace and selector options', async () => {
+    const { code } = await beautify('a:nth-child(2n+1),b{color:red}', {
+      indent: 'tab',
+      braceStyle: 'next-line',
+      selectorPerLine: false,
+      blankLineBetweenRules: false
+    });
+
+    expect(code).toBe('a:nth-child(2n+1), b\n{\n\tcolor: red;\n}\n');
+  });
+
+  it('keeps comments attached to the rule below and re-indents them', async () => {
+    const { code } = await beautify('/*! keep */\n/**\n   * Card\n   */\n.card{color:red}');
+
+    expect(code).toBe('/*! keep */\n/**\n * Card\n */\n.card {\n  color: red;\n}\n');
+  });
+
+  it('only rewrites values when asked, and never zero units inside calc() or flex', async () => {
+    const css = '.a{width:calc(0px + 100%);flex:1 1 0px;margin:0px;color:#FFFFFF}';
+
+    expect((await beautify(css)).code).toBe('.a {\n  width: calc(0px + 100%);\n  flex: 1 1 0px;\n  margin: 0px;\n  color: #FFFFFF;\n}\n');
+    expect((await beautify(css, { removeZeroUnits: true, shortenColors: true })).code)
+      .toBe('.a {\n  width: calc(0px + 100%);\n  flex: 1 1 0px;\n  margin: 0;\n  color: #fff;\n}\n');
+  });
+
+  it('leaves data URLs and strings intact', async () => {
+    const { code } = await beautify('.a{background:url(data:image/png;base64,AA==);content:"a ,  b"}');
+
+    expect(code).toBe('.a {\n  background: url(data:image/png;base64,AA==);\n  content: "a ,  b";\n}\n');
+  });
+
+  it('strips comments when asked, counting them', async () => {
+    const result = await beautify('/* a */.a{color:red /* b */}', { stripComments: true });
+
+    expect(result.code).toBe('.a {\n  color: red;\n}\n');
+    expect(result.stats.commentsRemoved).toBe(2);
+  });
+
+  it('refuses to touch a stylesheet with unbalanced braces', async () => {
+    const result = await beautify('.a{color:red}}');
+
+    expect(result.code).toBe('.a{color:red}}');
+    expect(result.warnings).toEqual(['css-beautify: Unexpected `}`.']);
+  });
+});
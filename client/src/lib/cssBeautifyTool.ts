@@ -0,0 +1,198 @@
+import type { ToolModule } from '@/types/workshop';
+import {
+  parseCSSBlocks,
+  maskCSS,
+  optimizeValue,
+  splitDeclaration,
+  byteStats,
+  formatBytes,
+  isCSSFilename,
+  type ByteStats,
+  type CSSBlockNode
+} from './cssMinifyTool';
+
+export interface CSSBeautifyOptions {
+  // Spaces per level, or 'tab'
+  indent: number | 'tab';
+  // `a {` or `a\n{`
+  braceStyle: 'same-line' | 'next-line';
+  // `a,\nb {` instead of `a, b {`
+  selectorPerLine: boolean;
+  blankLineBetweenRules: boolean;
+  stripComments: boolean;
+  // The minifier's value rewrites, off by default so beautifying only changes layout
+  removeZeroUnits: boolean;
+  shortenColors: boolean;
+}
+
+export const DEFAULT_BEAUTIFY_OPTIONS: CSSBeautifyOptions = {
+  indent: 2,
+  braceStyle: 'same-line',
+  selectorPerLine: true,
+  blankLineBetweenRules: true,
+  stripComments: false,
+  removeZeroUnits: false,
+  shortenColors: false
+};
+
+export interface CSSBeautifyStats extends ByteStats {
+  rules: number;
+  declarations: number;
+  commentsRemoved: number;
+  zeroUnitsRemoved: number;
+  colorsShortened: number;
+}
+
+// Commas outside parentheses, so `:is(a, b)` stays whole
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(' || text[i] === '[') depth++;
+    else if (text[i] === ')' || text[i] === ']') depth--;
+    else if (text[i] === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function beautifySelector(selector: string, options: CSSBeautifyOptions, indent: string): string {
+  const selectors = splitTopLevel(selector.replace(/\s+/g, ' ')).map(part => part
+    // Combinators get a space each side; `~=` and `+`/`-` inside `:nth-child(2n + 1)` are left alone
+    .replace(/\s*([>~+])(?!=)\s*(?![^(]*\))/g, ' $1 ')
+    .replace(/\s*([~|^$*]?=)\s*/g, '$1')
+    .replace(/([[(])\s+/g, '$1')
+    .replace(/\s+([\])])/g, '$1')
+    .trim());
+  return selectors.join(options.selectorPerLine ? `,\n${indent}` : ', ');
+}
+
+// `@media screen and ( max-width:600px )` -> `@media screen and (max-width: 600px)`
+function beautifyAtPrelude(prelude: string): string {
+  return prelude
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\(([^()]*)\)/g, (_, inner: string) => `(${inner.trim().replace(/\s*:\s*/g, ': ')})`);
+}
+
+function beautifyValue(value: string): string {
+  return value
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\(\s+/g, '(')
+    .replace(/\s+\)/g, ')');
+}
+
+function beautifyStatement(text: string, options: CSSBeautifyOptions, stats: CSSBeautifyStats): string {
+  const { masked, restore } = maskCSS(text, !options.stripComments);
+  const declaration = splitDeclaration(masked);
+  if (!declaration) return `${restore(masked.replace(/\s+/g, ' ').trim())};`;
+  const { property, important } = declaration;
+  const value = property.startsWith('--')
+    ? declaration.value.trim()
+    : optimizeValue(property, beautifyValue(declaration.value), stats, { zeroUnits: options.removeZeroUnits, colors: options.shortenColors });
+  return `${property}: ${restore(value)}${important ? ' !important' : ''};`;
+}
+
+function beautifyNodes(nodes: CSSBlockNode[], options: CSSBeautifyOptions, stats: CSSBeautifyStats, depth: number): string[] {
+  const unit = options.indent === 'tab' ? '\t' : ' '.repeat(options.indent);
+  const indent = unit.repeat(depth);
+  const lines: string[] = [];
+  // A comment directly above a rule stays attached to it
+  let afterComment = false;
+
+  nodes.forEach(node => {
+    if (node.kind === 'comment') {
+      if (options.stripComments) {
+        stats.commentsRemoved++;
+        return;
+      }
+      // Re-indent continuation lines along with the comment's first line
+      const commentLines = node.text.split('\n').map(line => line.trim());
+      lines.push(...commentLines.map((line, j) => indent + (j > 0 && line.startsWith('*') ? ' ' : '') + line));
+      afterComment = true;
+      return;
+    }
+    if (node.kind === 'statement') {
+      if (options.stripComments) stats.commentsRemoved += (node.text.match(/\/\*/g) || []).length;
+      if (!node.text.startsWith('@')) stats.declarations++;
+      lines.push(indent + beautifyStatement(node.text, options, stats));
+      afterComment = false;
+      return;
+    }
+
+    if (options.blankLineBetweenRules && lines.length > 0 && !afterComment) lines.push('');
+    afterComment = false;
+
+    const { masked, restore } = maskCSS(node.prelude, !options.stripComments);
+    if (options.stripComments) stats.commentsRemoved += (node.prelude.match(/\/\*/g) || []).length;
+    const prelude = restore(node.prelude.startsWith('@')
+      ? beautifyAtPrelude(masked)
+      : beautifySelector(masked, options, indent));
+    if (!node.prelude.startsWith('@')) stats.rules++;
+
+    const body = beautifyNodes(node.children, options, stats, depth + 1);
+    if (body.length === 0) {
+      lines.push(`${indent}${prelude} {}`);
+      return;
+    }
+    lines.push(options.braceStyle === 'next-line' ? `${indent}${prelude}\n${indent}{` : `${indent}${prelude} {`);
+    lines.push(...body);
+    lines.push(`${indent}}`);
+  });
+  return lines;
+}
+
+async function run(code: string, ctx?: any) {
+  const options: CSSBeautifyOptions = { ...DEFAULT_BEAUTIFY_OPTIONS, ...(ctx?.options || {}) };
+  const emptyStats: CSSBeautifyStats = { ...byteStats('', ''), rules: 0, declarations: 0, commentsRemoved: 0, zeroUnitsRemoved: 0, colorsShortened: 0 };
+  if (typeof code !== 'string') {
+    return { code: '', summary: 'Input was not a string.', stats: emptyStats, warnings: ['css-beautify: input code must be a string.'] };
+  }
+  if (!isCSSFilename(ctx?.filename)) {
+    return {
+      code,
+      summary: 'Only .css files can be beautified.',
+      stats: { ...emptyStats, ...byteStats(code, code) },
+      warnings: [`css-beautify: ${ctx.filename} is not a CSS file; it was left unchanged.`]
+    };
+  }
+
+  const { nodes, error } = parseCSSBlocks(code);
+  if (error) {
+    return {
+      code,
+      summary: 'The stylesheet has unbalanced braces, so it was left unchanged.',
+      stats: { ...emptyStats, ...byteStats(code, code) },
+      warnings: [`css-beautify: ${error}.`]
+    };
+  }
+
+  const stats = { ...emptyStats };
+  const lines = beautifyNodes(nodes, options, stats, 0);
+  const beautified = lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  Object.assign(stats, byteStats(code, beautified));
+
+  const size = stats.bytesSaved >= 0
+    ? `saved ${formatBytes(stats.bytesSaved)}`
+    : `grew by ${formatBytes(stats.bytesSaved)}`;
+  const parts = [`reformatted ${stats.rules} rule${stats.rules === 1 ? '' : 's'} and ${stats.declarations} declaration${stats.declarations === 1 ? '' : 's'}`, `${formatBytes(stats.originalBytes)} → ${formatBytes(stats.outputBytes)} (${size})`];
+  if (stats.commentsRemoved) parts.push(`stripped ${stats.commentsRemoved} comment${stats.commentsRemoved > 1 ? 's' : ''}`);
+  if (stats.zeroUnitsRemoved) parts.push(`dropped ${stats.zeroUnitsRemoved} zero unit${stats.zeroUnitsRemoved > 1 ? 's' : ''}`);
+  if (stats.colorsShortened) parts.push(`shortened ${stats.colorsShortened} color${stats.colorsShortened > 1 ? 's' : ''}`);
+
+  return { code: beautified, summary: parts.join(', '), stats, warnings: [] };
+}
+
+export const cssBeautifyTool: ToolModule = {
+  name: 'css-beautify',
+  version: '1.0.0',
+  description: 'Reprints CSS one declaration per line with configurable indentation, brace placement and selector wrapping; can also strip comments, drop zero units and shorten colors.',
+  run: run
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type { ProjectFile } from '@/types/workshop';
+import { analyzeCascade, mergeDuplicateGroup, removeDeadDeclarations } from './cssCascade';
+import { parseCSSFromFiles } from './workshopUtils';
+
+const file = (name: string, content: string): ProjectFile => ({
+  id: name,
+  name,
+  content,
+  type: name.endsWith('.html') ? 'html' : name.endsWith('.js') ? 'js' : 'css',
+  size: content.length
+});
+
+const page = (name: string, head: string) => file(name, `<!DOCTYPE html>\n<html>\n<head>\n${head}\n</head>\n<body></body>\n</html>`);
+
+const link = (href: string) => `<link rel="stylesheet" href="${href}">`;
+
+const deadIn = (files: ProjectFile[]) =>
+  analyzeCascade(parseCSSFromFiles(files), files).dead.map(({ rule, declaration }) => `${rule.rule.fileName} ${declaration.property}: ${declaration.value}`);
+
+describe('dead declarations', () => {
+  it('keeps a declaration that wins on a page not loading the override', () => {
+    const files = [
+      file('a.css', '.btn { color: red; }'),
+      file('b.css', '.btn { color: blue; }'),
+      page('index.html', link('a.css')),
+      page('both.html', `${link('a.css')}\n${link('b.css')}`)
+    ];
+
+    expect(deadIn(files)).toEqual([]);
+    expect(removeDeadDeclarations(files, analyzeCascade(parseCSSFromFiles(files), files).dead)).toEqual([]);
+  });
+
+  it('reports a declaration that loses on every page loading it', () => {
+    const files = [
+      file('a.css', '.btn { color: red; }'),
+      file('b.css', '.btn { color: blue; }'),
+      page('index.html', `${link('a.css')}\n${link('css/b.css?v=2')}`),
+      page('about.html', `${link('./a.css')}\n${link('b.css')}`)
+    ];
+
+    expect(deadIn(files)).toEqual(['a.css color: red']);
+  });
+
+  it('follows each page\'s link order rather than the file list', () => {
+    const files = [
+      file('a.css', '.btn { color: red; }'),
+      file('b.css', '.btn { color: blue; }'),
+      page('index.html', `${link('b.css')}\n${link('a.css')}`)
+    ];
+
+    expect(deadIn(files)).toEqual(['b.css color: blue']);
+  });
+
+  it('orders <style> blocks among the stylesheets around them', () => {
+    const files = [
+      file('a.css', '.btn { color: red; }'),
+      page('index.html', `<style>.btn { color: green; }</style>\n${link('a.css')}`)
+    ];
+
+    expect(deadIn(files)).toEqual(['index.html color: green']);
+  });
+
+  it('checks a stylesheet no page links against itself only', () => {
+    const files = [
+      file('a.css', '.btn { color: red; }'),
+      file('extra.css', '.btn { color: blue; color: navy; }'),
+      page('index.html', link('a.css'))
+    ];
+
+    expect(deadIn(files)).toEqual(['extra.css color: blue']);
+  });
+
+  it('uses the project order when there are no pages', () => {
+    const files = [file('a.css', '.btn { color: red; }'), file('b.css', '.btn { color: blue; }')];
+
+    expect(deadIn(files)).toEqual(['a.css color: red']);
+  });
+});
+
+describe('merging duplicates', () => {
+  const analyze = (files: ProjectFile[]) => analyzeCascade(parseCSSFromFiles(files), files);
+
+  it('refuses to merge copies that different pages load', () => {
+    const files = [
+      file('a.css', '.btn { color: red; padding: 1px; }'),
+      file('b.css', '.btn { color: blue; }'),
+      page('index.html', link('a.css')),
+      page('both.html', `${link('a.css')}\n${link('b.css')}`)
+    ];
+    const report = analyze(files);
+
+    expect(report.duplicates).toHaveLength(1);
+    expect(report.duplicates[0].conflict).toBe('Loaded by different pages: a.css:1 by index.html, both.html; b.css:1 by both.html');
+    expect(mergeDuplicateGroup(files, report.duplicates[0], report.dead)).toEqual([]);
+  });
+
+  it('refuses to merge copies a page loads in the other order', () => {
+    const files = [
+      file('a.css', '.btn { color: red; }'),
+      file('b.css', '.btn { padding: 1px; }'),
+      page('index.html', `${link('a.css')}\n${link('b.css')}`),
+      page('about.html', `${link('b.css')}\n${link('a.css')}`)
+    ];
+
+    expect(analyze(files).duplicates[0].conflict).toBe('about.html loads these copies in a different order');
+  });
+
+  it('merges copies every page loads together, warning about rules in between', () => {
+    const files = [
+      file('a.css', '.btn { color: red; padding: 1px; }'),
+      file('b.css', 'button { padding: 2px; }\n.btn { color: blue; }'),
+      page('index.html', `${link('a.css')}\n${link('b.css')}`)
+    ];
+    const report = analyze(files);
+    const [group] = report.duplicates;
+
+    expect(group.conflict).toBeNull();
+    expect(group.reorderRisks.map(risk => `${risk.rule.rule.selector} ${risk.property}`)).toEqual(['button padding']);
+    expect(mergeDuplicateGroup(files, group, report.dead).map(edit => [edit.file.name, edit.code])).toEqual([
+      ['a.css', ''],
+      ['b.css', 'button { padding: 2px; }\n.btn { padding: 1px; color: blue; }']
+    ]);
+  });
+});
@@ -0,0 +1,406 @@
+import type { ProjectFile } from '@/types/workshop';
+import { parseStylesheet, type CSSDeclaration, type CSSRule } from './cssParser';
+import { pageStylesheets } from './cssPreview';
+import { applyEdits, FALLBACK_VALUE, type TextEdit } from './cssStandardize';
+import type { ProjectCSSRule } from './workshopUtils';
+
+// (ids, classes/attributes/pseudo-classes, types/pseudo-elements)
+export type Specificity = [number, number, number];
+
+export interface CascadeDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+  // File-absolute offsets of the declaration, `;` included
+  start: number;
+  end: number;
+}
+
+export interface CascadeRule {
+  rule: ProjectCSSRule;
+  // Position in the project-wide source order (CSS files first, then `<style>` blocks); for listing only,
+  // overrides are decided per page
+  order: number;
+  // One per selector in a selector list
+  specificity: Specificity[];
+  declarations: CascadeDeclaration[];
+}
+
+export interface DuplicateGroup {
+  selector: string;
+  context: string[];
+  rules: CascadeRule[];
+  // Properties an earlier duplicate would be moved past another rule that also sets them, on any page
+  reorderRisks: Array<{ property: string; rule: CascadeRule }>;
+  // Why merging would change some page's styling (the copies aren't loaded together, or not in this order)
+  conflict: string | null;
+}
+
+// Loses on every page that loads it; `overriddenBy` is what beats it on the first of those
+export interface DeadDeclaration {
+  rule: CascadeRule;
+  declaration: CascadeDeclaration;
+  overriddenBy: { rule: CascadeRule; declaration: CascadeDeclaration };
+}
+
+export interface ImportantUsage {
+  rule: CascadeRule;
+  declaration: CascadeDeclaration;
+  // Other `!important` declarations of the same property anywhere in the project
+  competing: number;
+}
+
+export interface CascadeReport {
+  rules: CascadeRule[];
+  duplicates: DuplicateGroup[];
+  dead: DeadDeclaration[];
+  important: ImportantUsage[];
+}
+
+export interface CascadeFileEdit {
+  file: ProjectFile;
+  code: string;
+}
+
+const LEGACY_PSEUDO_ELEMENTS = ['before', 'after', 'first-line', 'first-letter'];
+const IDENT = /^-?(?:[_a-zA-Z\u00a0-\uffff]|\\.)(?:[\w\u00a0-\uffff-]|\\.)*/;
+
+export const formatSpecificity = (specificity: Specificity) => `(${specificity.join(',')})`;
+
+export function compareSpecificity(a: Specificity, b: Specificity): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+const maxSpecificity = (list: Specificity[]): Specificity =>
+  list.reduce<Specificity>((max, s) => compareSpecificity(s, max) > 0 ? s : max, [0, 0, 0]);
+
+// Index of the bracket closing the one at `open`, skipping strings
+function closingBracket(text: string, open: number): number {
+  const close = text[open] === '(' ? ')' : ']';
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '"' || ch === "'") {
+      const end = text.indexOf(ch, i + 1);
+      i = end === -1 ? text.length : end;
+    } else if (ch === text[open]) {
+      depth++;
+    } else if (ch === close && --depth === 0) {
+      return i;
+    }
+  }
+  return text.length;
+}
+
+// Splits `a, b:is(c, d)` at top-level commas only
+export function splitSelectorList(selector: string): string[] {
+  const parts: string[] = [];
+  let from = 0;
+  for (let i = 0; i < selector.length; i++) {
+    const ch = selector[i];
+    if (ch === '(' || ch === '[') i = closingBracket(selector, i);
+    else if (ch === '\\') i++;
+    else if (ch === ',') {
+      parts.push(selector.slice(from, i).trim());
+      from = i + 1;
+    }
+  }
+  parts.push(selector.slice(from).trim());
+  return parts.filter(Boolean);
+}
+
+// Specificity of one complex selector, per Selectors Level 4 (`:is`/`:not`/`:has` take their
+// most specific argument, `:where` counts nothing)
+export function selectorSpecificity(selector: string): Specificity {
+  const result: Specificity = [0, 0, 0];
+  const add = (s: Specificity) => s.forEach((n, i) => { result[i] += n; });
+  let i = 0;
+
+  while (i < selector.length) {
+    const ch = selector[i];
+    const ident = IDENT.exec(selector.slice(i + (ch === '#' || ch === '.' ? 1 : 0)));
+
+    if (ch === '#' && ident) {
+      result[0]++;
+      i += 1 + ident[0].length;
+    } else if (ch === '.' && ident) {
+      result[1]++;
+      i += 1 + ident[0].length;
+    } else if (ch === '[') {
+      result[1]++;
+      i = closingBracket(selector, i) + 1;
+    } else if (ch === ':') {
+      const isElement = selector[i + 1] === ':';
+      const nameStart = i + (isElement ? 2 : 1);
+      const name = (IDENT.exec(selector.slice(nameStart)) || [''])[0];
+      let next = nameStart + name.length;
+      let args: string | null = null;
+      if (selector[next] === '(') {
+        const close = closingBracket(selector, next);
+        args = selector.slice(next + 1, close);
+        next = close + 1;
+      }
+      const lower = name.toLowerCase();
+
+      if (isElement || LEGACY_PSEUDO_ELEMENTS.includes(lower)) {
+        result[2]++;
+      } else if (lower === 'where') {
+        // Contributes nothing
+      } else if ((lower === 'is' || lower === 'not' || lower === 'has' || lower === 'matches') && args !== null) {
+        add(maxSpecificity(splitSelectorList(args).map(selectorSpecificity)));
+      } else if ((lower === 'nth-child' || lower === 'nth-last-child') && args !== null && /\sof\s/i.test(args)) {
+        result[1]++;
+        add(maxSpecificity(splitSelectorList(args.replace(/^[\s\S]*?\sof\s/i, '')).map(selectorSpecificity)));
+      } else {
+        result[1]++;
+      }
+      i = next;
+    } else if (ident && !/[\s>+~*&|]/.test(ch)) {
+      // Type selector (keyframe selectors like `from` land here too and never compete)
+      result[2]++;
+      i += ident[0].length;
+    } else {
+      i++;
+    }
+  }
+  return result;
+}
+
+export const normalizeSelector = (selector: string) =>
+  selector.replace(/\s+/g, ' ').replace(/\s*([>+~,])\s*/g, '$1').trim();
+
+function toCascadeRule(rule: ProjectCSSRule, order: number): CascadeRule {
+  const node = parseStylesheet(rule.rawContent).children.find((child): child is CSSRule => child.type === 'rule');
+  const declarations = (node?.children || [])
+    .filter((child): child is CSSDeclaration => child.type === 'declaration')
+    .map(d => ({
+      property: d.property.toLowerCase(),
+      value: d.value,
+      important: d.important,
+      start: rule.start + d.range.start,
+      end: rule.start + d.range.end
+    }));
+  return { rule, order, specificity: splitSelectorList(rule.selector).map(selectorSpecificity), declarations };
+}
+
+// `winner` applies wherever `loser` does when its at-rule conditions are a subset of the loser's
+const appliesWherever = (winner: CascadeRule, loser: CascadeRule) =>
+  winner.rule.context.every(label => loser.rule.context.includes(label));
+
+// Where each rule a page loads sits in that page's cascade
+interface PageOrder {
+  name: string;
+  position: Map<CascadeRule, number>;
+}
+
+function numberRules(name: string, sheets: CascadeRule[][]): PageOrder {
+  const position = new Map<CascadeRule, number>();
+  // A stylesheet linked twice counts where it was last linked
+  sheets.flat().forEach((rule, index) => position.set(rule, index));
+  return { name, position };
+}
+
+// One order per HTML page, from its `<link>`s and `<style>` blocks in document order, plus one per stylesheet
+// no page links. Without pages the project-wide order stands in for the single page.
+function pageOrders(rules: CascadeRule[], files: ProjectFile[]): PageOrder[] {
+  const pages = files.filter(f => f.type === 'html');
+  if (pages.length === 0) return [numberRules('the project', [rules])];
+
+  const linked = new Set<string>();
+  const orders = pages.map(page => numberRules(page.name, pageStylesheets(files, page).map(sheet => {
+    if (sheet.type === 'file') {
+      linked.add(sheet.fileName);
+      return rules.filter(r => r.rule.fileName === sheet.fileName);
+    }
+    return rules.filter(r => r.rule.fileName === page.name && r.rule.start >= sheet.start && r.rule.start < sheet.end);
+  })));
+  const unlinked = files
+    .filter(f => f.type === 'css' && !linked.has(f.name))
+    .map(f => numberRules(f.name, [rules.filter(r => r.rule.fileName === f.name)]));
+  return [...orders, ...unlinked];
+}
+
+// Does `over` always beat `under` on this page? Both are on the same selector; fallbacks are never dead
+function overrides(
+  over: { rule: CascadeRule; declaration: CascadeDeclaration },
+  under: { rule: CascadeRule; declaration: CascadeDeclaration },
+  page: PageOrder
+): boolean {
+  const a = under.declaration;
+  const b = over.declaration;
+  if (a === b || a.property !== b.property || !page.position.has(over.rule) || !appliesWherever(over.rule, under.rule)) return false;
+
+  const later = page.position.get(over.rule)! > page.position.get(under.rule)! || (over.rule === under.rule && b.start > a.start);
+  if (b.important !== a.important) return b.important;
+  if (!later) return false;
+  // Custom properties have no parse-time fallback: the last one always wins
+  return a.property.startsWith('--') || a.value === b.value || !FALLBACK_VALUE.test(`${a.value} ${b.value}`);
+}
+
+// `candidates` are the rules sharing this rule's selector
+function findOverride(candidates: CascadeRule[], rule: CascadeRule, declaration: CascadeDeclaration, page: PageOrder) {
+  for (const other of candidates) {
+    for (const candidate of other.declarations) {
+      const over = { rule: other, declaration: candidate };
+      if (overrides(over, { rule, declaration }, page)) return over;
+    }
+  }
+  return null;
+}
+
+const location = (rule: CascadeRule) => `${rule.rule.fileName}:${rule.rule.lineNumber}`;
+
+// Folding copies into the last one only keeps every page's styling when each page loads all of them, in that order
+function duplicateConflict(group: CascadeRule[], loadedBy: PageOrder[][]): string | null {
+  const names = loadedBy.map(pages => pages.map(page => page.name).join(', ') || 'no page');
+  if (names.some(list => list !== names[0])) {
+    return `Loaded by different pages: ${group.map((rule, i) => `${location(rule)} by ${names[i]}`).join('; ')}`;
+  }
+  const reordered = loadedBy[0].find(page => group.some((rule, i) => i > 0 && page.position.get(rule)! < page.position.get(group[i - 1])!));
+  return reordered ? `${reordered.name} loads these copies in a different order` : null;
+}
+
+// Specificity, source order, duplicates, dead declarations and `!important` across every rule;
+// `files` tells which pages load which rules
+export function analyzeCascade(projectRules: ProjectCSSRule[], files: ProjectFile[]): CascadeReport {
+  const rules = projectRules.map(toCascadeRule);
+  const pages = pageOrders(rules, files);
+
+  const groups = new Map<string, CascadeRule[]>();
+  const bySelector = new Map<string, CascadeRule[]>();
+  rules.forEach(rule => {
+    const selector = normalizeSelector(rule.rule.selector);
+    const key = `${rule.rule.context.join('|')}|${selector}`;
+    groups.set(key, [...(groups.get(key) || []), rule]);
+    bySelector.set(selector, [...(bySelector.get(selector) || []), rule]);
+  });
+
+  const dead: DeadDeclaration[] = [];
+  rules.forEach(rule => {
+    const loadedOn = pages.filter(page => page.position.has(rule));
+    const candidates = bySelector.get(normalizeSelector(rule.rule.selector)) || [];
+    rule.declarations.forEach(declaration => {
+      const found = loadedOn.map(page => findOverride(candidates, rule, declaration, page));
+      if (found.length > 0 && found.every(Boolean)) dead.push({ rule, declaration, overriddenBy: found[0]! });
+    });
+  });
+  const deadSet = new Set(dead.map(entry => entry.declaration));
+
+  const duplicates = Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => {
+      const last = group[group.length - 1];
+      const loadedBy = group.map(rule => pages.filter(page => page.position.has(rule)));
+      const conflict = duplicateConflict(group, loadedBy);
+
+      const moved = new Set(group.slice(0, -1).flatMap(r => r.declarations.filter(d => !deadSet.has(d)).map(d => d.property)));
+      const between = new Set(loadedBy[0].flatMap(page => rules.filter(r => {
+        const at = page.position.get(r);
+        return at !== undefined && at > page.position.get(group[0])! && at < page.position.get(last)! && !group.includes(r);
+      })));
+      const reorderRisks = rules
+        .filter(r => between.has(r))
+        .flatMap(r => r.declarations.filter(d => moved.has(d.property)).map(d => ({ property: d.property, rule: r })));
+      return { selector: group[0].rule.selector, context: group[0].rule.context, rules: group, reorderRisks, conflict };
+    });
+
+  const allImportant = rules.flatMap(rule => rule.declarations.filter(d => d.important).map(declaration => ({ rule, declaration })));
+  const important = allImportant.map(usage => ({
+    ...usage,
+    competing: allImportant.filter(other => other !== usage && other.declaration.property === usage.declaration.property).length
+  }));
+
+  return { rules, duplicates, dead, important };
+}
+
+// Removes [start, end) and, when that leaves the line blank, the whole line
+export function removalEdit(content: string, start: number, end: number): TextEdit {
+  let lineStart = start;
+  while (lineStart > 0 && (content[lineStart - 1] === ' ' || content[lineStart - 1] === '\t')) lineStart--;
+  let lineEnd = end;
+  while (lineEnd < content.length && (content[lineEnd] === ' ' || content[lineEnd] === '\t')) lineEnd++;
+
+  if ((lineStart === 0 || content[lineStart - 1] === '\n') && (lineEnd === content.length || content[lineEnd] === '\n')) {
+    return { start: lineStart, end: Math.min(lineEnd + 1, content.length), code: '' };
+  }
+  return { start, end: lineEnd, code: '' };
+}
+
+// Rules holding nested rules or comments are kept even when every declaration goes
+const onlyDeclarations = (rule: CascadeRule) =>
+  parseStylesheet(rule.rule.rawContent).children.every(node => node.type !== 'rule' || node.children.every(child => child.type === 'declaration'));
+
+const formatDeclaration = (d: CascadeDeclaration) => `${d.property}: ${d.value}${d.important ? ' !important' : ''};`;
+
+function editsByFile(files: ProjectFile[], edits: Array<{ fileName: string; edit: (content: string) => TextEdit }>): CascadeFileEdit[] {
+  return files.flatMap(file => {
+    const fileEdits = edits.filter(e => e.fileName === file.name).map(e => e.edit(file.content));
+    return fileEdits.length > 0 ? [{ file, code: applyEdits(file.content, fileEdits) }] : [];
+  });
+}
+
+// Removes declarations that never win, and rules left with nothing in them; edits are grouped per file
+export function removeDeadDeclarations(files: ProjectFile[], dead: DeadDeclaration[]): CascadeFileEdit[] {
+  const emptied = new Set(
+    dead
+      .map(entry => entry.rule)
+      .filter(rule => onlyDeclarations(rule) && rule.declarations.every(d => dead.some(entry => entry.declaration === d)))
+  );
+  return editsByFile(files, [
+    ...Array.from(emptied).map(rule => ({
+      fileName: rule.rule.fileName,
+      edit: (content: string) => removalEdit(content, rule.rule.start, rule.rule.end)
+    })),
+    ...dead.filter(entry => !emptied.has(entry.rule)).map(({ rule, declaration }) => ({
+      fileName: rule.rule.fileName,
+      edit: (content: string) => removalEdit(content, declaration.start, declaration.end)
+    }))
+  ]);
+}
+
+// Folds every duplicate into the last one: the declarations that still win move to the top of its
+// block (so they keep losing to its own), dead ones are dropped, and emptied rules are deleted. A group with a
+// `conflict` is refused (no edits).
+export function mergeDuplicateGroup(files: ProjectFile[], group: DuplicateGroup, dead: DeadDeclaration[]): CascadeFileEdit[] {
+  if (group.conflict) return [];
+  const target = group.rules[group.rules.length - 1];
+  const isDead = (d: CascadeDeclaration) => dead.some(entry => entry.declaration === d);
+  const edits: Array<{ fileName: string; edit: (content: string) => TextEdit }> = [];
+
+  group.rules.slice(0, -1).forEach(rule => {
+    if (onlyDeclarations(rule)) {
+      edits.push({ fileName: rule.rule.fileName, edit: content => removalEdit(content, rule.rule.start, rule.rule.end) });
+    } else {
+      rule.declarations.forEach(d => edits.push({ fileName: rule.rule.fileName, edit: content => removalEdit(content, d.start, d.end) }));
+    }
+  });
+
+  target.declarations.filter(isDead).forEach(d => {
+    edits.push({ fileName: target.rule.fileName, edit: content => removalEdit(content, d.start, d.end) });
+  });
+
+  const moved = group.rules.slice(0, -1).flatMap(rule => rule.declarations.filter(d => !isDead(d)));
+  if (moved.length > 0) {
+    const node = parseStylesheet(target.rule.rawContent).children[0] as CSSRule;
+    const blockStart = target.rule.start + node.blockRange.start;
+    const firstChild = node.children[0];
+    const leading = target.rule.rawContent.slice(node.blockRange.start, firstChild ? firstChild.range.start : node.blockRange.end);
+
+    edits.push({
+      fileName: target.rule.fileName,
+      edit: content => {
+        if (leading.includes('\n')) {
+          const lineStart = content.lastIndexOf('\n', target.rule.start) + 1;
+          const ruleIndent = content.slice(lineStart, target.rule.start).match(/^\s*/)![0];
+          const indent = firstChild ? leading.slice(leading.lastIndexOf('\n') + 1) : `${ruleIndent}  `;
+          return { start: blockStart, end: blockStart, code: moved.map(d => `\n${indent}${formatDeclaration(d)}`).join('') };
+        }
+        return { start: blockStart, end: blockStart, code: moved.map(d => ` ${formatDeclaration(d)}`).join('') + (firstChild ? '' : ' ') };
+      }
+    });
+  }
+
+  return editsByFile(files, edits);
+}
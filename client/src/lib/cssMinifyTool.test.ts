@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { cssMinifyTool, maskCSS, parseCSSBlocks } from './cssMinifyTool';
+
+const minify = async (code: string, filename?: string) => cssMinifyTool.run(code, filename ? { filename } : undefined);
+
+describe('parseCSSBlocks', () => {
+  it('does not split on semicolons and braces inside url(), strings or comments', () => {
+    const { nodes, error } = parseCSSBlocks('.a { background: url(data:image/png;base64,AA==); content: "};"; /* { */ }');
+
+    expect(error).toBeNull();
+    expect(nodes).toEqual([{
+      kind: 'block',
+      prelude: '.a',
+      children: [
+        { kind: 'statement', text: 'background: url(data:image/png;base64,AA==)' },
+        { kind: 'statement', text: 'content: "};"' },
+        { kind: 'comment', text: '/* { */' }
+      ]
+    }]);
+  });
+
+  it('reports unbalanced braces', () => {
+    expect(parseCSSBlocks('.a { color: red;').error).toBe('Unclosed `{`');
+    expect(parseCSSBlocks('.a { color: red; } }').error).toBe('Unexpected `}`');
+  });
+});
+
+describe('maskCSS', () => {
+  it('hides strings, url()s and kept comments from rewrites and restores them', () => {
+    const text = 'url(data:image/svg+xml;utf8,a) "0px #ffffff" /* 0px */ 0px';
+    const { masked, restore } = maskCSS(text, true);
+
+    expect(masked).toBe('\u00010\u0001 \u00011\u0001 \u00012\u0001 0px');
+    expect(restore(masked.replace('0px', '0'))).toBe('url(data:image/svg+xml;utf8,a) "0px #ffffff" /* 0px */ 0');
+    expect(maskCSS('a /* x */ b', false).masked).toBe('a   b');
+  });
+});
+
+describe('css-minify', () => {
+  it('collapses whitespace, drops zero units, shortens colors and strips comments', async () => {
+    const result = await minify('/* theme */\n.a ,\n.b > p {\n  margin: 0px auto;\n  color: #FFFFFF;\n  border: 1px solid rgb(255, 0, 0);\n}\n');
+
+    expect(result.code).toBe('.a,.b>p{margin:0 auto;color:#fff;border:1px solid #f00}');
+    expect(result.stats).toMatchObject({ commentsRemoved: 1, zeroUnitsRemoved: 1, colorsShortened: 2, emptyRulesRemoved: 0 });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('keeps /*! notices', async () => {
+    expect((await minify('/*! MIT licensed */\n/* gone */\n.a { color: red; }')).code).toBe('/*! MIT licensed */.a{color:red}');
+  });
+
+  it('keeps zero units inside calc() and flex', async () => {
+    const { code, stats } = await minify('.a { width: calc(0px + 100%); margin: max(0px, 1em); flex: 1 1 0px; padding: 0px; }');
+
+    expect(code).toBe('.a{width:calc(0px + 100%);margin:max(0px,1em);flex:1 1 0px;padding:0}');
+    expect(stats.zeroUnitsRemoved).toBe(1);
+  });
+
+  it('leaves data URLs, strings and custom properties intact', async () => {
+    const css = '.a { background: url(data:image/svg+xml;charset=utf-8,%230px) ; content: "0px  #ffffff"; --gap:  0px  ; }';
+
+    expect((await minify(css)).code).toBe('.a{background:url(data:image/svg+xml;charset=utf-8,%230px);content:"0px  #ffffff";--gap:0px}');
+  });
+
+  it('drops empty rules but keeps empty at-rule blocks and @import terminators', async () => {
+    const { code, stats } = await minify('@import url(a.css);\n@layer base {}\n.empty {}\n@media screen and (max-width : 600px) { .a { color : red ; } }');
+
+    expect(code).toBe('@import url(a.css);@layer base{}@media screen and (max-width:600px){.a{color:red}}');
+    expect(stats.emptyRulesRemoved).toBe(1);
+  });
+
+  it('refuses to touch a stylesheet with unbalanced braces', async () => {
+    const css = '.a { color: red;\n.b { margin: 0px; }';
+    const result = await minify(css);
+
+    expect(result.code).toBe(css);
+    expect(result.summary).toBe('The stylesheet has unbalanced braces, so it was left unchanged.');
+    expect(result.warnings).toEqual(['css-minify: Unclosed `{`.']);
+  });
+
+  it('only minifies .css files', async () => {
+    const result = await minify('.a { color: red; }', 'index.html');
+
+    expect(result.code).toBe('.a { color: red; }');
+    expect(result.warnings).toEqual(['css-minify: index.html is not a CSS file; it was left unchanged.']);
+  });
+});
@@ -0,0 +1,300 @@
+import type { ToolModule } from '@/types/workshop';
+
+// A stylesheet as nested statements: just enough structure to reprint it, comments and all
+export type CSSBlockNode =
+  | { kind: 'comment'; text: string }
+  // A declaration or a block-less at-rule like `@import`, without its `;`
+  | { kind: 'statement'; text: string }
+  | { kind: 'block'; prelude: string; children: CSSBlockNode[] };
+
+// Splits on `{`, `}` and `;` outside strings, comments and parentheses (`url(data:...;base64,...)`)
+export function parseCSSBlocks(css: string): { nodes: CSSBlockNode[]; error: string | null } {
+  let i = 0;
+  let error: string | null = null;
+
+  const readBlock = (depth: number): CSSBlockNode[] => {
+    const nodes: CSSBlockNode[] = [];
+    let buffer = '';
+    let parens = 0;
+    const flush = () => {
+      if (buffer.trim()) nodes.push({ kind: 'statement', text: buffer.trim() });
+      buffer = '';
+    };
+
+    while (i < css.length) {
+      const ch = css[i];
+      if (ch === '/' && css[i + 1] === '*') {
+        const close = css.indexOf('*/', i + 2);
+        const end = close === -1 ? css.length : close + 2;
+        if (buffer.trim()) buffer += css.slice(i, end);
+        else nodes.push({ kind: 'comment', text: css.slice(i, end) });
+        i = end;
+        continue;
+      }
+      if (ch === '"' || ch === "'") {
+        let end = i + 1;
+        while (end < css.length && css[end] !== ch && css[end] !== '\n') end += css[end] === '\\' ? 2 : 1;
+        buffer += css.slice(i, end + 1);
+        i = end + 1;
+        continue;
+      }
+      if (ch === '(') parens++;
+      if (ch === ')') parens = Math.max(0, parens - 1);
+
+      if (parens === 0 && ch === '{') {
+        const prelude = buffer.trim();
+        buffer = '';
+        i++;
+        nodes.push({ kind: 'block', prelude, children: readBlock(depth + 1) });
+        continue;
+      }
+      if (parens === 0 && ch === ';') {
+        flush();
+        i++;
+        continue;
+      }
+      if (parens === 0 && ch === '}') {
+        flush();
+        i++;
+        if (depth === 0) error = error || 'Unexpected `}`';
+        else return nodes;
+        continue;
+      }
+      buffer += ch;
+      i++;
+    }
+
+    flush();
+    if (depth > 0) error = error || 'Unclosed `{`';
+    return nodes;
+  };
+
+  const nodes = readBlock(0);
+  return { nodes, error };
+}
+
+// Strings, `url()`s and (unless dropped) comments become placeholders so value rewrites can't reach inside them
+export function maskCSS(text: string, keepComments: boolean): { masked: string; restore: (masked: string) => string } {
+  const saved: string[] = [];
+  const masked = text.replace(/\/\*[\s\S]*?(?:\*\/|$)|"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|\burl\(\s*[^)"'\s]*\s*\)/gi, match => {
+    if (match.startsWith('/*') && !keepComments) return ' ';
+    saved.push(match);
+    return `\u0001${saved.length - 1}\u0001`;
+  });
+  return { masked, restore: value => value.replace(/\u0001(\d+)\u0001/g, (_, index: string) => saved[Number(index)]) };
+}
+
+export const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+export function formatBytes(bytes: number): string {
+  const size = Math.abs(bytes);
+  return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`;
+}
+
+export interface ByteStats {
+  originalBytes: number;
+  outputBytes: number;
+  // Negative when the output grew, as beautifying usually does
+  bytesSaved: number;
+  percentSaved: number;
+}
+
+export function byteStats(original: string, output: string): ByteStats {
+  const originalBytes = byteLength(original);
+  const outputBytes = byteLength(output);
+  const bytesSaved = originalBytes - outputBytes;
+  return {
+    originalBytes,
+    outputBytes,
+    bytesSaved,
+    percentSaved: originalBytes ? Math.round((bytesSaved / originalBytes) * 1000) / 10 : 0
+  };
+}
+
+// `color: red !important` split at the first colon; null for at-rule statements and anything unrecognizable
+export function splitDeclaration(text: string): { property: string; value: string; important: boolean } | null {
+  const colon = text.indexOf(':');
+  if (colon <= 0 || text.startsWith('@')) return null;
+  const property = text.slice(0, colon).trim();
+  if (!/^-{0,2}[a-zA-Z_][\w-]*$/.test(property)) return null;
+  const rest = text.slice(colon + 1);
+  const important = /!\s*important\s*$/i.exec(rest);
+  return { property, value: important ? rest.slice(0, important.index) : rest, important: !!important };
+}
+
+export const isCSSFilename = (filename?: string) => !filename || /\.css$/i.test(filename);
+
+export interface CSSMinifyStats extends ByteStats {
+  commentsRemoved: number;
+  zeroUnitsRemoved: number;
+  colorsShortened: number;
+  emptyRulesRemoved: number;
+}
+
+const LENGTH_UNITS = 'px|em|rem|ex|ch|vw|vh|vmin|vmax|cm|mm|q|in|pt|pc';
+const ZERO_LENGTH = new RegExp(`(^|[\\s,(])[-+]?0*\\.?0+(?:${LENGTH_UNITS})(?=$|[\\s,)/])`, 'gi');
+// Inside these a unitless 0 isn't a length: `calc(0 + 1px)` is invalid, `flex: 1 0` means flex-shrink 0
+const KEEPS_UNITS = /\b(?:calc|clamp|min|max)\(/i;
+const KEEPS_UNITS_PROPERTIES = /^(?:flex|-webkit-flex|-ms-flex)$/i;
+
+function shortenHex(hex: string): string {
+  const digits = hex.slice(1).toLowerCase();
+  if ((digits.length === 6 || digits.length === 8) && digits.split('').every((d, i) => i % 2 === 0 || d === digits[i - 1])) {
+    return '#' + digits.split('').filter((_, i) => i % 2 === 0).join('');
+  }
+  return '#' + digits;
+}
+
+// `0px` -> `0` and `#ffffff`/`rgb(255, 0, 0)` -> `#fff`/`#f00` in a masked declaration value
+export function optimizeValue(
+  property: string,
+  value: string,
+  counts: { zeroUnitsRemoved: number; colorsShortened: number },
+  { zeroUnits = true, colors = true } = {}
+): string {
+  let out = value;
+  if (zeroUnits && !KEEPS_UNITS.test(out) && !KEEPS_UNITS_PROPERTIES.test(property)) {
+    out = out.replace(ZERO_LENGTH, (_, before: string) => {
+      counts.zeroUnitsRemoved++;
+      return `${before}0`;
+    });
+  }
+  if (!colors) return out;
+
+  const shorter = (match: string, color: string) => {
+    if (color.length >= match.length) return match;
+    counts.colorsShortened++;
+    return color;
+  };
+  return out
+    .replace(/#(?:[0-9a-f]{6}|[0-9a-f]{8})\b/gi, hex => shorter(hex, shortenHex(hex)))
+    .replace(/\brgb\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)/gi, (match, ...channels: string[]) => {
+      const values = channels.slice(0, 3).map(Number);
+      if (values.some(v => v > 255)) return match;
+      return shorter(match, shortenHex('#' + values.map(v => v.toString(16).padStart(2, '0')).join('')));
+    });
+}
+
+function minifyValue(property: string, value: string, stats: CSSMinifyStats): string {
+  const collapsed = value
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\s*([,/])\s*/g, '$1')
+    .replace(/\(\s+/g, '(')
+    .replace(/\s+\)/g, ')');
+  return optimizeValue(property, collapsed, stats);
+}
+
+function minifySelector(selector: string): string {
+  return selector
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\s*([,>+~])\s*/g, '$1')
+    .replace(/\s*([~|^$*]?=)\s*/g, '$1')
+    .replace(/\[\s+/g, '[')
+    .replace(/\s+\]/g, ']')
+    .replace(/\(\s+/g, '(')
+    .replace(/\s+\)/g, ')');
+}
+
+// `@media screen and (max-width : 600px)` -> `@media screen and (max-width:600px)`; the space before `(` stays
+function minifyAtPrelude(prelude: string): string {
+  return prelude
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\s*,\s*/g, ',')
+    .replace(/\(([^()]*)\)/g, (_, inner: string) => `(${inner.trim().replace(/\s*:\s*/g, ':')})`);
+}
+
+function minifyStatement(text: string, stats: CSSMinifyStats): string {
+  const { masked, restore } = maskCSS(text, false);
+  const declaration = splitDeclaration(masked);
+  if (!declaration) return restore(minifyAtPrelude(masked));
+
+  const { property, important } = declaration;
+  // Custom property values are arbitrary token streams; only the edges are safe to trim
+  const value = property.startsWith('--') ? declaration.value.trim() : minifyValue(property, declaration.value, stats);
+  return `${property}:${restore(value)}${important ? '!important' : ''}`;
+}
+
+function minifyNodes(nodes: CSSBlockNode[], stats: CSSMinifyStats, topLevel: boolean): string {
+  const parts: Array<{ text: string; statement: boolean }> = [];
+
+  nodes.forEach(node => {
+    if (node.kind === 'comment') {
+      // `/*! ... */` marks a license or attribution that minifiers keep
+      if (node.text.startsWith('/*!')) parts.push({ text: node.text, statement: false });
+      else stats.commentsRemoved++;
+    } else if (node.kind === 'statement') {
+      stats.commentsRemoved += (node.text.match(/\/\*/g) || []).length;
+      parts.push({ text: minifyStatement(node.text, stats), statement: true });
+    } else {
+      const body = minifyNodes(node.children, stats, false);
+      const isAtRule = node.prelude.startsWith('@');
+      // An empty `@layer a {}` still declares the layer; an empty style rule does nothing
+      if (!body && !isAtRule) {
+        stats.emptyRulesRemoved++;
+        return;
+      }
+      const { masked, restore } = maskCSS(node.prelude, false);
+      stats.commentsRemoved += (node.prelude.match(/\/\*/g) || []).length;
+      const prelude = restore(isAtRule ? minifyAtPrelude(masked) : minifySelector(masked));
+      parts.push({ text: `${prelude}{${body}}`, statement: false });
+    }
+  });
+
+  // The last declaration in a block needs no `;`, but top-level `@import`s always do
+  return parts
+    .map((part, i) => part.statement && (topLevel || i < parts.length - 1) ? `${part.text};` : part.text)
+    .join('');
+}
+
+async function run(code: string, ctx?: any) {
+  const emptyStats: CSSMinifyStats = {
+    ...byteStats('', ''),
+    commentsRemoved: 0,
+    zeroUnitsRemoved: 0,
+    colorsShortened: 0,
+    emptyRulesRemoved: 0
+  };
+  if (typeof code !== 'string') {
+    return { code: '', summary: 'Input was not a string.', stats: emptyStats, warnings: ['css-minify: input code must be a string.'] };
+  }
+  if (!isCSSFilename(ctx?.filename)) {
+    return {
+      code,
+      summary: 'Only .css files can be minified.',
+      stats: { ...emptyStats, ...byteStats(code, code) },
+      warnings: [`css-minify: ${ctx.filename} is not a CSS file; it was left unchanged.`]
+    };
+  }
+
+  const { nodes, error } = parseCSSBlocks(code);
+  if (error) {
+    return {
+      code,
+      summary: 'The stylesheet has unbalanced braces, so it was left unchanged.',
+      stats: { ...emptyStats, ...byteStats(code, code) },
+      warnings: [`css-minify: ${error}.`]
+    };
+  }
+
+  const stats = { ...emptyStats };
+  const minified = minifyNodes(nodes, stats, true);
+  Object.assign(stats, byteStats(code, minified));
+
+  const parts = [`${formatBytes(stats.originalBytes)} → ${formatBytes(stats.outputBytes)} (saved ${formatBytes(stats.bytesSaved)}, ${stats.percentSaved}%)`];
+  if (stats.commentsRemoved) parts.push(`stripped ${stats.commentsRemoved} comment${stats.commentsRemoved > 1 ? 's' : ''}`);
+  if (stats.zeroUnitsRemoved) parts.push(`dropped ${stats.zeroUnitsRemoved} zero unit${stats.zeroUnitsRemoved > 1 ? 's' : ''}`);
+  if (stats.colorsShortened) parts.push(`shortened ${stats.colorsShortened} color${stats.colorsShortened > 1 ? 's' : ''}`);
+  if (stats.emptyRulesRemoved) parts.push(`removed ${stats.emptyRulesRemoved} empty rule${stats.emptyRulesRemoved > 1 ? 's' : ''}`);
+
+  return { code: minified, summary: parts.join(', '), stats, warnings: [] };
+}
+
+export const cssMinifyTool: ToolModule = {
+  name: 'css-minify',
+  version: '1.0.0',
+  description: 'Strips comments (keeping /*! notices), collapses whitespace, drops units from zero lengths and shortens colors.',
+  run: run
+};
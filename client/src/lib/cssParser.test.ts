@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { collectRules, parseStylesheet, type CSSAtRule, type CSSRule } from './cssParser';
+import { parseCSS } from './workshopUtils';
+
+const slice = (css: string, range: { start: number; end: number }) => css.slice(range.start, range.end);
+
+describe('parseStylesheet', () => {
+  it('keeps exact source ranges for rules, selectors, blocks and declarations', () => {
+    const css = '/* top */\n.a ,.b  {\n  color: red;\n  margin: 0 !important\n}\n';
+    const { children, errors } = parseStylesheet(css);
+    const rule = children[1] as CSSRule;
+
+    expect(errors).toEqual([]);
+    expect(children[0]).toEqual({ type: 'comment', text: '/* top */', range: { start: 0, end: 9 } });
+    expect(rule.selector).toBe('.a ,.b');
+    expect(slice(css, rule.selectorRange)).toBe('.a ,.b');
+    expect(slice(css, rule.range)).toBe('.a ,.b  {\n  color: red;\n  margin: 0 !important\n}');
+    expect(slice(css, rule.blockRange)).toBe('\n  color: red;\n  margin: 0 !important\n');
+    expect(rule.children.map(node => node.type === 'declaration' && [node.property, node.value, node.important, slice(css, node.range)])).toEqual([
+      ['color', 'red', false, 'color: red;'],
+      ['margin', '0', true, 'margin: 0 !important']
+    ]);
+  });
+
+  it('does not end a statement at braces or semicolons inside strings, comments and url()', () => {
+    const css = '.a { content: "}{;"; background: url(data:image/png;base64,AA==); /* } */ color: red; }';
+    const rule = parseStylesheet(css).children[0] as CSSRule;
+
+    expect(rule.children.map(node => node.type === 'declaration' ? `${node.property}=${node.value}` : node.type)).toEqual([
+      'content="}{;"',
+      'background=url(data:image/png;base64,AA==)',
+      'comment',
+      'color=red'
+    ]);
+  });
+
+  it('parses block and statement at-rules', () => {
+    const css = '@import url(a.css);\n@media (max-width: 600px) { .a { color: red; } }\n@charset "utf-8"';
+    const [imported, media, charset] = parseStylesheet(css).children as CSSAtRule[];
+
+    expect([imported.name, imported.prelude, imported.blockRange, slice(css, imported.range)]).toEqual(['import', 'url(a.css)', null, '@import url(a.css);']);
+    expect([media.name, media.prelude, media.children.map(node => node.type)]).toEqual(['media', '(max-width: 600px)', ['rule']]);
+    expect(slice(css, charset.range)).toBe('@charset "utf-8"');
+  });
+
+  it('reports errors and recovers from broken input', () => {
+    const { children, errors } = parseStylesheet('}\n.a { color red; }\n.b { margin: 0;\n/* open');
+
+    expect(errors.map(error => [error.message, error.offset])).toEqual([
+      ['Unexpected }', 0],
+      ['Expected : in declaration', 7],
+      ['Unterminated comment', 36],
+      ['Unclosed block', 23]
+    ]);
+    expect(children.map(node => node.type === 'rule' && node.selector)).toEqual(['.a', '.b']);
+  });
+});
+
+describe('collectRules', () => {
+  it('lists nested rules with their at-rule and parent context, outermost first', () => {
+    const css = '@media print { @supports (display: grid) { .card { color: red; &:hover { color: blue; } } } }';
+
+    expect(collectRules(parseStylesheet(css).children).map(({ rule, context, declarations }) => [rule.selector, context, declarations.length])).toEqual([
+      ['.card', ['@media print', '@supports (display: grid)'], 1],
+      ['&:hover', ['@media print', '@supports (display: grid)', '.card'], 1]
+    ]);
+  });
+});
+
+describe('parseCSS', () => {
+  it('maps rules to 0-based lines, raw source and properties with !important', () => {
+    const css = 'body { margin: 0; }\n\n@media screen {\n  .a {\n    color: red !important;\n  }\n}';
+
+    expect(parseCSS(css)).toEqual([
+      { selector: 'body', properties: { margin: '0' }, startLine: 0, endLine: 0, rawContent: 'body { margin: 0; }', start: 0, end: 19, context: [] },
+      {
+        selector: '.a',
+        properties: { color: 'red !important' },
+        startLine: 3,
+        endLine: 5,
+        rawContent: '.a {\n    color: red !important;\n  }',
+        start: 39,
+        end: 74,
+        context: ['@media screen']
+      }
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+// Offsets into the parsed source; `end` is exclusive
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface CSSComment {
+  type: 'comment';
+  text: string;
+  range: SourceRange;
+}
+
+export interface CSSDeclaration {
+  type: 'declaration';
+  property: string;
+  // Without the `!important` flag
+  value: string;
+  important: boolean;
+  range: SourceRange;
+}
+
+export interface CSSRule {
+  type: 'rule';
+  selector: string;
+  range: SourceRange;
+  selectorRange: SourceRange;
+  // Between the braces
+  blockRange: SourceRange;
+  children: CSSNode[];
+}
+
+export interface CSSAtRule {
+  type: 'atrule';
+  // Without the `@`
+  name: string;
+  prelude: string;
+  range: SourceRange;
+  // Null for statement at-rules like `@import url(a.css);`
+  blockRange: SourceRange | null;
+  children: CSSNode[];
+}
+
+export type CSSNode = CSSComment | CSSDeclaration | CSSRule | CSSAtRule;
+
+export interface CSSParseError {
+  message: string;
+  offset: number;
+}
+
+export interface CSSStylesheet {
+  children: CSSNode[];
+  errors: CSSParseError[];
+}
+
+// A style rule with the at-rules and parent rules it sits in, outermost first
+export interface CSSRuleContext {
+  rule: CSSRule;
+  context: string[];
+  declarations: CSSDeclaration[];
+}
+
+const IMPORTANT = /\s*!\s*important\s*$/i;
+
+class CSSParser {
+  private pos = 0;
+  readonly errors: CSSParseError[] = [];
+
+  constructor(private readonly source: string) {}
+
+  parse(): CSSNode[] {
+    return this.parseContents(true);
+  }
+
+  private error(message: string, offset: number) {
+    this.errors.push({ message, offset });
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) this.pos++;
+  }
+
+  // End of the comment starting at `from`, or the end of input if it never closes
+  private commentEnd(from: number): number {
+    const close = this.source.indexOf('*/', from + 2);
+    if (close === -1) {
+      this.error('Unterminated comment', from);
+      return this.source.length;
+    }
+    return close + 2;
+  }
+
+  // First of `stops` outside strings, comments and parentheses, so `url(data:a;b)` and
+  // `content: "{"` don't end a statement early
+  private scanUntil(stops: string, from: number): number {
+    const source = this.source;
+    let depth = 0;
+    let i = from;
+
+    while (i < source.length) {
+      const ch = source[i];
+      if (ch === '\\') {
+        i += 2;
+        continue;
+      }
+      if (ch === '/' && source[i + 1] === '*') {
+        i = this.commentEnd(i);
+        continue;
+      }
+      if (ch === '"' || ch === "'") {
+        let j = i + 1;
+        while (j < source.length && source[j] !== ch && source[j] !== '\n') j += source[j] === '\\' ? 2 : 1;
+        i = j + 1;
+        continue;
+      }
+      if (ch === '(' || ch === '[') depth++;
+      else if ((ch === ')' || ch === ']') && depth > 0) depth--;
+      else if (depth === 0 && stops.includes(ch)) return i;
+      // A closing brace always ends the statement, even inside unbalanced parentheses
+      else if (ch === '}' && stops.includes('}')) return i;
+      i++;
+    }
+    return source.length;
+  }
+
+  // Statements up to the closing brace of the current block (left for the caller) or the end of input
+  private parseContents(topLevel: boolean): CSSNode[] {
+    const nodes: CSSNode[] = [];
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.pos >= this.source.length) break;
+      const ch = this.source[this.pos];
+
+      if (ch === '}') {
+        if (!topLevel) break;
+        this.error('Unexpected }', this.pos);
+        this.pos++;
+      } else if (ch === '/' && this.source[this.pos + 1] === '*') {
+        const start = this.pos;
+        this.pos = this.commentEnd(start);
+        nodes.push({ type: 'comment', text: this.source.slice(start, this.pos), range: { start, end: this.pos } });
+      } else if (ch === ';') {
+        this.pos++;
+      } else if (ch === '@') {
+        nodes.push(this.parseAtRule());
+      } else if (topLevel) {
+        const rule = this.parseRule();
+        if (rule) nodes.push(rule);
+      } else {
+        // Inside a block a statement that reaches '{' first is a nested rule
+        const stop = this.scanUntil(';{}', this.pos);
+        const node = this.source[stop] === '{' ? this.parseRule() : this.parseDeclaration(stop);
+        if (node) nodes.push(node);
+      }
+    }
+
+    return nodes;
+  }
+
+  // Reads a `{ ... }` block starting at `open`; returns its inner range and children
+  private parseBlock(open: number): { blockRange: SourceRange; children: CSSNode[] } {
+    this.pos = open + 1;
+    const children = this.parseContents(false);
+    const blockRange = { start: open + 1, end: this.pos };
+    if (this.source[this.pos] === '}') {
+      this.pos++;
+    } else {
+      this.error('Unclosed block', open);
+    }
+    return { blockRange, children };
+  }
+
+  private parseRule(): CSSRule | null {
+    const start = this.pos;
+    const open = this.scanUntil('{}', start);
+    if (this.source[open] !== '{') {
+      this.error('Expected { after selector', start);
+      this.pos = open;
+      return null;
+    }
+
+    const rawSelector = this.source.slice(start, open);
+    const selector = rawSelector.trim();
+    const selectorRange = { start, end: start + rawSelector.trimEnd().length };
+    const { blockRange, children } = this.parseBlock(open);
+    return { type: 'rule', selector, range: { start, end: this.pos }, selectorRange, blockRange, children };
+  }
+
+  private parseDeclaration(stop: number): CSSDeclaration | null {
+    const start = this.pos;
+    const text = this.source.slice(start, stop);
+    this.pos = this.source[stop] === ';' ? stop + 1 : stop;
+
+    const colon = text.indexOf(':');
+    if (colon === -1) {
+      this.error('Expected : in declaration', start);
+      return null;
+    }
+
+    const rawValue = text.slice(colon + 1).trim();
+    const important = IMPORTANT.test(rawValue);
+    const end = this.source[stop] === ';' ? stop + 1 : start + text.trimEnd().length;
+    return {
+      type: 'declaration',
+      property: text.slice(0, colon).trim(),
+      value: important ? rawValue.replace(IMPORTANT, '') : rawValue,
+      important,
+      range: { start, end }
+    };
+  }
+
+  private parseAtRule(): CSSAtRule {
+    const start = this.pos;
+    const name = /^@([\w-]*)/.exec(this.source.slice(start, start + 64))![1];
+    const stop = this.scanUntil(';{}', start + 1 + name.length);
+    const prelude = this.source.slice(start + 1 + name.length, stop).trim();
+
+    if (this.source[stop] === '{') {
+      const { blockRange, children } = this.parseBlock(stop);
+      return { type: 'atrule', name, prelude, range: { start, end: this.pos }, blockRange, children };
+    }
+
+    // Statement at-rules end at ';'; a missing one is only tolerated at the end of a block or the input
+    this.pos = this.source[stop] === ';' ? stop + 1 : stop;
+    const end = this.source[stop] === ';' ? stop + 1 : start + this.source.slice(start, stop).trimEnd().length;
+    return { type: 'atrule', name, prelude, range: { start, end }, blockRange: null, children: [] };
+  }
+}
+
+export function parseStylesheet(css: string): CSSStylesheet {
+  const parser = new CSSParser(css);
+  const children = parser.parse();
+  return { children, errors: parser.errors };
+}
+
+export function atRuleLabel(node: CSSAtRule): string {
+  return node.prelude ? `@${node.name} ${node.prelude}` : `@${node.name}`;
+}
+
+// Every style rule in document order, nested ones included
+export function collectRules(nodes: CSSNode[], context: string[] = []): CSSRuleContext[] {
+  return nodes.flatMap(node => {
+    if (node.type === 'rule') {
+      const declarations = node.children.filter((child): child is CSSDeclaration => child.type === 'declaration');
+      return [{ rule: node, context, declarations }, ...collectRules(node.children, [...context, node.selector])];
+    }
+    if (node.type === 'atrule') {
+      return collectRules(node.children, [...context, atRuleLabel(node)]);
+    }
+    return [];
+  });
+}
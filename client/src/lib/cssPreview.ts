@@ -0,0 +1,122 @@
+import type { ProjectFile } from '@/types/workshop';
+
+// A replacement for [start, end) of one project file, e.g. the rule being edited
+export interface PreviewEdit {
+  fileName: string;
+  start: number;
+  end: number;
+  css: string;
+}
+
+export interface PreviewOptions {
+  edit?: PreviewEdit | null;
+  // Appended after all project CSS, e.g. a rule that is still being written
+  extraCSS?: string;
+  // Tried in order; the first that the browser accepts and matches gets highlighted
+  highlight?: string[];
+}
+
+const HIGHLIGHT_ATTRIBUTE = 'data-codemaster-match';
+
+// `<link href="css/site.css?v=2">` resolves to the project file `site.css` or `css/site.css`
+function findProjectFile(files: ProjectFile[], type: ProjectFile['type'], href: string): ProjectFile | undefined {
+  if (/^(?:[a-z]+:)?\/\//i.test(href)) return undefined;
+  const path = href.split(/[?#]/)[0].replace(/^\.?\//, '');
+  const base = path.split('/').pop();
+  return files.find(f => f.type === type && f.name === path) || files.find(f => f.type === type && f.name === base);
+}
+
+const attribute = (tag: string, name: string) =>
+  new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag)?.slice(1).find(v => v !== undefined);
+
+// A closing tag inside inlined content would end the element early
+const escapeClosing = (content: string, tag: string) => content.replace(new RegExp(`</${tag}`, 'gi'), `<\\/${tag}`);
+
+function insertIntoHead(html: string, markup: string): string {
+  const headClose = /<\/head\s*>/i.exec(html);
+  if (headClose) return html.slice(0, headClose.index) + markup + html.slice(headClose.index);
+  const body = /<body[\s>]/i.exec(html);
+  if (body) return html.slice(0, body.index) + markup + html.slice(body.index);
+  return markup + html;
+}
+
+function highlightMarkup(selectors: string[]): string {
+  return `
+<style data-codemaster-preview>[${HIGHLIGHT_ATTRIBUTE}] { outline: 2px solid #f59e0b !important; outline-offset: 2px !important; }</style>
+<script data-codemaster-preview>
+document.addEventListener('DOMContentLoaded', function () {
+  var selectors = ${JSON.stringify(selectors).replace(/</g, '\\u003c')};
+  for (var i = 0; i < selectors.length; i++) {
+    try {
+      var matches = document.querySelectorAll(selectors[i]);
+      if (matches.length === 0) continue;
+      for (var j = 0; j < matches.length; j++) matches[j].setAttribute('${HIGHLIGHT_ATTRIBUTE}', '');
+      matches[0].scrollIntoView({ block: 'center' });
+      return;
+    } catch (e) {}
+  }
+});
+</script>
+`;
+}
+
+// What a page loads, in document order: project stylesheets it links, and its own `<style>` blocks as
+// file-absolute CSS ranges (the same ranges parseCSSFromFiles reads rules from)
+export type PageStylesheet =
+  | { type: 'file'; fileName: string }
+  | { type: 'block'; start: number; end: number };
+
+export function pageStylesheets(files: ProjectFile[], page: ProjectFile): PageStylesheet[] {
+  const sheets: PageStylesheet[] = [];
+  const pattern = /<link\b[^>]*>|(<style[^>]*>)([\s\S]*?)<\/style>/gi;
+  let match;
+  while ((match = pattern.exec(page.content)) !== null) {
+    if (match[1] !== undefined) {
+      const start = match.index + match[1].length;
+      sheets.push({ type: 'block', start, end: start + match[2].length });
+    } else if (/\brel\s*=\s*["']?stylesheet/i.test(match[0])) {
+      const file = findProjectFile(files, 'css', attribute(match[0], 'href') || '');
+      if (file) sheets.push({ type: 'file', fileName: file.name });
+    }
+  }
+  return sheets;
+}
+
+// The page with every project stylesheet it links inlined where the <link> was, any stylesheet it
+// doesn't link appended to <head>, and linked project scripts inlined so they can add classes.
+// The edit is spliced into whichever file it belongs to, the page itself included.
+export function buildPreviewDocument(files: ProjectFile[], pageName: string, options: PreviewOptions = {}): string {
+  const page = files.find(f => f.name === pageName && f.type === 'html');
+  if (!page) return '';
+  const { edit, extraCSS, highlight } = options;
+
+  const contentOf = (file: ProjectFile) =>
+    edit && edit.fileName === file.name
+      ? file.content.slice(0, edit.start) + edit.css + file.content.slice(edit.end)
+      : file.content;
+
+  const inlined = new Set<string>();
+  let html = contentOf(page)
+    .replace(/<link\b[^>]*>/gi, tag => {
+      if (!/\brel\s*=\s*["']?stylesheet/i.test(tag)) return tag;
+      const file = findProjectFile(files, 'css', attribute(tag, 'href') || '');
+      if (!file) return tag;
+      inlined.add(file.name);
+      return `<style data-source="${file.name}">\n${escapeClosing(contentOf(file), 'style')}\n</style>`;
+    })
+    .replace(/<script\b([^>]*)>\s*<\/script\s*>/gi, (tag, attributes: string) => {
+      const file = findProjectFile(files, 'js', attribute(attributes, 'src') || '');
+      if (!file) return tag;
+      return `<script data-source="${file.name}">\n${escapeClosing(file.content, 'script')}\n</script>`;
+    });
+
+  const unlinked = files
+    .filter(f => f.type === 'css' && !inlined.has(f.name))
+    .map(f => `<style data-source="${f.name}">\n${escapeClosing(contentOf(f), 'style')}\n</style>\n`)
+    .join('');
+  const extra = extraCSS ? `<style data-codemaster-preview>\n${escapeClosing(extraCSS, 'style')}\n</style>\n` : '';
+  const highlighter = highlight && highlight.length > 0 ? highlightMarkup(highlight) : '';
+
+  html = insertIntoHead(html, unlinked + extra + highlighter);
+  return html;
+}
@@ -0,0 +1,91 @@
+import { parseStylesheet, type CSSDeclaration, type CSSRule } from './cssParser';
+import { applyEdits, collapseBox } from './cssStandardize';
+import { removalEdit } from './cssCascade';
+
+export interface CSSLength {
+  value: number;
+  // Empty for unitless numbers like `line-height: 1.5`
+  unit: string;
+}
+
+export const LENGTH_UNITS = ['px', 'rem', 'em', '%', 'vh', 'vw', 'ch', 'pt', 'fr', ''];
+export const BOX_SIDES = ['top', 'right', 'bottom', 'left'] as const;
+export type BoxSide = typeof BOX_SIDES[number];
+
+export function parseLength(value: string): CSSLength | null {
+  const match = /^(-?\d*\.?\d+)([a-z%]*)$/i.exec(value.trim());
+  return match ? { value: parseFloat(match[1]), unit: match[2].toLowerCase() } : null;
+}
+
+// Rounds away float noise from spinner steps like 0.1 + 0.2
+export const formatLength = ({ value, unit }: CSSLength) =>
+  `${Number(value.toFixed(3))}${value === 0 && unit !== '%' && unit !== 'fr' ? '' : unit}`;
+
+// `1px 2px` -> ['1px', '2px', '1px', '2px'], following the shorthand's repetition rules
+export function expandBox(value: string): string[] {
+  const parts = value.trim().split(/\s+(?![^(]*\))/).filter(Boolean);
+  const [top = '', right = top, bottom = top, left = right] = parts;
+  return [top, right, bottom, left];
+}
+
+// The top-level rule in `css` and its own declarations
+function ruleIn(css: string): { rule: CSSRule; declarations: CSSDeclaration[] } | null {
+  const rule = parseStylesheet(css).children.find((node): node is CSSRule => node.type === 'rule');
+  if (!rule) return null;
+  return { rule, declarations: rule.children.filter((child): child is CSSDeclaration => child.type === 'declaration') };
+}
+
+// Sets `property` on the rule in `css`: the winning (last) declaration is rewritten in place, keeping its
+// `!important`; a new one goes after the last declaration; an empty value removes every declaration of it
+export function setRuleProperty(css: string, property: string, value: string): string {
+  const parsed = ruleIn(css);
+  if (!parsed) return css;
+  const { rule, declarations } = parsed;
+  const existing = declarations.filter(d => d.property.toLowerCase() === property.toLowerCase());
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    return applyEdits(css, existing.map(d => removalEdit(css, d.range.start, d.range.end)));
+  }
+
+  const last = existing[existing.length - 1];
+  if (last) {
+    const code = `${last.property}: ${trimmed}${last.important ? ' !important' : ''};`;
+    return applyEdits(css, [{ start: last.range.start, end: last.range.end, code }]);
+  }
+
+  const code = `${property}: ${trimmed};`;
+  const anchor = declarations[declarations.length - 1];
+  if (anchor) {
+    const lineStart = css.lastIndexOf('\n', anchor.range.start) + 1;
+    const indent = css.slice(lineStart, anchor.range.start);
+    const separator = /^\s*$/.test(indent) ? `\n${indent}` : ' ';
+    return applyEdits(css, [{ start: anchor.range.end, end: anchor.range.end, code: separator + code }]);
+  }
+
+  // Empty block: open it up in the rule's own style
+  const inner = css.slice(rule.blockRange.start, rule.blockRange.end);
+  const lineStart = css.lastIndexOf('\n', rule.range.start) + 1;
+  const ruleIndent = css.slice(lineStart, rule.range.start).match(/^\s*/)![0];
+  const replacement = inner.includes('\n') || !inner.trim()
+    ? `\n${ruleIndent}  ${code}\n${ruleIndent}`
+    : ` ${code} `;
+  return applyEdits(css, [{ start: rule.blockRange.start, end: rule.blockRange.end, code: replacement + inner.trim() }]);
+}
+
+// The four sides of `margin` or `padding` as the rule resolves them, longhands over the shorthand
+export function readBox(properties: Record<string, string>, family: 'margin' | 'padding'): string[] {
+  const shorthand = properties[family] ? expandBox(properties[family].replace(/\s*!important$/, '')) : ['', '', '', ''];
+  return BOX_SIDES.map((side, i) => (properties[`${family}-${side}`] ?? shorthand[i]).replace(/\s*!important$/, ''));
+}
+
+// Edits one side, through its longhand when the rule already spells it out that way, else the shorthand
+export function writeBoxSide(css: string, properties: Record<string, string>, family: 'margin' | 'padding', side: BoxSide, value: string): string {
+  const longhand = `${family}-${side}`;
+  if (properties[longhand] !== undefined || properties[family] === undefined) {
+    return setRuleProperty(css, longhand, value);
+  }
+  const sides = readBox(properties, family);
+  sides[BOX_SIDES.indexOf(side)] = value.trim() || '0';
+  return setRuleProperty(css, family, collapseBox(sides));
+}
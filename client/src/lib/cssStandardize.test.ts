@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { applyEdits, standardizeRuleSource, type StandardizeOptions } from './cssStandardize';
+
+const UNITS_ONLY: StandardizeOptions = { order: 'none', lowercaseHex: false, units: true, shorthands: false, dedupe: false };
+
+const standardize = (css: string, options = UNITS_ONLY) => applyEdits(css, standardizeRuleSource(css, options).edits);
+
+describe('unit normalization', () => {
+  it('drops units from zero lengths', () => {
+    expect(standardize('.a { margin: 0px 0.0em 10PX; }')).toBe('.a { margin: 0 0 10px; }');
+  });
+
+  it('keeps zero units inside math functions', () => {
+    expect(standardize('.a { width: calc(0px + 1em); }')).toBe('.a { width: calc(0px + 1em); }');
+    expect(standardize('.a { padding: max(0px, 2vw) clamp(0rem, 1vw, 2rem); }')).toBe('.a { padding: max(0px, 2vw) clamp(0rem, 1vw, 2rem); }');
+    expect(standardize('.a { width: calc(100% - min(0px, 1em)); }')).toBe('.a { width: calc(100% - min(0px, 1em)); }');
+  });
+
+  it('still normalizes the rest of a value around a math function', () => {
+    expect(standardize('.a { margin: 0px calc(0PX + .5em) 0px; }')).toBe('.a { margin: 0 calc(0px + 0.5em) 0; }');
+  });
+
+  it('keeps the zero unit in the flex shorthand', () => {
+    expect(standardize('.a { flex: 1 1 0px; }')).toBe('.a { flex: 1 1 0px; }');
+  });
+
+  it('leaves strings and urls alone', () => {
+    expect(standardize('.a { content: "0px"; background: url(0px.png); }')).toBe('.a { content: "0px"; background: url(0px.png); }');
+  });
+});
+
+const ONLY = (overrides: Partial<StandardizeOptions>): StandardizeOptions =>
+  ({ order: 'none', lowercaseHex: false, units: false, shorthands: false, dedupe: false, ...overrides });
+
+describe('property ordering', () => {
+  it('sorts alphabetically, prefixed variants first', () => {
+    expect(standardize('.a { z-index: 1; -webkit-transform: none; color: red; transform: none; }', ONLY({ order: 'alphabetical' })))
+      .toBe('.a { color: red; -webkit-transform: none; transform: none; z-index: 1; }');
+  });
+
+  it('never moves a longhand across its shorthand', () => {
+    const alphabetical = ONLY({ order: 'alphabetical' });
+    expect(standardize('.a { margin-top: 5px; margin: 0; }', alphabetical)).toBe('.a { margin-top: 5px; margin: 0; }');
+    expect(standardize('.a { padding-left: 1px; color: red; padding: 0; }', alphabetical)).toBe('.a { color: red; padding-left: 1px; padding: 0; }');
+    expect(standardize('.a { border-top-color: red; border-color: blue; }', alphabetical)).toBe('.a { border-top-color: red; border-color: blue; }');
+    expect(standardize('.a { top: 0; inset: 1px; }', ONLY({ order: 'grouped' }))).toBe('.a { top: 0; inset: 1px; }');
+  });
+
+  it('still sorts each side of a shorthand', () => {
+    expect(standardize('.a { z-index: 1; border-top: 0; color: red; border: none; width: 0; }', ONLY({ order: 'alphabetical' })))
+      .toBe('.a { border-top: 0; color: red; z-index: 1; border: none; width: 0; }');
+  });
+
+  it('puts custom properties first', () => {
+    expect(standardize('.a { color: red; --x: 1; }', ONLY({ order: 'alphabetical' }))).toBe('.a { --x: 1; color: red; }');
+  });
+});
+
+describe('duplicate removal', () => {
+  const dedupe = ONLY({ dedupe: true });
+
+  it('drops a declaration a later one overrides', () => {
+    expect(standardize('.a { color: red; margin: 0; color: blue; }', dedupe)).toBe('.a { margin: 0; color: blue; }');
+  });
+
+  it('keeps an !important declaration over a later plain one', () => {
+    expect(standardize('.a { color: red !important; color: blue; }', dedupe)).toBe('.a { color: red !important; color: blue; }');
+  });
+
+  it('keeps fallbacks for values older browsers may reject', () => {
+    const kept = [
+      '.a { color: red; color: var(--text); }',
+      '.a { width: 100%; width: min(100%, 40rem); }',
+      '.a { height: 90vh; height: calc(100vh - 2rem); }',
+      '.a { background: #fff; background: linear-gradient(#fff, #eee); }',
+      '.a { display: -webkit-box; display: flex; }'
+    ];
+    kept.forEach(css => expect(standardize(css, dedupe)).toBe(css));
+  });
+});
+
+describe('shorthand consolidation', () => {
+  it('merges all four sides into the shorthand', () => {
+    expect(standardize('.a { margin-top: 1px; margin-right: 2px; margin-bottom: 1px; margin-left: 2px; }', ONLY({ shorthands: true })))
+      .toBe('.a { margin: 1px 2px; }');
+  });
+
+  it('drops an earlier shorthand the merged one overrides', () => {
+    expect(standardize('.a { margin: 0 0 0 0; margin-top: 1px; margin-right: 1px; margin-bottom: 1px; margin-left: 1px; }', ONLY({ shorthands: true, dedupe: true })))
+      .toBe('.a { margin: 1px; }');
+  });
+
+  it('keeps an earlier !important shorthand that still wins', () => {
+    expect(standardize('.a { padding: 0 !important; padding-top: 1px; padding-right: 1px; padding-bottom: 1px; padding-left: 1px; }', ONLY({ shorthands: true })))
+      .toBe('.a { padding: 0 !important; padding: 1px; }');
+  });
+});
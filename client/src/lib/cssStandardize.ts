@@ -0,0 +1,303 @@
+import { parseStylesheet, type CSSDeclaration, type CSSRule } from './cssParser';
+import type { ProjectCSSRule } from './workshopUtils';
+
+export type PropertyOrder = 'none' | 'alphabetical' | 'grouped';
+
+export interface StandardizeOptions {
+  order: PropertyOrder;
+  lowercaseHex: boolean;
+  units: boolean;
+  shorthands: boolean;
+  dedupe: boolean;
+}
+
+export const DEFAULT_STANDARDIZE_OPTIONS: StandardizeOptions = {
+  order: 'grouped',
+  lowercaseHex: true,
+  units: true,
+  shorthands: true,
+  dedupe: true
+};
+
+// A replacement of [start, end) in the text it was computed against
+export interface TextEdit {
+  start: number;
+  end: number;
+  code: string;
+}
+
+export interface RuleStandardization {
+  rule: ProjectCSSRule;
+  original: string;
+  standardized: string;
+  notes: string[];
+  // Relative to the rule's file
+  edits: TextEdit[];
+}
+
+interface Decl {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+// Grouped order: positioning, box model and layout, typography, visuals, motion
+const PROPERTY_GROUPS: RegExp[] = [
+  /^(position|top|right|bottom|left|inset|z-index)$/,
+  /^(display|flex|flex-.*|grid|grid-.*|align-.*|justify-.*|place-.*|order|gap|row-gap|column-gap|float|clear|box-sizing|width|min-width|max-width|height|min-height|max-height|aspect-ratio|margin|margin-.*|padding|padding-.*|overflow|overflow-.*)$/,
+  /^(font|font-.*|line-height|letter-spacing|word-spacing|text-.*|color|white-space|word-.*|vertical-align|list-style.*|direction)$/,
+  /^(background|background-.*|border|border-.*|outline|outline-.*|box-shadow|opacity|visibility|cursor|filter|backdrop-filter|object-.*)$/,
+  /^(transition|transition-.*|animation|animation-.*|transform|transform-.*|will-change)$/
+];
+
+const VENDOR_PREFIX = /^-(webkit|moz|ms|o)-/;
+const BOX_SIDES = ['top', 'right', 'bottom', 'left'];
+const SHORTHAND_FAMILIES = ['margin', 'padding'];
+// A later value like this is usually a progressive enhancement over the one before it
+export const FALLBACK_VALUE = /(^|[\s(,])-(webkit|moz|ms|o)-|\b(var|calc|min|max|clamp|env|color-mix|oklch|oklab|lch|lab)\(|-gradient\(/i;
+
+// Shorthands whose longhands aren't simply `${shorthand}-*`
+const IRREGULAR_LONGHANDS: Record<string, RegExp> = {
+  all: /./,
+  font: /^line-height$/,
+  inset: /^(top|right|bottom|left)$/,
+  'border-color': /^border-(top|right|bottom|left|block|inline)(-start|-end)?-color$/,
+  'border-style': /^border-(top|right|bottom|left|block|inline)(-start|-end)?-style$/,
+  'border-width': /^border-(top|right|bottom|left|block|inline)(-start|-end)?-width$/,
+  'border-radius': /^border-(top|bottom|start|end)-(left|right|start|end)-radius$/,
+  gap: /^(row|column)-gap$/,
+  'place-content': /^(align|justify)-content$/,
+  'place-items': /^(align|justify)-items$/,
+  'place-self': /^(align|justify)-self$/,
+  columns: /^column-(width|count)$/,
+  'grid-area': /^grid-(row|column)(-start|-end)?$/
+};
+
+const unprefixed = (property: string) => property.replace(VENDOR_PREFIX, '');
+
+const isLonghandOf = (longhand: string, shorthand: string) =>
+  longhand.startsWith(`${shorthand}-`) || (IRREGULAR_LONGHANDS[shorthand]?.test(longhand) ?? false);
+
+// Declarations whose relative order decides the computed style: a shorthand and one of its longhands
+function overlapping(a: string, b: string): boolean {
+  const [x, y] = [unprefixed(a), unprefixed(b)];
+  return x !== y && (isLonghandOf(x, y) || isLonghandOf(y, x));
+}
+
+function groupIndex(property: string): number {
+  const index = PROPERTY_GROUPS.findIndex(pattern => pattern.test(unprefixed(property)));
+  return index === -1 ? PROPERTY_GROUPS.length : index;
+}
+
+// Applies `transform` to the parts of a value outside strings and url(...), which must stay verbatim
+function mapOutsideLiterals(value: string, transform: (part: string) => string): string {
+  return value
+    .split(/("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|url\([^)]*\))/i)
+    .map((part, index) => index % 2 === 1 ? part : transform(part))
+    .join('');
+}
+
+function lowercaseHex(value: string): string {
+  return mapOutsideLiterals(value, part => part.replace(/#[\da-fA-F]{3,8}\b/g, hex => hex.toLowerCase()));
+}
+
+// Applies `transform` to the parts of a value outside calc(), min(), max() and clamp(), whose
+// arguments need their units: `calc(0 + 1em)` is invalid where `calc(0px + 1em)` isn't
+function mapOutsideMath(value: string, transform: (part: string) => string): string {
+  const pattern = /\b(?:calc|clamp|min|max)\(/gi;
+  let result = '';
+  let last = 0;
+  let match;
+  while ((match = pattern.exec(value)) !== null) {
+    let depth = 0;
+    let end = match.index + match[0].length - 1;
+    for (; end < value.length; end++) {
+      if (value[end] === '(') depth++;
+      else if (value[end] === ')' && --depth === 0) break;
+    }
+    result += transform(value.slice(last, match.index)) + value.slice(match.index, end + 1);
+    last = end + 1;
+    pattern.lastIndex = last;
+  }
+  return result + transform(value.slice(last));
+}
+
+// In the flex shorthand a unitless 0 is a flex factor: `flex: 1 0px` and `flex: 1 0` differ
+const KEEPS_ZERO_UNITS = /^(?:-webkit-|-ms-)?flex$/i;
+
+// Lowercase units, a leading zero on fractions, no trailing zeros, and unitless zero lengths
+function normalizeUnits(value: string, property = ''): string {
+  const normalized = mapOutsideLiterals(value, part => part
+    .replace(/(^|[^\w.#-])(-?)\.(\d)/g, '$1$20.$3')
+    .replace(/(\d+\.\d*?)0+(?=[a-zA-Z%\s,)\/]|$)/g, '$1')
+    .replace(/(\d)\.(?=[a-zA-Z%\s,)\/]|$)/g, '$1')
+    .replace(/(\d)(PX|EM|REM|VH|VW|VMIN|VMAX|PT|CH|EX|CM|MM|IN|PC|S|MS|DEG|FR)\b/gi, (_, digit: string, unit: string) => digit + unit.toLowerCase()));
+  if (KEEPS_ZERO_UNITS.test(property)) return normalized;
+  return mapOutsideMath(normalized, segment => mapOutsideLiterals(segment, part =>
+    part.replace(/(^|[^\w.#-])-?0(?:\.0+)?(px|em|rem|vh|vw|vmin|vmax|pt|ch|ex|cm|mm|in|pc)\b/g, '$10')));
+}
+
+// `a b a b` -> `a b`, and so on down to a single value
+export function collapseBox([top, right, bottom, left]: string[]): string {
+  if (left === right) {
+    if (bottom === top) return top === right ? top : `${top} ${right}`;
+    return `${top} ${right} ${bottom}`;
+  }
+  return `${top} ${right} ${bottom} ${left}`;
+}
+
+function consolidateShorthands(decls: Decl[], notes: string[]): Decl[] {
+  let result = decls;
+  SHORTHAND_FAMILIES.forEach(family => {
+    const longhands = BOX_SIDES.map(side => `${family}-${side}`);
+    const indexes = longhands.map(name => result.map(d => d.property).lastIndexOf(name));
+    if (indexes.some(index => index === -1)) return;
+
+    const sides = indexes.map(index => result[index]);
+    const first = Math.min(...indexes);
+    // Mixed !important, or a shorthand after the longhands, would change which value wins
+    if (sides.some(d => d.important !== sides[0].important)) return;
+    if (result.some((d, i) => d.property === family && i > first)) return;
+
+    const merged: Decl = { property: family, value: collapseBox(sides.map(d => d.value)), important: sides[0].important };
+    // An earlier shorthand is fully overridden by the merged one unless it's !important and the merge isn't
+    const consumed = (d: Decl, i: number) => d.property === family && i < first && (!d.important || merged.important);
+    result.filter(consumed).forEach(d => notes.push(`Removed duplicate ${family}: ${d.value}`));
+    result = result.flatMap((d, i) => {
+      if (i === first) return [merged];
+      return longhands.includes(d.property) || consumed(d, i) ? [] : [d];
+    });
+    notes.push(`Merged ${family}-* into ${family}`);
+  });
+  return result;
+}
+
+function removeDuplicates(decls: Decl[], notes: string[]): Decl[] {
+  return decls.filter((decl, index) => {
+    const later = decls.slice(index + 1).filter(d => d.property === decl.property);
+    if (later.length === 0) return true;
+    // Keep fallbacks like `display: -webkit-box; display: flex` or `color: red; color: var(--text)`
+    const isFallback = [decl, ...later].some(d => FALLBACK_VALUE.test(d.value)) && later.every(d => d.value !== decl.value);
+    if (isFallback) return true;
+    const overridden = later.some(d => d.important || !decl.important);
+    if (overridden) notes.push(`Removed duplicate ${decl.property}: ${decl.value}`);
+    return !overridden;
+  });
+}
+
+function sortRun(decls: Decl[], order: Exclude<PropertyOrder, 'none'>): Decl[] {
+  const keyed = decls.map((decl, index) => ({ decl, index }));
+  return keyed
+    .sort((a, b) => {
+      if (order === 'grouped') {
+        const byGroup = groupIndex(a.decl.property) - groupIndex(b.decl.property);
+        if (byGroup !== 0) return byGroup;
+        return a.index - b.index;
+      }
+      // Alphabetical, with vendor-prefixed variants just before the standard property
+      const byName = unprefixed(a.decl.property).localeCompare(unprefixed(b.decl.property));
+      if (byName !== 0) return byName;
+      const aPrefixed = VENDOR_PREFIX.test(a.decl.property);
+      const bPrefixed = VENDOR_PREFIX.test(b.decl.property);
+      return aPrefixed === bPrefixed ? a.index - b.index : aPrefixed ? -1 : 1;
+    })
+    .map(entry => entry.decl);
+}
+
+// Custom properties lead, in their original order. The rest is sorted in runs that never hold both a
+// shorthand and one of its longhands, so `margin-top: 5px; margin: 0` keeps its order.
+function orderDeclarations(decls: Decl[], order: PropertyOrder): Decl[] {
+  if (order === 'none') return decls;
+  const runs: Decl[][] = [];
+  decls.filter(d => !d.property.startsWith('--')).forEach(decl => {
+    const run = runs[runs.length - 1];
+    if (run && !run.some(d => overlapping(d.property, decl.property))) run.push(decl);
+    else runs.push([decl]);
+  });
+  return [...decls.filter(d => d.property.startsWith('--')), ...runs.flatMap(run => sortRun(run, order))];
+}
+
+const formatDecl = (decl: Decl) => `${decl.property}: ${decl.value}${decl.important ? ' !important' : ''};`;
+
+const sameDecls = (a: Decl[], b: Decl[]) =>
+  a.length === b.length && a.every((d, i) => d.property === b[i].property && d.value === b[i].value && d.important === b[i].important);
+
+export function applyEdits(text: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((acc, edit) => acc.slice(0, edit.start) + edit.code + acc.slice(edit.end), text);
+}
+
+// Edits to one rule's own declarations, relative to `raw`; nested rules are standardized separately
+export function standardizeRuleSource(raw: string, options: StandardizeOptions): { edits: TextEdit[]; notes: string[] } {
+  const rule = parseStylesheet(raw).children.find((node): node is CSSRule => node.type === 'rule');
+  const notes: string[] = [];
+  if (!rule) return { edits: [], notes };
+
+  const declarations = rule.children.filter((child): child is CSSDeclaration => child.type === 'declaration');
+  if (declarations.length === 0) return { edits: [], notes };
+
+  const original: Decl[] = declarations.map(d => ({ property: d.property, value: d.value, important: d.important }));
+  let next: Decl[] = original.map(d => {
+    if (d.property.startsWith('--')) return d;
+    let value = d.value;
+    if (options.lowercaseHex) value = lowercaseHex(value);
+    if (options.units) value = normalizeUnits(value, d.property);
+    return { ...d, property: d.property.toLowerCase(), value };
+  });
+  const changed = (transform: (value: string, property: string) => string) =>
+    original.some(d => !d.property.startsWith('--') && transform(d.value, d.property) !== d.value);
+  if (options.lowercaseHex && changed(lowercaseHex)) notes.push('Lowercased hex colors');
+  if (options.units && changed(normalizeUnits)) notes.push('Normalized units');
+
+  const valueOnly = next;
+  if (options.dedupe) next = removeDuplicates(next, notes);
+  if (options.shorthands) next = consolidateShorthands(next, notes);
+  const ordered = orderDeclarations(next, options.order);
+  if (!sameDecls(ordered, next)) notes.push(options.order === 'grouped' ? 'Grouped properties' : 'Sorted properties alphabetically');
+  next = ordered;
+
+  const first = declarations[0].range.start;
+  const last = declarations[declarations.length - 1].range.end;
+  const interleaved = rule.children.some(child => child.type !== 'declaration' && child.range.start > first && child.range.start < last);
+
+  if (!sameDecls(next, valueOnly) && !interleaved) {
+    // Rewrite the whole declaration list, one per line when the rule was written that way
+    const multiline = raw.slice(rule.blockRange.start, first).includes('\n');
+    const lineStart = raw.lastIndexOf('\n', first) + 1;
+    const indent = raw.slice(lineStart, first);
+    const code = next.map(formatDecl).join(multiline ? `\n${indent}` : ' ');
+    return { edits: [{ start: first, end: last, code }], notes };
+  }
+
+  if (!sameDecls(next, valueOnly)) {
+    notes.push('Kept property order: comments or nested rules sit between declarations');
+  }
+  // Only values changed (or reordering isn't safe): touch just those declarations
+  const edits = declarations
+    .map((decl, i) => ({ decl, next: valueOnly[i] }))
+    .filter(({ decl, next }) => next.value !== decl.value || next.property !== decl.property)
+    .map(({ decl, next }) => ({ start: decl.range.start, end: decl.range.end, code: formatDecl(next) }));
+  return { edits, notes: notes.filter(note => !/Removed|Merged|Grouped|Sorted/.test(note)) };
+}
+
+// Only rules that actually change are returned
+export function standardizeRules(rules: ProjectCSSRule[], options: StandardizeOptions): RuleStandardization[] {
+  return rules.flatMap(rule => {
+    const { edits, notes } = standardizeRuleSource(rule.rawContent, options);
+    const standardized = applyEdits(rule.rawContent, edits);
+    if (standardized === rule.rawContent) return [];
+    return [{
+      rule,
+      original: rule.rawContent,
+      standardized,
+      notes,
+      edits: edits.map(edit => ({ ...edit, start: edit.start + rule.start, end: edit.end + rule.start }))
+    }];
+  });
+}
+
+// Applies every standardized rule's edits to its file; edits from different rules never overlap
+export function applyStandardization(content: string, results: RuleStandardization[]): string {
+  return applyEdits(content, results.flatMap(result => result.edits));
+}
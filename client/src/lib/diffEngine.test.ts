@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { applyHunks, diffHunks, diffLines, formatUnifiedDiff, splitLines } from './diffEngine';
+
+const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe('diffHunks', () => {
+  it('treats an empty file as having no lines', () => {
+    expect(splitLines('')).toEqual([]);
+    expect(diffHunks('', '')).toEqual([]);
+
+    const [added] = diffHunks('', 'a\nb');
+    expect(added).toMatchObject({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 2 });
+    expect(formatUnifiedDiff(diffHunks('a', ''))).toBe('--- original\n+++ modified\n@@ -1,1 +0,0 @@\n-a');
+  });
+
+  it('reports a missing trailing newline as a change to the last line', () => {
+    const [hunk] = diffHunks('a\nb', 'a\nb\n');
+
+    expect(hunk.lines.filter(line => line.type !== 'equal')).toEqual([{ type: 'added', text: '', oldLine: null, newLine: 3 }]);
+  });
+
+  it('ignores CRLF versus LF line endings', () => {
+    expect(diffHunks('a\r\nb\r\n', 'a\nb\n')).toEqual([]);
+    expect(diffLines('a\r\nb', 'a\r\nc').map(line => `${line.type} ${line.text}`)).toEqual(['equal a', 'removed b', 'added c']);
+  });
+
+  it('splits distant changes into separate hunks with context', () => {
+    const original = lines(20);
+    const modified = [...original];
+    modified[1] = 'changed 2';
+    modified[17] = 'changed 18';
+    const hunks = diffHunks(original.join('\n'), modified.join('\n'));
+
+    expect(hunks.map(hunk => [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines])).toEqual([[1, 5, 1, 5], [15, 6, 15, 6]]);
+  });
+});
+
+describe('applyHunks', () => {
+  const original = lines(20).join('\n');
+  const modified = lines(20).map((line, i) => (i === 1 ? 'changed 2' : i === 17 ? 'changed 18' : line)).join('\n');
+  const hunks = diffHunks(original, modified);
+
+  it('rebuilds either side when every hunk is accepted or rejected', () => {
+    expect(applyHunks(original, hunks, [true, true])).toBe(modified);
+    expect(applyHunks(original, hunks, [false, false])).toBe(original);
+  });
+
+  it('takes only the accepted hunks', () => {
+    const result = splitLines(applyHunks(original, hunks, [false, true]));
+
+    expect(result[1]).toBe('line 2');
+    expect(result[17]).toBe('changed 18');
+    expect(result).toHaveLength(20);
+  });
+
+  it('handles insertions and deletions that shift later hunks', () => {
+    const source = lines(12).join('\n');
+    const target = ['inserted', ...lines(12).slice(0, 10)].join('\n');
+    const changes = diffHunks(source, target, 1);
+
+    expect(changes).toHaveLength(2);
+    expect(applyHunks(source, changes, [true, false])).toBe(['inserted', ...lines(12)].join('\n'));
+    expect(applyHunks(source, changes, [false, true])).toBe(lines(10).join('\n'));
+  });
+
+  it('creates and empties whole files', () => {
+    expect(applyHunks('', diffHunks('', 'a\nb\n'), [true])).toBe('a\nb\n');
+    expect(applyHunks('a\nb\n', diffHunks('a\nb\n', ''), [true])).toBe('');
+    expect(applyHunks('a\nb\n', diffHunks('a\nb\n', ''), [false])).toBe('a\nb\n');
+  });
+
+  it('keeps or adds the trailing newline as the accepted hunk says', () => {
+    expect(applyHunks('a\nb', diffHunks('a\nb', 'a\nb\n'), [true])).toBe('a\nb\n');
+    expect(applyHunks('a\nb\n', diffHunks('a\nb\n', 'a\nb'), [true])).toBe('a\nb');
+    expect(applyHunks('a\nb\n', diffHunks('a\nb\n', 'a\nb'), [false])).toBe('a\nb\n');
+  });
+
+  it('keeps the original CRLF line endings', () => {
+    const crlf = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\r\n') + '\r\n';
+    const edited = crlf.replace('b', 'B').replace('i', 'I').replace(/\r\n/g, '\n');
+    const changes = diffHunks(crlf, edited, 1);
+
+    expect(applyHunks(crlf, changes, [false, false])).toBe(crlf);
+    expect(applyHunks(crlf, changes, [true, false])).toBe(crlf.replace('b', 'B'));
+  });
+});
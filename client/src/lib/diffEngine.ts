@@ -0,0 +1,327 @@
+import type { AnalysisChange } from '@/types/workshop';
+
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers; null on the side the line doesn't exist
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface InlineSegment {
+  text: string;
+  changed: boolean;
+}
+
+export interface SplitRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+  leftSegments?: InlineSegment[];
+  rightSegments?: InlineSegment[];
+}
+
+type EditOp = { type: DiffLineType; aIndex: number; bIndex: number };
+
+// Above this edit distance the exact trace gets too large; fall back to a block replace
+const MAX_EDIT_DISTANCE = 4000;
+
+// Myers' O((N+M)D) shortest edit script. Returns ops in forward order.
+function myers<T>(a: T[], b: T[]): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d-1 .. d+1] as it was before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', aIndex: x - 1, bIndex: y - 1 });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'added', aIndex: x, bIndex: y - 1 });
+      } else {
+        ops.push({ type: 'removed', aIndex: x - 1, bIndex: y });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+function diffSequences<T>(a: T[], b: T[]): EditOp[] {
+  // Trimming the shared prefix/suffix keeps the edit graph small for typical edits
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: EditOp[] = [];
+  for (let i = 0; i < start; i++) ops.push({ type: 'equal', aIndex: i, bIndex: i });
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myers(middleA, middleB) ?? [
+    ...middleA.map((_, i) => ({ type: 'removed' as const, aIndex: i, bIndex: 0 })),
+    ...middleB.map((_, i) => ({ type: 'added' as const, aIndex: middleA.length, bIndex: i })),
+  ];
+  for (const op of middle) {
+    ops.push({ type: op.type, aIndex: op.aIndex + start, bIndex: op.bIndex + start });
+  }
+
+  for (let i = 0; i < a.length - endA; i++) {
+    ops.push({ type: 'equal', aIndex: endA + i, bIndex: endB + i });
+  }
+  return ops;
+}
+
+export function splitLines(text: string): string[] {
+  return text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n');
+}
+
+export function diffLines(original: string, modified: string): DiffLine[] {
+  const a = splitLines(original);
+  const b = splitLines(modified);
+
+  return diffSequences(a, b).map(op => ({
+    type: op.type,
+    text: op.type === 'added' ? b[op.bIndex] : a[op.aIndex],
+    oldLine: op.type === 'added' ? null : op.aIndex + 1,
+    newLine: op.type === 'removed' ? null : op.bIndex + 1
+  }));
+}
+
+export function buildHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    // Find the next change, then extend until the gap between changes exceeds 2 * context
+    while (index < lines.length && lines[index].type === 'equal') index++;
+    if (index >= lines.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < lines.length && end - lastChange <= context * 2) {
+      if (lines[end].type !== 'equal') lastChange = end;
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + context + 1);
+
+    const hunkLines = lines.slice(start, end);
+    const oldCount = hunkLines.filter(l => l.type !== 'added').length;
+    const newCount = hunkLines.filter(l => l.type !== 'removed').length;
+    // Line before the hunk on each side; unified diff uses it as the start of empty ranges
+    const oldBefore = lines.slice(0, start).filter(l => l.type !== 'added').length;
+    const newBefore = lines.slice(0, start).filter(l => l.type !== 'removed').length;
+
+    hunks.push({
+      oldStart: oldCount === 0 ? oldBefore : oldBefore + 1,
+      oldLines: oldCount,
+      newStart: newCount === 0 ? newBefore : newBefore + 1,
+      newLines: newCount,
+      lines: hunkLines
+    });
+    index = end;
+  }
+
+  return hunks;
+}
+
+export function diffHunks(original: string, modified: string, context = 3): DiffHunk[] {
+  return buildHunks(diffLines(original, modified), context);
+}
+
+// Rebuilds the code from the original, taking the new side only for accepted hunks.
+// Lines are compared without their CR, so the original's line ending is put back on join.
+export function applyHunks(original: string, hunks: DiffHunk[], accepted: boolean[]): string {
+  const source = splitLines(original);
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const result: string[] = [];
+  let cursor = 0;
+
+  hunks.forEach((hunk, index) => {
+    const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    result.push(...source.slice(cursor, start));
+    const keep = accepted[index] ? 'removed' : 'added';
+    result.push(...hunk.lines.filter(l => l.type !== keep).map(l => l.text));
+    cursor = start + hunk.oldLines;
+  });
+  result.push(...source.slice(cursor));
+
+  return result.join(eol);
+}
+
+function tokenize(line: string): string[] {
+  return line.match(/\s+|[A-Za-z0-9_]+|[^\sA-Za-z0-9_]/g) ?? [];
+}
+
+function mergeSegments(segments: InlineSegment[]): InlineSegment[] {
+  return segments.reduce<InlineSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.changed === segment.changed) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+}
+
+// Word-level diff of a removed/added line pair for intra-line highlighting
+export function diffInline(oldText: string, newText: string): { oldSegments: InlineSegment[]; newSegments: InlineSegment[] } {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+  const oldSegments: InlineSegment[] = [];
+  const newSegments: InlineSegment[] = [];
+
+  for (const op of diffSequences(a, b)) {
+    if (op.type === 'equal') {
+      oldSegments.push({ text: a[op.aIndex], changed: false });
+      newSegments.push({ text: b[op.bIndex], changed: false });
+    } else if (op.type === 'removed') {
+      oldSegments.push({ text: a[op.aIndex], changed: true });
+    } else {
+      newSegments.push({ text: b[op.bIndex], changed: true });
+    }
+  }
+
+  return { oldSegments: mergeSegments(oldSegments), newSegments: mergeSegments(newSegments) };
+}
+
+// Lines in a removed run followed by an added run are paired up as modifications
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].type === 'equal') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'removed') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'added') added.push(lines[i++]);
+
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      const left = removed[j] ?? null;
+      const right = added[j] ?? null;
+      if (left && right) {
+        const { oldSegments, newSegments } = diffInline(left.text, right.text);
+        rows.push({ left, right, leftSegments: oldSegments, rightSegments: newSegments });
+      } else {
+        rows.push({ left, right });
+      }
+    }
+  }
+
+  return rows;
+}
+
+// Unified view keeps line order but carries the same intra-line pairing as the split view
+export function toUnifiedLines(lines: DiffLine[]): Array<{ line: DiffLine; segments?: InlineSegment[] }> {
+  const segmentsByLine = new Map<DiffLine, InlineSegment[]>();
+  for (const row of toSplitRows(lines)) {
+    if (row.left && row.right && row.left !== row.right) {
+      segmentsByLine.set(row.left, row.leftSegments!);
+      segmentsByLine.set(row.right, row.rightSegments!);
+    }
+  }
+  return lines.map(line => ({ line, segments: segmentsByLine.get(line) }));
+}
+
+export function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+export function formatUnifiedDiff(hunks: DiffHunk[], oldName = 'original', newName = 'modified'): string {
+  if (hunks.length === 0) return '';
+  const body = hunks.map(hunk => [
+    formatHunkHeader(hunk),
+    ...hunk.lines.map(l => `${l.type === 'added' ? '+' : l.type === 'removed' ? '-' : ' '}${l.text}`)
+  ].join('\n'));
+  return [`--- ${oldName}`, `+++ ${newName}`, ...body].join('\n');
+}
+
+// One AnalysisChange per hunk, pointing at where the first change lands in the new code
+export function hunksToChanges(hunks: DiffHunk[], tool: string, description: string, file?: string): AnalysisChange[] {
+  const stamp = Date.now();
+  return hunks.map((hunk, index) => {
+    const firstIndex = hunk.lines.findIndex(l => l.type !== 'equal');
+    const changed = hunk.lines.filter(l => l.type !== 'equal');
+    const added = changed.filter(l => l.type === 'added').length;
+    const removed = changed.length - added;
+    const shown = changed.find(l => l.type === 'added') ?? changed[0];
+    // Leading context is all equal lines, so the change sits firstIndex lines into the new range
+    const newFirstLine = hunk.newLines === 0 ? hunk.newStart + 1 : hunk.newStart;
+
+    return {
+      id: file ? `${stamp}-${file}-${index}` : `${stamp}-${index}`,
+      type: removed === 0 ? 'added' : added === 0 ? 'removed' : 'modified',
+      line: Math.max(1, newFirstLine + firstIndex),
+      content: shown.text.trim().slice(0, 120),
+      tool,
+      description: `${description} (${formatHunkHeader(hunk)} +${added} −${removed})`,
+      file
+    };
+  });
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { ProjectFile } from '@/types/workshop';
+import {
+  extractInlineStyles,
+  extractionTargets,
+  findInlineStyles,
+  groupInlineStyles,
+  unreachedOccurrences,
+  type ExtractionGroup
+} from './inlineStyles';
+
+const file = (name: string, content: string): ProjectFile => ({
+  id: name,
+  name,
+  content,
+  type: name.endsWith('.html') ? 'html' : 'css',
+  size: content.length
+});
+
+const selectAll = (files: ProjectFile[]): ExtractionGroup[] =>
+  groupInlineStyles(findInlineStyles(files)).map(group => ({ group, className: group.suggestedName }));
+
+const extract = (files: ProjectFile[], target: Parameters<typeof extractInlineStyles>[2], important = false) =>
+  Object.fromEntries(extractInlineStyles(files, selectAll(files), target, important).map(edit => [edit.file.name, edit.code]));
+
+describe('findInlineStyles', () => {
+  it('finds style attributes with their class attribute, skipping comments, scripts and templates', () => {
+    const html = [
+      '<div class="box" style="color: red; margin:0">',
+      '<!-- <p style="color: blue"> -->',
+      '<script>const s = \'<p style="color: green">\';</script>',
+      '<span style="width: {{ w }}">',
+      '<p style="">'
+    ].join('\n');
+    const [style, ...rest] = findInlineStyles([file('a.html', html)]);
+
+    expect(rest).toEqual([]);
+    expect(style).toMatchObject({
+      fileName: 'a.html',
+      tag: 'div',
+      line: 1,
+      classValue: { value: 'box' },
+      declarations: [
+        { property: 'color', value: 'red', important: false },
+        { property: 'margin', value: '0', important: false }
+      ]
+    });
+    expect(html.slice(style.attrStart, style.attrEnd)).toBe(' style="color: red; margin:0"');
+  });
+
+  it('groups identical declaration sets regardless of order, most repeated first', () => {
+    const groups = groupInlineStyles(findInlineStyles([
+      file('a.html', '<b style="margin: 0"></b><p style="color:red;margin:0"><p style="margin: 0; color: red">')
+    ]));
+
+    expect(groups.map(group => [group.suggestedName, group.occurrences.length])).toEqual([['p-style-1', 2], ['b-style-2', 1]]);
+  });
+});
+
+describe('extractInlineStyles', () => {
+  it('adds to an existing class attribute and appends rules to a stylesheet', () => {
+    const files = [
+      file('site.css', 'body { margin: 0; }'),
+      file('a.html', '<link rel="stylesheet" href="site.css">\n<p class="lead" style="color:red">Hi</p>')
+    ];
+
+    expect(extract(files, { kind: 'css', fileName: 'site.css' }, true)).toEqual({
+      'site.css': 'body { margin: 0; }\n\n.p-style-1 {\n  color: red !important;\n}\n',
+      'a.html': '<link rel="stylesheet" href="site.css">\n<p class="lead p-style-1">Hi</p>'
+    });
+  });
+
+  it('writes into a page\'s <style> block, indented like its last rule', () => {
+    const files = [file('a.html', '<head>\n<style>\n  h1 { margin: 0; }\n</style>\n</head>\n<p style="color:red">')];
+
+    expect(extract(files, { kind: 'style', fileName: 'a.html', index: 0 })).toEqual({
+      'a.html': '<head>\n<style>\n  h1 { margin: 0; }\n\n  .p-style-1 {\n    color: red;\n  }\n</style>\n</head>\n<p class="p-style-1">'
+    });
+  });
+
+  it('only rewrites elements on pages a <style> target reaches', () => {
+    const files = [
+      file('a.html', '<head><style></style></head><p style="color:red">'),
+      file('b.html', '<p style="color:red">')
+    ];
+    const target = { kind: 'style' as const, fileName: 'a.html', index: 0 };
+
+    expect(extract(files, target)).toEqual({
+      'a.html': '<head><style>\n.p-style-1 {\n  color: red;\n}\n</style></head><p class="p-style-1">'
+    });
+    expect(unreachedOccurrences(files, selectAll(files), target).map(style => style.fileName)).toEqual(['b.html']);
+  });
+
+  it('only rewrites elements on pages that link a stylesheet target', () => {
+    const files = [
+      file('site.css', ''),
+      file('a.html', '<link rel="stylesheet" href="./site.css"><p style="color:red">'),
+      file('b.html', '<p style="color:red">')
+    ];
+    const target = { kind: 'css' as const, fileName: 'site.css' };
+
+    expect(Object.keys(extract(files, target))).toEqual(['site.css', 'a.html']);
+    expect(unreachedOccurrences(files, selectAll(files), target).map(style => style.fileName)).toEqual(['b.html']);
+  });
+
+  it('changes nothing when the target reaches none of the elements', () => {
+    const files = [file('site.css', ''), file('a.html', '<p style="color:red">')];
+
+    expect(extract(files, { kind: 'css', fileName: 'site.css' })).toEqual({});
+  });
+
+  it('offers a new <style> block for pages without one', () => {
+    const files = [file('site.css', ''), file('a.html', '<head></head>'), file('b.html', '<style></style>')];
+
+    expect(extractionTargets(files).map(entry => entry.label)).toEqual(['site.css', 'a.html (new <style> in <head>)', 'b.html <style>']);
+  });
+});
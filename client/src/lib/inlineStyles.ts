@@ -0,0 +1,223 @@
+import type { ProjectFile } from '@/types/workshop';
+import { parseStylesheet, type CSSDeclaration, type CSSRule } from './cssParser';
+import { pageStylesheets } from './cssPreview';
+import { applyEdits, type TextEdit } from './cssStandardize';
+import { getLineStarts, lineAt } from './syntaxHighlighter';
+
+export interface InlineStyle {
+  fileName: string;
+  tag: string;
+  // 1-based
+  line: number;
+  // The ` style="..."` attribute, leading whitespace included
+  attrStart: number;
+  attrEnd: number;
+  // The existing class attribute's value, if the element has one
+  classValue: { start: number; end: number; value: string } | null;
+  declarations: Array<{ property: string; value: string; important: boolean }>;
+}
+
+export interface InlineStyleGroup {
+  // Normalized declarations shared by every occurrence
+  key: string;
+  declarations: InlineStyle['declarations'];
+  occurrences: InlineStyle[];
+  suggestedName: string;
+}
+
+// Where extracted classes are written
+export type ExtractionTarget =
+  | { kind: 'css'; fileName: string }
+  | { kind: 'style'; fileName: string; index: number }
+  | { kind: 'new-style'; fileName: string };
+
+export interface ExtractionGroup {
+  group: InlineStyleGroup;
+  className: string;
+}
+
+const TAG = /<([a-zA-Z][\w-]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const STYLE_ATTRIBUTE = /\sstyle\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+const CLASS_ATTRIBUTE = /\sclass\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+// Comments, scripts and styles hold text that only looks like tags
+const OPAQUE = /<!--[\s\S]*?-->|(<script\b[^>]*>)[\s\S]*?(?=<\/script)|(<style\b[^>]*>)[\s\S]*?(?=<\/style)/gi;
+
+// Same-length blanking keeps every offset valid
+function maskOpaque(html: string): string {
+  return html.replace(OPAQUE, (match, script?: string, style?: string) => {
+    const keep = script || style || '';
+    return keep + match.slice(keep.length).replace(/[^\n]/g, ' ');
+  });
+}
+
+function parseDeclarations(style: string): InlineStyle['declarations'] | null {
+  const sheet = parseStylesheet(`x{${style}}`);
+  const rule = sheet.children[0] as CSSRule | undefined;
+  if (sheet.errors.length > 0 || !rule || rule.type !== 'rule') return null;
+  return rule.children
+    .filter((child): child is CSSDeclaration => child.type === 'declaration')
+    .map(d => ({ property: d.property.toLowerCase(), value: d.value.replace(/\s+/g, ' '), important: d.important }));
+}
+
+const formatDeclaration = (d: InlineStyle['declarations'][number], important = false) =>
+  `${d.property}: ${d.value}${d.important || important ? ' !important' : ''};`;
+
+// Property order only matters when a property repeats
+function groupKey(declarations: InlineStyle['declarations']): string {
+  const properties = declarations.map(d => d.property);
+  const unique = new Set(properties).size === properties.length;
+  const ordered = unique ? [...declarations].sort((a, b) => a.property.localeCompare(b.property)) : declarations;
+  return ordered.map(d => formatDeclaration(d)).join(' ');
+}
+
+// Every non-empty `style` attribute in the HTML files; template placeholders are left alone
+export function findInlineStyles(files: ProjectFile[]): InlineStyle[] {
+  return files.filter(f => f.type === 'html').flatMap(file => {
+    const masked = maskOpaque(file.content);
+    const lineStarts = getLineStarts(file.content);
+    const found: InlineStyle[] = [];
+    let match;
+
+    TAG.lastIndex = 0;
+    while ((match = TAG.exec(masked)) !== null) {
+      const attributes = match[2];
+      const style = STYLE_ATTRIBUTE.exec(attributes);
+      if (!style) continue;
+      const value = style[1] ?? style[2];
+      if (!value.trim() || /\{\{|\$\{|<%/.test(value)) continue;
+      const declarations = parseDeclarations(value);
+      if (!declarations || declarations.length === 0) continue;
+
+      const attributesStart = match.index + 1 + match[1].length;
+      const attrStart = attributesStart + style.index;
+      const classAttr = CLASS_ATTRIBUTE.exec(attributes);
+      const classValue = classAttr
+        ? (() => {
+            const text = classAttr[1] ?? classAttr[2];
+            const start = attributesStart + classAttr.index + classAttr[0].length - 1 - text.length;
+            return { start, end: start + text.length, value: text };
+          })()
+        : null;
+
+      found.push({
+        fileName: file.name,
+        tag: match[1].toLowerCase(),
+        line: lineAt(lineStarts, match.index) + 1,
+        attrStart,
+        attrEnd: attrStart + style[0].length,
+        classValue,
+        declarations
+      });
+    }
+    return found;
+  });
+}
+
+// Identical declaration sets share a group, most repeated first
+export function groupInlineStyles(styles: InlineStyle[]): InlineStyleGroup[] {
+  const groups = new Map<string, InlineStyleGroup>();
+  styles.forEach(style => {
+    const key = groupKey(style.declarations);
+    const group = groups.get(key);
+    if (group) group.occurrences.push(style);
+    else groups.set(key, { key, declarations: style.declarations, occurrences: [style], suggestedName: '' });
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => b.occurrences.length - a.occurrences.length)
+    .map((group, i) => ({ ...group, suggestedName: `${group.occurrences[0].tag}-style-${i + 1}` }));
+}
+
+// Places a class can be written to: every stylesheet, every existing <style> block, or a new block per page
+export function extractionTargets(files: ProjectFile[]): Array<{ target: ExtractionTarget; label: string }> {
+  const targets: Array<{ target: ExtractionTarget; label: string }> = [];
+  files.filter(f => f.type === 'css').forEach(f => targets.push({ target: { kind: 'css', fileName: f.name }, label: f.name }));
+  files.filter(f => f.type === 'html').forEach(f => {
+    const blocks = f.content.match(/<style\b[^>]*>/gi) || [];
+    blocks.forEach((_, index) => targets.push({
+      target: { kind: 'style', fileName: f.name, index },
+      label: blocks.length > 1 ? `${f.name} <style> #${index + 1}` : `${f.name} <style>`
+    }));
+    if (blocks.length === 0) targets.push({ target: { kind: 'new-style', fileName: f.name }, label: `${f.name} (new <style> in <head>)` });
+  });
+  return targets;
+}
+
+// A stylesheet reaches the pages that link it; a <style> block only its own page
+export function pagesReached(files: ProjectFile[], target: ExtractionTarget): Set<string> {
+  if (target.kind !== 'css') return new Set([target.fileName]);
+  return new Set(files
+    .filter(f => f.type === 'html' && pageStylesheets(files, f).some(sheet => sheet.type === 'file' && sheet.fileName === target.fileName))
+    .map(f => f.name));
+}
+
+// Occurrences on pages the target doesn't reach; extraction leaves their style attributes in place
+export function unreachedOccurrences(files: ProjectFile[], groups: ExtractionGroup[], target: ExtractionTarget): InlineStyle[] {
+  const reached = pagesReached(files, target);
+  return groups.flatMap(({ group }) => group.occurrences.filter(style => !reached.has(style.fileName)));
+}
+
+function classRules(groups: ExtractionGroup[], important: boolean, indent: string): string {
+  return groups
+    .map(({ group, className }) => `${indent}.${className} {\n${group.declarations.map(d => `${indent}  ${formatDeclaration(d, important)}`).join('\n')}\n${indent}}`)
+    .join('\n\n');
+}
+
+// The class rules land in the target, and each element on a page the target reaches swaps its style
+// attribute for the class (see unreachedOccurrences for the rest).
+// `important` keeps the inline styles' precedence over rules that already match those elements.
+export function extractInlineStyles(
+  files: ProjectFile[],
+  selection: ExtractionGroup[],
+  target: ExtractionTarget,
+  important: boolean
+): Array<{ file: ProjectFile; code: string }> {
+  const edits = new Map<string, TextEdit[]>();
+  const push = (fileName: string, edit: TextEdit) => edits.set(fileName, [...(edits.get(fileName) || []), edit]);
+  const reached = pagesReached(files, target);
+  const groups = selection.filter(({ group }) => group.occurrences.some(style => reached.has(style.fileName)));
+  if (groups.length === 0) return [];
+
+  groups.forEach(({ group, className }) => {
+    group.occurrences.filter(style => reached.has(style.fileName)).forEach(style => {
+      if (style.classValue) {
+        push(style.fileName, { start: style.attrStart, end: style.attrEnd, code: '' });
+        const { end, value } = style.classValue;
+        push(style.fileName, { start: end, end, code: value.trim() ? ` ${className}` : className });
+      } else {
+        push(style.fileName, { start: style.attrStart, end: style.attrEnd, code: ` class="${className}"` });
+      }
+    });
+  });
+
+  const targetFile = files.find(f => f.name === target.fileName);
+  if (!targetFile) return [];
+  const content = targetFile.content;
+
+  if (target.kind === 'css') {
+    const separator = content.trim() ? (content.endsWith('\n') ? '\n' : '\n\n') : '';
+    push(target.fileName, { start: content.length, end: content.length, code: `${separator}${classRules(groups, important, '')}\n` });
+  } else if (target.kind === 'style') {
+    const block = Array.from(content.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style\s*>/gi))[target.index];
+    if (!block) return [];
+    const innerStart = block.index! + block[0].indexOf('>') + 1;
+    const inner = block[1];
+    if (!inner.trim()) {
+      push(target.fileName, { start: innerStart, end: innerStart + inner.length, code: `\n${classRules(groups, important, '')}\n` });
+    } else {
+      // After the block's last rule, indented like it
+      const at = innerStart + inner.trimEnd().length;
+      const indent = /(?:^|\n)([ \t]*)[^\n]*$/.exec(inner.trimEnd())![1];
+      push(target.fileName, { start: at, end: at, code: `\n\n${classRules(groups, important, indent)}` });
+    }
+  } else {
+    const head = /<\/head\s*>/i.exec(content);
+    const at = head ? head.index : 0;
+    push(target.fileName, { start: at, end: at, code: `<style>\n${classRules(groups, important, '')}\n</style>\n` });
+  }
+
+  return files.flatMap(file => {
+    const fileEdits = edits.get(file.name);
+    return fileEdits ? [{ file, code: applyEdits(file.content, fileEdits) }] : [];
+  });
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SEARCH_OPTIONS, replaceInContent, searchFiles, type SearchOptions } from './projectSearch';
+
+const options = (overrides: Partial<SearchOptions> = {}): SearchOptions => ({ ...DEFAULT_SEARCH_OPTIONS, ...overrides });
+
+describe('searchFiles', () => {
+  const files = [
+    { name: 'a.css', content: '.btn { color: red; }\n.Button { color: Red; }\n.redish {}' },
+    { name: 'b.js', content: 'const x = 1;' }
+  ];
+
+  it('reports 1-based lines and columns per file, dropping files without matches', () => {
+    expect(searchFiles(files, 'red', options())).toEqual([{
+      filename: 'a.css',
+      matches: [
+        { line: 1, column: 15, length: 3, content: '.btn { color: red; }' },
+        { line: 2, column: 18, length: 3, content: '.Button { color: Red; }' },
+        { line: 3, column: 2, length: 3, content: '.redish {}' }
+      ]
+    }]);
+  });
+
+  it('honours match case and whole word', () => {
+    const lines = (opts: Partial<SearchOptions>) => searchFiles(files, 'red', options(opts)).flatMap(result => result.matches.map(match => match.line));
+
+    expect(lines({ caseSensitive: true })).toEqual([1, 3]);
+    expect(lines({ wholeWord: true })).toEqual([1, 2]);
+  });
+
+  it('treats the term literally unless regex is on, and skips empty matches', () => {
+    expect(searchFiles(files, '.', options())[0].matches).toHaveLength(3);
+    expect(searchFiles(files, 'x*', options({ regex: true }))).toEqual([
+      { filename: 'b.js', matches: [{ line: 1, column: 7, length: 1, content: 'const x = 1;' }] }
+    ]);
+    expect(() => searchFiles(files, '(', options({ regex: true }))).toThrow(SyntaxError);
+  });
+
+  it('returns nothing for an empty term', () => {
+    expect(searchFiles(files, '', options())).toEqual([]);
+  });
+});
+
+describe('replaceInContent', () => {
+  it('inserts a plain replacement literally and counts matches', () => {
+    expect(replaceInContent('a.b a.b', 'a.b', '$&-$1', options())).toEqual({ code: '$&-$1 $&-$1', count: 2 });
+    expect(replaceInContent('abc', '', 'x', options())).toEqual({ code: 'abc', count: 0 });
+  });
+
+  it('expands replacement patterns exactly like String.prototype.replace', () => {
+    const cases: Array<[string, string, string]> = [
+      ['color: red;', '(red)', '$10'],
+      ['color: red;', '(red)', '$01$2$0$00'],
+      ['ab', '(a)(b)?', '[$2|$1]'],
+      ['abcdefghijk', '(a)(b)(c)(d)(e)(f)(g)(h)(i)(j)(k)', '$11-$10-$1'],
+      ['color: red;', '(?<word>red)', '<$<word>|$<none>|$<word>'],
+      ['color: red;', '(red)', '$<word>'],
+      ['color: red;', 'red', "[$`|$'|$$|$&|$]"]
+    ];
+
+    for (const [content, term, replacement] of cases) {
+      const expected = content.replace(new RegExp(term, 'gi'), replacement);
+      expect(replaceInContent(content, term, replacement, options({ regex: true })).code, `${term} → ${replacement}`).toBe(expected);
+    }
+  });
+
+  it('leaves empty matches alone', () => {
+    expect(replaceInContent('aab', 'a*', 'x', options({ regex: true }))).toEqual({ code: 'xb', count: 1 });
+  });
+
+  it('respects whole word and match case', () => {
+    expect(replaceInContent('red Red redder', 'red', 'blue', options({ wholeWord: true, caseSensitive: true }))).toEqual({
+      code: 'blue Red redder',
+      count: 1
+    });
+  });
+});
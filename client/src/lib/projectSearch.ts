@@ -0,0 +1,135 @@
+export interface SearchOptions {
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchMatch {
+  // 1-based line of the match start
+  line: number;
+  column: number;
+  length: number;
+  // Full text of the line the match starts on
+  content: string;
+}
+
+export interface FileSearchResult {
+  filename: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchableFile {
+  name: string;
+  content: string;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  regex: false,
+  caseSensitive: false,
+  wholeWord: false
+};
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Throws a SyntaxError when a regex search term doesn't compile
+export function buildSearchPattern(term: string, options: SearchOptions): RegExp {
+  let source = options.regex ? term : escapeRegExp(term);
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+function forEachMatch(content: string, pattern: RegExp, visit: (match: RegExpExecArray) => void) {
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    visit(match);
+    // Empty matches (e.g. `^` or `\b`) would otherwise never advance
+    if (match[0].length === 0) pattern.lastIndex++;
+  }
+}
+
+export function searchFiles(files: SearchableFile[], term: string, options: SearchOptions): FileSearchResult[] {
+  if (!term) return [];
+  const pattern = buildSearchPattern(term, options);
+
+  return files
+    .map(file => {
+      const lines = file.content.split('\n');
+      const matches: SearchMatch[] = [];
+      let lineIndex = 0;
+      let lineStart = 0;
+
+      forEachMatch(file.content, pattern, match => {
+        if (match[0].length === 0) return;
+        // Matches arrive in order, so the line cursor only ever moves forward
+        while (lineIndex < lines.length - 1 && match.index >= lineStart + lines[lineIndex].length + 1) {
+          lineStart += lines[lineIndex].length + 1;
+          lineIndex++;
+        }
+        matches.push({
+          line: lineIndex + 1,
+          column: match.index - lineStart + 1,
+          length: match[0].length,
+          content: lines[lineIndex]
+        });
+      });
+
+      return { filename: file.name, matches };
+    })
+    .filter(result => result.matches.length > 0);
+}
+
+interface MatchContext {
+  matched: string;
+  offset: number;
+  input: string;
+  groups: Array<string | undefined>;
+  named?: Record<string, string | undefined>;
+}
+
+// Expands `$$`, `$&`, `$\``, `$'`, `$1`..`$99` and `$<name>` exactly as String.prototype.replace would:
+// a two-digit reference past the last group falls back to one digit (`$10` with one group is `$1` then `0`),
+// and references to groups that don't exist stay literal.
+function expandReplacement(replacement: string, { matched, offset, input, groups, named }: MatchContext): string {
+  return replacement.replace(/\$(?:([$&`'])|(\d\d?)|<([^>]*)>)/g, (token, symbol?: string, digits?: string, name?: string) => {
+    if (symbol === '$') return '$';
+    if (symbol === '&') return matched;
+    if (symbol === '`') return input.slice(0, offset);
+    if (symbol === "'") return input.slice(offset + matched.length);
+    if (digits) {
+      const index = Number(digits);
+      if (digits.length === 2 && index >= 1 && index <= groups.length) return groups[index - 1] ?? '';
+      const first = Number(digits[0]);
+      return first >= 1 && first <= groups.length ? (groups[first - 1] ?? '') + digits.slice(1) : token;
+    }
+    if (!named) return token;
+    return named[name!] ?? '';
+  });
+}
+
+// Regex searches expand group references in the replacement; plain searches insert it literally.
+// Empty matches are left alone so a pattern like `a*` doesn't sprinkle replacements between characters.
+export function replaceInContent(content: string, term: string, replacement: string, options: SearchOptions): { code: string; count: number } {
+  if (!term) return { code: content, count: 0 };
+  const pattern = buildSearchPattern(term, options);
+  let count = 0;
+
+  const code = content.replace(pattern, (matched: string, ...rest: unknown[]) => {
+    if (matched.length === 0) return matched;
+    count++;
+    if (!options.regex) return replacement;
+    // Trailing arguments are the offset, the whole string and (optionally) named groups
+    const offsetIndex = rest.findIndex(arg => typeof arg === 'number');
+    return expandReplacement(replacement, {
+      matched,
+      offset: rest[offsetIndex] as number,
+      input: rest[offsetIndex + 1] as string,
+      groups: rest.slice(0, offsetIndex) as Array<string | undefined>,
+      named: rest[offsetIndex + 2] as Record<string, string | undefined> | undefined
+    });
+  });
+
+  return { code, count };
+}
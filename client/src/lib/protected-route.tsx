@@ -0,0 +1,27 @@
+import type { ComponentType } from 'react';
+import { Redirect, Route } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+}: {
+  path: string;
+  component: ComponentType;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen gradient-bg flex items-center justify-center text-muted-foreground">
+          <i className="fas fa-spinner fa-spin text-2xl"></i>
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { ProjectFile } from '@/types/workshop';
+import { buildSymbolIndex, findUnusedSymbols, renameSymbol, symbolsInSelector } from './symbolIndex';
+
+const file = (name: string, content: string): ProjectFile => ({
+  id: name,
+  name,
+  content,
+  type: name.endsWith('.html') ? 'html' : name.endsWith('.js') ? 'js' : 'css',
+  size: content.length
+});
+
+const rename = (files: ProjectFile[], kind: 'class' | 'id', from: string, to: string) =>
+  Object.fromEntries(renameSymbol(files, kind, from, to).map(edit => [edit.file.name, edit.code]));
+
+describe('symbolsInSelector', () => {
+  it('reads every class and id in compound and complex selectors, skipping attributes and strings', () => {
+    expect(symbolsInSelector('.btn.primary:hover > #nav .btn, a[href=".ext"]::after')).toEqual([
+      { kind: 'class', name: 'btn' },
+      { kind: 'class', name: 'primary' },
+      { kind: 'id', name: 'nav' }
+    ]);
+  });
+});
+
+describe('buildSymbolIndex', () => {
+  const files = [
+    file('site.css', '.card { color: #fff; }\n.card.active, #hero .title { margin: 0; }\n.ghost { display: none; }'),
+    file('index.html', '<style>\n  .inline { color: red; }\n</style>\n<div id="hero" class="card  card active">\n<a href="#hero">top</a>'),
+    file('app.js', "el.classList.toggle('active', on);\ndocument.querySelector('#hero .title');\nel.classList.add(\"inline\", 'extra');")
+  ];
+  const index = buildSymbolIndex(files);
+  const where = (key: string) => index.get(key)!.references.map(ref => `${ref.filename}:${ref.line}`);
+
+  it('records definitions for every symbol in a compound selector, including <style> blocks', () => {
+    expect(index.get('.card')!.definitions.map(def => `${def.filename}:${def.line} ${def.context}`)).toEqual([
+      'site.css:1 .card',
+      'site.css:2 .card.active, #hero .title'
+    ]);
+    expect(index.get('.inline')!.definitions.map(def => def.filename)).toEqual(['index.html']);
+  });
+
+  it('finds references in attributes, fragment links, classList and querySelector calls', () => {
+    expect(where('.card')).toEqual(['index.html:4']);
+    expect(where('.active')).toEqual(['app.js:1', 'index.html:4']);
+    expect(where('#hero')).toEqual(['app.js:2', 'index.html:4', 'index.html:5']);
+    expect(where('.title')).toEqual(['app.js:2']);
+    expect(where('.inline')).toEqual(['app.js:3']);
+    expect(index.get('.extra')!.definitions).toEqual([]);
+  });
+
+  it('reports only defined symbols nothing references as unused', () => {
+    expect(findUnusedSymbols(index).map(entry => entry.name)).toEqual(['ghost']);
+  });
+});
+
+describe('renameSymbol', () => {
+  it('renames a class in selectors, <style> blocks, markup and scripts without touching look-alikes', () => {
+    const files = [
+      file('site.css', '.btn.primary, .btn-large .btn:hover { color: red; }\n.primary { content: ".btn"; }'),
+      file('index.html', '<style>.btn { margin: 0; }</style>\n<button class="btn btn-large primary">'),
+      file('app.js', "el.classList.replace('btn', 'other');\ndocument.querySelectorAll('ul > .btn');\nel.className = 'btn';")
+    ];
+
+    expect(rename(files, 'class', 'btn', 'button')).toEqual({
+      'site.css': '.button.primary, .btn-large .button:hover { color: red; }\n.primary { content: ".btn"; }',
+      'index.html': '<style>.button { margin: 0; }</style>\n<button class="button btn-large primary">',
+      'app.js': "el.classList.replace('button', 'other');\ndocument.querySelectorAll('ul > .button');\nel.className = 'button';"
+    });
+    expect(renameSymbol(files, 'class', 'btn', 'button').map(edit => edit.count)).toEqual([2, 2, 3]);
+  });
+
+  it('renames an id without rewriting color values that look like it', () => {
+    const files = [
+      file('site.css', '#fff { color: #fff; background: #FFF; }\n#fff:target, .x { border-color: #fff; }'),
+      file('index.html', '<section id="fff" style="color: #fff"><a href="#fff">'),
+      file('app.js', "document.getElementById('fff');\nconst color = '#fff';")
+    ];
+
+    expect(rename(files, 'id', 'fff', 'intro')).toEqual({
+      'site.css': '#intro { color: #fff; background: #FFF; }\n#intro:target, .x { border-color: #fff; }',
+      'index.html': '<section id="intro" style="color: #fff"><a href="#intro">',
+      'app.js': "document.getElementById('intro');\nconst color = '#fff';"
+    });
+  });
+
+  it('returns no edits when the symbol appears nowhere', () => {
+    expect(renameSymbol([file('site.css', '.a {}')], 'class', 'missing', 'b')).toEqual([]);
+  });
+});
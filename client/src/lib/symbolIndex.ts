@@ -0,0 +1,237 @@
+import type { ProjectFile } from '@/types/workshop';
+import { parseCSSFromFiles } from './workshopUtils';
+import { getLineStarts, lineAt, tokenize } from './syntaxHighlighter';
+
+export type SymbolKind = 'class' | 'id';
+
+export interface SymbolLocation {
+  filename: string;
+  // 1-based
+  line: number;
+  // The selector for definitions, the source line for references
+  context: string;
+  source: 'css' | 'html' | 'js';
+}
+
+export interface SymbolEntry {
+  kind: SymbolKind;
+  name: string;
+  definitions: SymbolLocation[];
+  references: SymbolLocation[];
+}
+
+// Keyed by the symbol as it is written in a selector, e.g. `.card` or `#header`
+export type SymbolIndex = Map<string, SymbolEntry>;
+
+export const symbolKey = (kind: SymbolKind, name: string) => `${kind === 'class' ? '.' : '#'}${name}`;
+
+// Class and id names a selector depends on; attribute selectors and strings are skipped
+export function symbolsInSelector(selector: string): Array<{ kind: SymbolKind; name: string }> {
+  const stripped = selector.replace(/\[[^\]]*\]/g, '').replace(/(["'])(?:\\.|(?!\1)[^\\])*\1/g, '');
+  const symbols: Array<{ kind: SymbolKind; name: string }> = [];
+  const pattern = /([.#])(-?[_a-zA-Z][\w-]*)/g;
+  let match;
+
+  while ((match = pattern.exec(stripped)) !== null) {
+    const kind: SymbolKind = match[1] === '.' ? 'class' : 'id';
+    if (!symbols.some(s => s.kind === kind && s.name === match![2])) {
+      symbols.push({ kind, name: match[2] });
+    }
+  }
+  return symbols;
+}
+
+// Markup attributes, also matched inside JS templates and JSX
+const CLASS_ATTRIBUTE = /(?:^|[\s<])class(?:Name)?\s*=\s*(["'])([^"']*)\1/g;
+const ID_ATTRIBUTE = /(?:^|[\s<])(?:id|for)\s*=\s*(["'])([^"']*)\1/g;
+const FRAGMENT_LINK = /(?:^|[\s<])href\s*=\s*(["'])#([\w-]+)\1/g;
+
+// DOM lookups in scripts
+const SELECTOR_CALL = /(?:\.(?:querySelector|querySelectorAll|closest|matches)|(?:^|[^\w$.])(?:\$|jQuery))\(\s*(['"`])((?:\\.|(?!\1)[^\\\n])*)\1/g;
+const ID_CALL = /\.getElementById\(\s*(['"`])([\w-]+)\1/g;
+const CLASS_CALL = /\.getElementsByClassName\(\s*(['"`])([\w\s-]+)\1/g;
+const CLASS_LIST_CALL = /\.classList\.(?:add|remove|toggle|contains|replace)\(([^)]*)\)/g;
+const CLASS_NAME_ASSIGNMENT = /\.className\s*\+?=\s*(['"`])([^'"`]*)\1/g;
+const STRING_LITERAL = /(['"`])([\w-]+)\1/g;
+
+interface RawReference {
+  kind: SymbolKind;
+  name: string;
+  offset: number;
+}
+
+// Patterns may start on the character before the match, so lines are taken from where it ends
+const endOf = (match: RegExpExecArray) => match.index + match[0].length - 1;
+
+function scanMarkup(content: string): RawReference[] {
+  const refs: RawReference[] = [];
+  let match;
+
+  while ((match = CLASS_ATTRIBUTE.exec(content)) !== null) {
+    const offset = endOf(match);
+    match[2].split(/\s+/).filter(Boolean).forEach(name => refs.push({ kind: 'class', name, offset }));
+  }
+  while ((match = ID_ATTRIBUTE.exec(content)) !== null) {
+    if (match[2].trim()) refs.push({ kind: 'id', name: match[2].trim(), offset: endOf(match) });
+  }
+  while ((match = FRAGMENT_LINK.exec(content)) !== null) {
+    refs.push({ kind: 'id', name: match[2], offset: endOf(match) });
+  }
+  return refs;
+}
+
+function scanScript(content: string): RawReference[] {
+  const refs: RawReference[] = [];
+  let match;
+
+  while ((match = SELECTOR_CALL.exec(content)) !== null) {
+    const offset = endOf(match);
+    symbolsInSelector(match[2]).forEach(symbol => refs.push({ ...symbol, offset }));
+  }
+  while ((match = ID_CALL.exec(content)) !== null) {
+    refs.push({ kind: 'id', name: match[2], offset: endOf(match) });
+  }
+  while ((match = CLASS_CALL.exec(content)) !== null) {
+    const offset = endOf(match);
+    match[2].split(/\s+/).filter(Boolean).forEach(name => refs.push({ kind: 'class', name, offset }));
+  }
+  while ((match = CLASS_LIST_CALL.exec(content)) !== null) {
+    const offset = endOf(match);
+    let literal;
+    while ((literal = STRING_LITERAL.exec(match[1])) !== null) {
+      refs.push({ kind: 'class', name: literal[2], offset });
+    }
+  }
+  while ((match = CLASS_NAME_ASSIGNMENT.exec(content)) !== null) {
+    const offset = endOf(match);
+    match[2].split(/\s+/).filter(Boolean).forEach(name => refs.push({ kind: 'class', name, offset }));
+  }
+  return refs;
+}
+
+function entryFor(index: SymbolIndex, kind: SymbolKind, name: string): SymbolEntry {
+  const key = symbolKey(kind, name);
+  let entry = index.get(key);
+  if (!entry) {
+    entry = { kind, name, definitions: [], references: [] };
+    index.set(key, entry);
+  }
+  return entry;
+}
+
+// Definitions come from the parsed CSS rules; references from HTML attributes and script DOM calls
+export function buildSymbolIndex(files: ProjectFile[]): SymbolIndex {
+  const index: SymbolIndex = new Map();
+
+  parseCSSFromFiles(files).forEach(rule => {
+    symbolsInSelector(rule.selector).forEach(({ kind, name }) => {
+      entryFor(index, kind, name).definitions.push({
+        filename: rule.fileName,
+        line: rule.lineNumber,
+        context: rule.selector,
+        source: 'css'
+      });
+    });
+  });
+
+  files.filter(f => f.type === 'html' || f.type === 'js').forEach(file => {
+    const lines = file.content.split('\n');
+    const lineStarts = getLineStarts(file.content);
+    const seen = new Set<string>();
+
+    const record = (refs: RawReference[], source: SymbolLocation['source']) => {
+      refs.forEach(ref => {
+        const line = lineAt(lineStarts, ref.offset) + 1;
+        // A name repeated on one line (class="a a") counts once
+        const key = `${symbolKey(ref.kind, ref.name)}:${line}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        entryFor(index, ref.kind, ref.name).references.push({
+          filename: file.name,
+          line,
+          context: lines[line - 1].trim(),
+          source
+        });
+      });
+    };
+
+    record(scanMarkup(file.content), file.type === 'html' ? 'html' : 'js');
+    record(scanScript(file.content), 'js');
+  });
+
+  index.forEach(entry => entry.references.sort((a, b) => a.filename.localeCompare(b.filename) || a.line - b.line));
+  return index;
+}
+
+// Defined in CSS but never referenced from markup or scripts
+export function findUnusedSymbols(index: SymbolIndex): SymbolEntry[] {
+  return Array.from(index.values()).filter(entry => entry.definitions.length > 0 && entry.references.length === 0);
+}
+
+export const isValidSymbolName = (name: string) => /^-?[_a-zA-Z][\w-]*$/.test(name);
+
+export interface SymbolRename {
+  file: ProjectFile;
+  code: string;
+  count: number;
+}
+
+// Rewrites one class or id everywhere the index would find it: CSS selectors (never declaration
+// values, so `#fff` survives an id rename), markup attributes and script DOM lookups.
+export function renameSymbol(files: ProjectFile[], kind: SymbolKind, from: string, to: string): SymbolRename[] {
+  const prefix = kind === 'class' ? '.' : '#';
+  let count = 0;
+
+  const swapWord = (word: string) => {
+    if (word !== from) return word;
+    count++;
+    return to;
+  };
+  const swapWords = (value: string) => value.replace(/\S+/g, swapWord);
+  // Swap the value captured just before a pattern's closing quote
+  const swapValue = (full: string, value: string, quote: string, swap: (value: string) => string) =>
+    full.slice(0, full.length - value.length - quote.length) + swap(value) + quote;
+
+  const swapSelector = (selector: string) =>
+    selector.replace(/([.#])(-?[_a-zA-Z][\w-]*)/g, (full, sigil: string, name: string) =>
+      sigil === prefix ? sigil + swapWord(name) : full
+    );
+
+  const renameCSS = (css: string) =>
+    tokenize(css, 'css')
+      .map(token => token.type === 'selector' && token.text === prefix + from ? prefix + swapWord(from) : token.text)
+      .join('');
+
+  const renameMarkupAndScript = (content: string) => {
+    let code = content;
+    if (kind === 'class') {
+      code = code
+        .replace(CLASS_ATTRIBUTE, (full, quote: string, value: string) => swapValue(full, value, quote, swapWords))
+        .replace(CLASS_CALL, (full, quote: string, value: string) => swapValue(full, value, quote, swapWords))
+        .replace(CLASS_NAME_ASSIGNMENT, (full, quote: string, value: string) => swapValue(full, value, quote, swapWords))
+        .replace(CLASS_LIST_CALL, (full, args: string) =>
+          swapValue(full, args, ')', value => value.replace(STRING_LITERAL, (literal, quote: string, name: string) => quote + swapWord(name) + quote))
+        );
+    } else {
+      code = code
+        .replace(ID_ATTRIBUTE, (full, quote: string, value: string) => swapValue(full, value, quote, v => v.trim() === from ? v.replace(from, swapWord(from)) : v))
+        .replace(FRAGMENT_LINK, (full, quote: string, value: string) => swapValue(full, value, quote, swapWord))
+        .replace(ID_CALL, (full, quote: string, value: string) => swapValue(full, value, quote, swapWord));
+    }
+    return code.replace(SELECTOR_CALL, (full, quote: string, selector: string) => swapValue(full, selector, quote, swapSelector));
+  };
+
+  return files.flatMap(file => {
+    count = 0;
+    let code = file.content;
+    if (file.type === 'css') {
+      code = renameCSS(code);
+    } else if (file.type === 'html') {
+      code = code.replace(/(<style[^>]*>)([\s\S]*?)(<\/style>)/gi, (full, open: string, css: string, close: string) => open + renameCSS(css) + close);
+      code = renameMarkupAndScript(code);
+    } else if (file.type === 'js') {
+      code = renameMarkupAndScript(code);
+    }
+    return count > 0 && code !== file.content ? [{ file, code, count }] : [];
+  });
+}
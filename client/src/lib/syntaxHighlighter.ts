@@ -0,0 +1,393 @@
+export type Language = 'html' | 'css' | 'js' | 'json' | 'text';
+
+export type TokenType =
+  | 'plain'
+  | 'keyword'
+  | 'string'
+  | 'comment'
+  | 'tag'
+  | 'attribute'
+  | 'number'
+  | 'property'
+  | 'selector'
+  | 'punctuation';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+}
+
+// Zero-based, inclusive line numbers of a foldable block
+export interface FoldRange {
+  startLine: number;
+  endLine: number;
+}
+
+const JS_KEYWORDS = new Set([
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+  'delete', 'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if',
+  'import', 'in', 'instanceof', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch',
+  'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield'
+]);
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+const OPEN_BRACKETS: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
+const CLOSE_BRACKETS: Record<string, string> = { '}': '{', ']': '[', ')': '(' };
+
+export function languageFromFilename(filename: string): Language {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'html':
+    case 'htm':
+      return 'html';
+    case 'css':
+      return 'css';
+    case 'js':
+    case 'mjs':
+    case 'jsx':
+    case 'ts':
+    case 'tsx':
+      return 'js';
+    case 'json':
+      return 'json';
+    default:
+      return 'text';
+  }
+}
+
+// Collects tokens and folds neighbouring plain text together
+class TokenList {
+  tokens: Token[] = [];
+
+  constructor(private offset = 0) {}
+
+  push(type: TokenType, text: string, start: number) {
+    if (!text) return;
+    const last = this.tokens[this.tokens.length - 1];
+    if (last && last.type === type && type === 'plain') {
+      last.text += text;
+    } else {
+      this.tokens.push({ type, text, start: start + this.offset });
+    }
+  }
+}
+
+// Sticky patterns only match at lastIndex; built at runtime since the 'y' literal flag needs an ES6 target
+function sticky(pattern: RegExp): RegExp {
+  return new RegExp(pattern.source, 'y');
+}
+
+function matchAt(pattern: RegExp, code: string, pos: number): string | null {
+  pattern.lastIndex = pos;
+  const match = pattern.exec(code);
+  return match ? match[0] : null;
+}
+
+const BLOCK_COMMENT = sticky(/\/\*[\s\S]*?(?:\*\/|$)/);
+const LINE_COMMENT = sticky(/\/\/[^\n]*/);
+const QUOTED_STRING = sticky(/'(?:\\.|[^'\\\n])*'?|"(?:\\.|[^"\\\n])*"?/);
+const TEMPLATE_STRING = sticky(/`(?:\\[\s\S]|[^`\\])*`?/);
+const JS_NUMBER = sticky(/(?:0[xX][\da-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)n?/);
+const IDENTIFIER = sticky(/[A-Za-z_$][\w$]*/);
+const PUNCTUATION = sticky(/[{}()[\];,.:?!<>=+\-*/%&|^~]/);
+
+function tokenizeJS(code: string, offset = 0): Token[] {
+  const list = new TokenList(offset);
+  let pos = 0;
+
+  while (pos < code.length) {
+    let text: string | null;
+    if ((text = matchAt(LINE_COMMENT, code, pos)) || (text = matchAt(BLOCK_COMMENT, code, pos))) {
+      list.push('comment', text, pos);
+    } else if ((text = matchAt(QUOTED_STRING, code, pos)) || (text = matchAt(TEMPLATE_STRING, code, pos))) {
+      list.push('string', text, pos);
+    } else if ((text = matchAt(IDENTIFIER, code, pos))) {
+      list.push(JS_KEYWORDS.has(text) ? 'keyword' : 'plain', text, pos);
+    } else if ((text = matchAt(JS_NUMBER, code, pos))) {
+      list.push('number', text, pos);
+    } else if ((text = matchAt(PUNCTUATION, code, pos))) {
+      list.push('punctuation', text, pos);
+    } else {
+      text = code[pos];
+      list.push('plain', text, pos);
+    }
+    pos += text.length;
+  }
+
+  return list.tokens;
+}
+
+const JSON_STRING = sticky(/"(?:\\.|[^"\\\n])*"?/);
+const JSON_KEY_FOLLOWS = sticky(/\s*:/);
+const JSON_NUMBER = sticky(/-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/);
+const JSON_LITERAL = sticky(/true|false|null/);
+
+function tokenizeJSON(code: string): Token[] {
+  const list = new TokenList();
+  let pos = 0;
+
+  while (pos < code.length) {
+    let text: string | null;
+    if ((text = matchAt(JSON_STRING, code, pos))) {
+      list.push(matchAt(JSON_KEY_FOLLOWS, code, pos + text.length) !== null ? 'property' : 'string', text, pos);
+    } else if ((text = matchAt(JSON_NUMBER, code, pos))) {
+      list.push('number', text, pos);
+    } else if ((text = matchAt(JSON_LITERAL, code, pos))) {
+      list.push('keyword', text, pos);
+    } else if ((text = matchAt(PUNCTUATION, code, pos))) {
+      list.push('punctuation', text, pos);
+    } else {
+      text = code[pos];
+      list.push('plain', text, pos);
+    }
+    pos += text.length;
+  }
+
+  return list.tokens;
+}
+
+const AT_RULE = sticky(/@[\w-]+/);
+const CSS_HEX = sticky(/#[\da-fA-F]{3,8}\b/);
+const CSS_NUMBER = sticky(/-?(?:\d+\.?\d*|\.\d+)(?:[a-zA-Z]+|%)?/);
+const CSS_IMPORTANT = sticky(/!\s*important/);
+const CSS_WORD = sticky(/-?[A-Za-z_][\w-]*/);
+const CSS_SELECTOR_PART = sticky(/[.#]?-?[A-Za-z_*][\w-]*/);
+
+type CSSRole = 'selector' | 'property' | 'value';
+
+// Inside a block, a statement that reaches '{' before ';' or '}' is a nested rule, otherwise a declaration
+function cssStatementRole(code: string, pos: number, depth: number): CSSRole {
+  for (let i = pos; i < code.length; i++) {
+    const ch = code[i];
+    if (ch === '/' && code[i + 1] === '*') {
+      const end = code.indexOf('*/', i + 2);
+      if (end === -1) break;
+      i = end + 1;
+    } else if (ch === '"' || ch === "'") {
+      const end = code.indexOf(ch, i + 1);
+      if (end === -1) break;
+      i = end;
+    } else if (ch === '{') {
+      return 'selector';
+    } else if (ch === ';' || ch === '}') {
+      return depth > 0 ? 'property' : 'selector';
+    }
+  }
+  return depth > 0 ? 'property' : 'selector';
+}
+
+function tokenizeCSS(code: string, offset = 0): Token[] {
+  const list = new TokenList(offset);
+  let pos = 0;
+  let depth = 0;
+  let role: CSSRole = cssStatementRole(code, 0, 0);
+
+  while (pos < code.length) {
+    let text: string | null;
+    const ch = code[pos];
+
+    if ((text = matchAt(BLOCK_COMMENT, code, pos))) {
+      list.push('comment', text, pos);
+    } else if ((text = matchAt(QUOTED_STRING, code, pos))) {
+      list.push('string', text, pos);
+    } else if ((text = matchAt(AT_RULE, code, pos))) {
+      list.push('keyword', text, pos);
+    } else if (ch === '{' || ch === '}' || ch === ';') {
+      text = ch;
+      list.push('punctuation', text, pos);
+      depth = Math.max(0, depth + (ch === '{' ? 1 : ch === '}' ? -1 : 0));
+      role = cssStatementRole(code, pos + 1, depth);
+    } else if (ch === ':' && role === 'property') {
+      text = ch;
+      list.push('punctuation', text, pos);
+      role = 'value';
+    } else if (role === 'selector' && (text = matchAt(CSS_SELECTOR_PART, code, pos))) {
+      list.push('selector', text, pos);
+    } else if (role === 'property' && (text = matchAt(CSS_WORD, code, pos))) {
+      list.push('property', text, pos);
+    } else if (role === 'value' && (text = matchAt(CSS_IMPORTANT, code, pos))) {
+      list.push('keyword', text, pos);
+    } else if (role === 'value' && ((text = matchAt(CSS_HEX, code, pos)) || (text = matchAt(CSS_NUMBER, code, pos)))) {
+      list.push('number', text, pos);
+    } else if (role === 'value' && (text = matchAt(CSS_WORD, code, pos))) {
+      list.push('plain', text, pos);
+    } else if (/[()[\],>+~]/.test(ch)) {
+      text = ch;
+      list.push('punctuation', text, pos);
+    } else {
+      text = ch;
+      list.push('plain', text, pos);
+    }
+    pos += text.length;
+  }
+
+  return list.tokens;
+}
+
+const HTML_COMMENT = sticky(/<!--[\s\S]*?(?:-->|$)/);
+const HTML_DOCTYPE = sticky(/<![^>]*>?/);
+const HTML_TAG_OPEN = sticky(/<\/?[A-Za-z][\w:-]*/);
+const HTML_ATTRIBUTE = sticky(/[^\s"'<>/=]+/);
+const HTML_TAG_CLOSE = sticky(/\/?>/);
+const HTML_TEXT = sticky(/[^<]+/);
+
+function tokenizeHTML(code: string): Token[] {
+  const list = new TokenList();
+  let pos = 0;
+
+  while (pos < code.length) {
+    let text: string | null;
+    if ((text = matchAt(HTML_COMMENT, code, pos))) {
+      list.push('comment', text, pos);
+      pos += text.length;
+    } else if ((text = matchAt(HTML_DOCTYPE, code, pos))) {
+      list.push('keyword', text, pos);
+      pos += text.length;
+    } else if ((text = matchAt(HTML_TAG_OPEN, code, pos))) {
+      const tagName = text.replace(/^<\/?/, '').toLowerCase();
+      const isClosing = text.startsWith('</');
+      list.push('tag', text, pos);
+      pos += text.length;
+
+      // Attributes up to the end of the tag
+      while (pos < code.length) {
+        let part: string | null;
+        if ((part = matchAt(HTML_TAG_CLOSE, code, pos))) {
+          list.push('tag', part, pos);
+          pos += part.length;
+          break;
+        } else if ((part = matchAt(QUOTED_STRING, code, pos))) {
+          list.push('string', part, pos);
+        } else if ((part = matchAt(HTML_ATTRIBUTE, code, pos))) {
+          list.push('attribute', part, pos);
+        } else {
+          part = code[pos];
+          list.push(part === '=' ? 'punctuation' : 'plain', part, pos);
+        }
+        pos += part.length;
+      }
+
+      // Embedded stylesheets and scripts get their own tokenizer
+      if (!isClosing && (tagName === 'style' || tagName === 'script')) {
+        const closeIndex = code.toLowerCase().indexOf(`</${tagName}`, pos);
+        const end = closeIndex === -1 ? code.length : closeIndex;
+        const inner = code.slice(pos, end);
+        const innerTokens = tagName === 'style' ? tokenizeCSS(inner, pos) : tokenizeJS(inner, pos);
+        innerTokens.forEach(token => list.tokens.push(token));
+        pos = end;
+      }
+    } else if ((text = matchAt(HTML_TEXT, code, pos))) {
+      list.push('plain', text, pos);
+      pos += text.length;
+    } else {
+      list.push('plain', code[pos], pos);
+      pos += 1;
+    }
+  }
+
+  return list.tokens;
+}
+
+export function tokenize(code: string, language: Language): Token[] {
+  switch (language) {
+    case 'html':
+      return tokenizeHTML(code);
+    case 'css':
+      return tokenizeCSS(code);
+    case 'js':
+      return tokenizeJS(code);
+    case 'json':
+      return tokenizeJSON(code);
+    default:
+      return code ? [{ type: 'plain', text: code, start: 0 }] : [];
+  }
+}
+
+// Zero-based line containing `offset`
+export function lineAt(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+export function getLineStarts(code: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+// Brackets and multi-line HTML elements; a block needs at least one line between its ends to fold
+export function findFoldRanges(code: string, tokens: Token[]): FoldRange[] {
+  const lineStarts = getLineStarts(code);
+  const byStart = new Map<number, number>();
+  const brackets: Array<{ char: string; line: number }> = [];
+  const tags: Array<{ name: string; line: number }> = [];
+
+  const addRange = (startLine: number, endLine: number) => {
+    if (endLine - startLine < 2) return;
+    byStart.set(startLine, Math.max(byStart.get(startLine) ?? 0, endLine));
+  };
+
+  let pendingTag: { name: string; line: number } | null = null;
+
+  tokens.forEach(token => {
+    const line = lineAt(lineStarts, token.start);
+    if (token.type === 'punctuation' && OPEN_BRACKETS[token.text]) {
+      brackets.push({ char: token.text, line });
+    } else if (token.type === 'punctuation' && CLOSE_BRACKETS[token.text]) {
+      const open = brackets.pop();
+      if (open && open.char === CLOSE_BRACKETS[token.text]) addRange(open.line, line);
+    } else if (token.type === 'tag') {
+      const name = token.text.replace(/^<\/?/, '').toLowerCase();
+      if (token.text.startsWith('</')) {
+        const openIndex = tags.map(t => t.name).lastIndexOf(name);
+        if (openIndex !== -1) {
+          addRange(tags[openIndex].line, line);
+          tags.length = openIndex;
+        }
+      } else if (token.text.startsWith('<')) {
+        pendingTag = VOID_ELEMENTS.has(name) ? null : { name, line };
+      } else {
+        // Only a plain '>' opens an element; '/>' closes it on the spot
+        if (pendingTag && token.text === '>') tags.push(pendingTag);
+        pendingTag = null;
+      }
+    }
+  });
+
+  return Array.from(byStart.entries())
+    .map(([startLine, endLine]) => ({ startLine, endLine }))
+    .sort((a, b) => a.startLine - b.startLine);
+}
+
+// Offsets of the bracket touching the caret and its partner, ignoring strings and comments
+export function findMatchingBracket(tokens: Token[], caret: number): [number, number] | null {
+  const brackets = tokens.filter(t => t.type === 'punctuation' && (OPEN_BRACKETS[t.text] || CLOSE_BRACKETS[t.text]));
+  const index = brackets.findIndex(t => t.start === caret) !== -1
+    ? brackets.findIndex(t => t.start === caret)
+    : brackets.findIndex(t => t.start === caret - 1);
+  if (index === -1) return null;
+
+  const bracket = brackets[index];
+  const opening = !!OPEN_BRACKETS[bracket.text];
+  const partner = opening ? OPEN_BRACKETS[bracket.text] : CLOSE_BRACKETS[bracket.text];
+  let depth = 0;
+
+  for (let i = index; opening ? i < brackets.length : i >= 0; i += opening ? 1 : -1) {
+    const text = brackets[i].text;
+    if (text === bracket.text) depth++;
+    else if (text === partner && --depth === 0) return [bracket.start, brackets[i].start];
+  }
+  return null;
+}
@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { ProjectFile } from '@/types/workshop';
+import { buildSymbolIndex } from './symbolIndex';
+import { findUnusedCSS, relaxSelector, removeUnusedRules, resolveSelector } from './unusedCSS';
+import { parseCSSFromFiles } from './workshopUtils';
+
+const file = (name: string, content: string): ProjectFile => ({
+  id: name,
+  name,
+  content,
+  type: name.endsWith('.html') ? 'html' : name.endsWith('.js') ? 'js' : 'css',
+  size: content.length
+});
+
+const report = (files: ProjectFile[]) => {
+  const rules = parseCSSFromFiles(files);
+  return { rules, ...findUnusedCSS(files, rules, buildSymbolIndex(files)) };
+};
+
+describe('selectors', () => {
+  it('resolves nested rules against their parents, ignoring at-rules', () => {
+    expect(resolveSelector({ selector: '&:hover, span', context: ['@media print', '.a, .b'] })).toBe(':is(.a, .b):hover, :is(.a, .b) span');
+    expect(resolveSelector({ selector: '.c', context: [] })).toBe('.c');
+  });
+
+  it('drops state pseudo-classes and pseudo-elements, keeping structural ones', () => {
+    expect(relaxSelector('a:hover > span::before, li:first-child:focus-visible')).toBe('a > span, li:first-child');
+    expect(relaxSelector(':hover')).toBe('*');
+    expect(relaxSelector('ul > :focus')).toBe('ul > *');
+  });
+});
+
+describe('findUnusedCSS', () => {
+  it('separates matched, dynamic, unknown and unused rules', () => {
+    const files = [
+      file('site.css', [
+        '.card:hover .title { color: red; }',
+        '.ghost { color: red; }',
+        '.open { display: block; }',
+        '@keyframes spin { from { opacity: 0; } }',
+        'p:unknown-pseudo { color: red; }'
+      ].join('\n')),
+      file('index.html', '<div class="card"><h2 class="title">Hi</h2></div>'),
+      file('app.js', "menu.classList.add('open');")
+    ];
+    const { rules, usage, unused, pages } = report(files);
+    const status = rules.map(rule => `${rule.selector} ${usage.get(rule)!.status}`);
+
+    expect(pages).toBe(1);
+    expect(status).toEqual([
+      '.card:hover .title matched',
+      '.ghost unused',
+      '.open dynamic',
+      'from unknown',
+      'p:unknown-pseudo unknown'
+    ]);
+    expect(unused.map(entry => entry.rule.selector)).toEqual(['.ghost']);
+  });
+
+  it('matches nested rules as the selector they resolve to', () => {
+    const files = [
+      file('site.css', '.nav { & .link { color: red; } & .missing { color: blue; } }'),
+      file('index.html', '<nav class="nav"><a class="link"></a></nav>')
+    ];
+
+    expect(report(files).unused.map(entry => entry.rule.selector)).toEqual(['& .missing']);
+  });
+
+  it('marks a rule not removable when a nested rule inside it is still in use', () => {
+    const files = [
+      file('site.css', '.tab { color: red; &.open { color: blue; } }'),
+      file('index.html', '<p></p>'),
+      file('app.js', "tab.classList.add('open');")
+    ];
+
+    expect(report(files).unused).toMatchObject([{ rule: { selector: '.tab' }, removable: false }]);
+    expect(report(files.slice(0, 2)).unused.map(entry => [entry.rule.selector, entry.removable])).toEqual([['.tab', true], ['&.open', true]]);
+  });
+
+  it('reports nothing when the project has no pages', () => {
+    expect(report([file('site.css', '.ghost { color: red; }')])).toMatchObject({ unused: [], pages: 0 });
+  });
+});
+
+describe('removeUnusedRules', () => {
+  it('removes the outermost selected rules per file, nested ones included', () => {
+    const files = [
+      file('site.css', 'body { margin: 0; }\n.ghost { color: red; & .x { color: blue; } }\n.keep { color: red; }'),
+      file('index.html', '<style>\n  .old { color: red; }\n</style>')
+    ];
+    const rules = parseCSSFromFiles(files).filter(rule => rule.selector !== 'body' && rule.selector !== '.keep');
+
+    expect(removeUnusedRules(files, rules).map(edit => [edit.file.name, edit.code, edit.count])).toEqual([
+      ['site.css', 'body { margin: 0; }\n.keep { color: red; }', 2],
+      ['index.html', '<style>\n</style>', 1]
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import type { ProjectFile } from '@/types/workshop';
+import { applyEdits } from './cssStandardize';
+import { removalEdit, splitSelectorList } from './cssCascade';
+import { symbolsInSelector, symbolKey, type SymbolIndex } from './symbolIndex';
+import type { ProjectCSSRule } from './workshopUtils';
+
+export type RuleUsage =
+  | { status: 'matched'; file: string }
+  | { status: 'dynamic'; symbols: string[] }
+  | { status: 'unknown'; reason: string }
+  | { status: 'unused' };
+
+export interface UnusedRule {
+  rule: ProjectCSSRule;
+  // False when removing it would also take out nested rules that are still used
+  removable: boolean;
+}
+
+export interface UnusedCSSReport {
+  usage: Map<ProjectCSSRule, RuleUsage>;
+  unused: UnusedRule[];
+  pages: number;
+}
+
+// States a static document is never in, and parts of an element no selector engine matches
+const STATE_PSEUDO = /::?(?:-[\w-]+|before|after|first-line|first-letter|marker|placeholder|selection|backdrop|file-selector-button|hover|focus|focus-within|focus-visible|active|visited|link|any-link|target|checked|indeterminate|invalid|valid|user-invalid|user-valid|autofill|placeholder-shown|fullscreen|popover-open|open|modal)(?![\w-])(?:\([^)]*\))?/gi;
+// Rules whose selectors address something other than elements
+const NON_ELEMENT_CONTEXT = /^@(?:-[\w]+-)?(?:keyframes|page|font-face|counter-style|font-feature-values)\b/i;
+
+// Nested rules are matched as the full selector they resolve to
+export function resolveSelector(rule: Pick<ProjectCSSRule, 'selector' | 'context'>): string {
+  return rule.context
+    .filter(label => !label.startsWith('@'))
+    .concat(rule.selector)
+    .reduce((parent, selector) => {
+      if (!parent) return selector;
+      return splitSelectorList(selector)
+        .map(part => part.includes('&') ? part.replace(/&/g, `:is(${parent})`) : `:is(${parent}) ${part}`)
+        .join(', ');
+    }, '');
+}
+
+// `a:hover` matches statically as `a`, and `::before` as its element; emptied compounds become `*`
+export const relaxSelector = (selector: string) =>
+  splitSelectorList(selector.replace(STATE_PSEUDO, ''))
+    .map(part => part.replace(/([>+~])\s*(?=[>+~]|$)/g, '$1 *').replace(/^(?=[>+~]|$)/, '*'))
+    .join(', ') || '*';
+
+// Whether the selector matches in `doc`; null when the browser can't evaluate it even without state pseudos
+function matchesIn(doc: Document, selector: string): boolean | null {
+  const attempt = (candidate: string) => {
+    try {
+      return doc.querySelector(candidate) !== null;
+    } catch {
+      return null;
+    }
+  };
+  const direct = attempt(selector);
+  if (direct) return true;
+  return attempt(relaxSelector(selector)) ?? (direct === null ? null : false);
+}
+
+// Matches every rule's selector against a parsed DOM of each HTML page. Rules matching nothing stay in
+// use when a class or id they depend on is referenced from a script, which may add it at runtime.
+export function findUnusedCSS(files: ProjectFile[], rules: ProjectCSSRule[], index: SymbolIndex): UnusedCSSReport {
+  const parser = new DOMParser();
+  const pages = files
+    .filter(f => f.type === 'html')
+    .map(file => ({ name: file.name, doc: parser.parseFromString(file.content, 'text/html') }));
+  const usage = new Map<ProjectCSSRule, RuleUsage>();
+
+  rules.forEach(rule => {
+    if (rule.context.some(label => NON_ELEMENT_CONTEXT.test(label))) {
+      usage.set(rule, { status: 'unknown', reason: 'Not an element selector' });
+      return;
+    }
+
+    const selector = resolveSelector(rule);
+    let unevaluable = false;
+    for (const page of pages) {
+      const matched = matchesIn(page.doc, selector);
+      if (matched) {
+        usage.set(rule, { status: 'matched', file: page.name });
+        return;
+      }
+      if (matched === null) unevaluable = true;
+    }
+    if (unevaluable) {
+      usage.set(rule, { status: 'unknown', reason: 'Selector could not be evaluated' });
+      return;
+    }
+
+    const dynamic = symbolsInSelector(selector)
+      .map(s => symbolKey(s.kind, s.name))
+      .filter(key => index.get(key)?.references.some(ref => ref.source === 'js'));
+    usage.set(rule, dynamic.length > 0 ? { status: 'dynamic', symbols: dynamic } : { status: 'unused' });
+  });
+
+  // With no pages there is nothing to match against, so nothing is reported
+  const unused = pages.length === 0 ? [] : rules
+    .filter(rule => usage.get(rule)?.status === 'unused')
+    .map(rule => ({
+      rule,
+      removable: !rules.some(other =>
+        other !== rule &&
+        other.fileName === rule.fileName &&
+        other.start >= rule.start && other.end <= rule.end &&
+        usage.get(other)?.status !== 'unused'
+      )
+    }));
+
+  return { usage, unused, pages: pages.length };
+}
+
+// One edit set per file; rules nested inside another removed rule go with it
+export function removeUnusedRules(files: ProjectFile[], rules: ProjectCSSRule[]): Array<{ file: ProjectFile; code: string; count: number }> {
+  return files.flatMap(file => {
+    const fileRules = rules.filter(rule => rule.fileName === file.name);
+    const outermost = fileRules.filter(rule =>
+      !fileRules.some(other => other !== rule && other.start <= rule.start && other.end >= rule.end)
+    );
+    if (outermost.length === 0) return [];
+    const code = applyEdits(file.content, outermost.map(rule => removalEdit(file.content, rule.start, rule.end)));
+    return [{ file, code, count: fileRules.length }];
+  });
+}
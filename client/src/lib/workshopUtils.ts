@@ -1,4 +1,6 @@
 import type { WorkshopMessage, ProjectFile } from '@/types/workshop';
+import { parseStylesheet, collectRules } from './cssParser';
+import { getLineStarts, lineAt } from './syntaxHighlighter';
 
 export function createWorkshopSrcdoc(workshopType: string, files: ProjectFile[]): string {
   const baseHTML = `
@@ -465,63 +467,51 @@ export class CodeManipulator {
   }
 }
 
-// Enhanced CSS parsing with better structure preservation
-export function parseCSS(content: string): Array<{
+export interface ParsedCSSRule {
   selector: string;
   properties: Record<string, string>;
+  // 0-based lines within the parsed content
   startLine: number;
   endLine: number;
+  // Exact source of the rule, from the selector to its closing brace
   rawContent: string;
-}> {
-  const manipulator = new CodeManipulator(content);
-  const rules: Array<{
-    selector: string;
-    properties: Record<string, string>;
-    startLine: number;
-    endLine: number;
-    rawContent: string;
-  }> = [];
-  
-  // More robust CSS parsing
-  const cssRuleRegex = /([^{]+)\{([^}]+)\}/g;
-  let match;
-  
-  while ((match = cssRuleRegex.exec(content)) !== null) {
-    const selector = match[1].trim();
-    const propertiesStr = match[2].trim();
-    const properties: Record<string, string> = {};
-    
-    // Parse properties
-    propertiesStr.split(';').forEach(prop => {
-      const [key, value] = prop.split(':').map(s => s.trim());
-      if (key && value) {
-        properties[key] = value;
-      }
-    });
-    
-    // Find line numbers
-    const beforeMatch = content.substring(0, match.index);
-    const startLine = beforeMatch.split('\n').length - 1;
-    const endLine = startLine + match[0].split('\n').length - 1;
-    
-    rules.push({
-      selector,
-      properties,
-      startLine,
-      endLine,
-      rawContent: match[0]
-    });
-  }
-  
-  return rules;
+  // Offsets of rawContent within the parsed content
+  start: number;
+  end: number;
+  // Enclosing at-rules and parent rules, outermost first (e.g. `@media (max-width: 600px)`)
+  context: string[];
+}
+
+export interface ProjectCSSRule extends ParsedCSSRule {
+  source: string;
+  fileName: string;
+  // 1-based lines within the file
+  lineNumber: number;
+  endLineNumber: number;
+}
+
+// Style rules from the CSS parser, nested and at-rule scoped ones included
+export function parseCSS(content: string): ParsedCSSRule[] {
+  const lineStarts = getLineStarts(content);
+
+  return collectRules(parseStylesheet(content).children).map(({ rule, context, declarations }) => ({
+    selector: rule.selector,
+    properties: Object.fromEntries(declarations.map(d => [d.property, d.important ? `${d.value} !important` : d.value])),
+    startLine: lineAt(lineStarts, rule.range.start),
+    endLine: lineAt(lineStarts, rule.range.end - 1),
+    rawContent: content.slice(rule.range.start, rule.range.end),
+    start: rule.range.start,
+    end: rule.range.end,
+    context
+  }));
 }
 
-// Parse CSS rules from multiple files with accurate line numbers
-export const parseCSSFromFiles = (files: ProjectFile[]) => {
+// Parse CSS rules from multiple files with accurate line numbers; offsets are relative to the whole file
+export const parseCSSFromFiles = (files: ProjectFile[]): ProjectCSSRule[] => {
   const cssFiles = files.filter(f => f.type === 'css');
   const htmlFiles = files.filter(f => f.type === 'html');
   
-  let allRules: any[] = [];
+  let allRules: ProjectCSSRule[] = [];
   
   // Parse dedicated CSS files
   cssFiles.forEach(file => {
@@ -538,22 +528,26 @@ export const parseCSSFromFiles = (files: ProjectFile[]) => {
   
   // Parse CSS from HTML style tags
   htmlFiles.forEach(file => {
-    const styleRegex = /<style[^>]*>([\s\S]*?)<\/style>/gi;
+    const styleRegex = /(<style[^>]*>)([\s\S]*?)<\/style>/gi;
     let match;
     
     while ((match = styleRegex.exec(file.content)) !== null) {
-      const cssContent = match[1];
+      const cssContent = match[2];
+      const cssOffset = match.index + match[1].length;
       const styleTagStart = file.content.substring(0, match.index);
+      // 1-based line of the <style> tag, which is also line 0 of its CSS
       const styleTagLineOffset = styleTagStart.split('\n').length;
       
       const rules = parseCSS(cssContent);
       allRules = allRules.concat(rules.map(rule => ({ 
         ...rule, 
+        start: rule.start + cssOffset,
+        end: rule.end + cssOffset,
         source: `${file.name} (inline)`,
         fileName: file.name,
-        // Adjust line numbers for HTML context (0-based to 1-based, plus offset)
-        lineNumber: rule.startLine + styleTagLineOffset + 1,
-        endLineNumber: rule.endLine + styleTagLineOffset + 1
+        // Adjust line numbers for HTML context (offset from the <style> tag's line)
+        lineNumber: rule.startLine + styleTagLineOffset,
+        endLineNumber: rule.endLine + styleTagLineOffset
       })));
     }
   });
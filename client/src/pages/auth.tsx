@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Redirect } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+
+type AuthMode = 'login' | 'register';
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [username, setUsername] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const activeMutation = mode === 'login' ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+    activeMutation.mutate({ username: username.trim(), password });
+  };
+
+  return (
+    <div className="min-h-screen gradient-bg flex items-center justify-center p-6">
+      <div className="tool-panel w-full max-w-sm p-6">
+        {/* Brand */}
+        <div className="flex items-center gap-4 mb-6">
+          <div className="w-10 h-10 bg-gradient-to-br from-primary to-accent rounded-lg flex items-center justify-center text-white font-bold text-lg">
+            CM
+          </div>
+          <div>
+            <h1 className="text-xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+              CodeMaster Pro
+            </h1>
+            <p className="text-xs text-muted-foreground">
+              {mode === 'login' ? 'Sign in to your workspace' : 'Create a new account'}
+            </p>
+          </div>
+        </div>
+
+        {/* Mode Tabs */}
+        <div className="flex bg-muted/20 rounded-lg p-1 mb-5">
+          {(['login', 'register'] as AuthMode[]).map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              className={`flex-1 px-3 py-1.5 text-sm rounded-md ${mode === tab ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50 transition-colors'}`}
+              onClick={() => setMode(tab)}
+              data-testid={`tab-${tab}`}
+            >
+              {tab === 'login' ? 'Sign In' : 'Register'}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="text-xs font-medium text-muted-foreground block mb-1">Username</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              className="w-full px-3 py-2 text-sm bg-background border border-border rounded-md"
+              data-testid="input-username"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium text-muted-foreground block mb-1">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              className="w-full px-3 py-2 text-sm bg-background border border-border rounded-md"
+              data-testid="input-password"
+            />
+            {mode === 'register' && (
+              <p className="text-xs text-muted-foreground mt-1">At least 8 characters</p>
+            )}
+          </div>
+          <button
+            type="submit"
+            className="w-full btn-primary px-3 py-2 rounded text-sm"
+            disabled={activeMutation.isPending || !username.trim() || !password}
+            data-testid="button-auth-submit"
+          >
+            {activeMutation.isPending
+              ? 'Please wait...'
+              : mode === 'login' ? 'Sign In' : 'Create Account'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
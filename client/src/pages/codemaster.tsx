@@ -1,5 +1,7 @@
+import { useParams } from 'wouter';
 import CodeMasterHub from '@/components/CodeMasterHub';
 
 export default function CodeMasterPage() {
-  return <CodeMasterHub />;
+  const params = useParams<{ id?: string }>();
+  return <CodeMasterHub projectId={params.id} />;
 }
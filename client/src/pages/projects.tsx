@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import type { Project } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+const PAGE_SIZE = 12;
+
+interface ProjectListResponse {
+  projects: Project[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export default function ProjectsPage() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [page, setPage] = useState<number>(1);
+
+  const { data, isLoading, refetch } = useQuery<ProjectListResponse>({
+    queryKey: [`/api/projects?page=${page}&pageSize=${PAGE_SIZE}`],
+    // Sessions are autosaved from the hub, so never trust a cached listing
+    refetchOnMount: 'always'
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/projects/${id}`);
+    },
+    onSuccess: () => {
+      // Step back when the last card on a page goes away
+      if (data && data.projects.length === 1 && page > 1) {
+        setPage(p => p - 1);
+      } else {
+        refetch();
+      }
+      toast({
+        title: 'Project Deleted',
+        description: 'The saved session was removed'
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Delete Failed',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  return (
+    <div className="min-h-screen gradient-bg">
+      <div className="glass-effect border-b sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-10 h-10 bg-gradient-to-br from-primary to-accent rounded-lg flex items-center justify-center text-white font-bold text-lg">
+              CM
+            </div>
+            <div>
+              <h1 className="text-xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+                Projects
+              </h1>
+              <p className="text-xs text-muted-foreground">Reopen a saved working session</p>
+            </div>
+          </div>
+          <button
+            className="btn-primary px-3 py-2 rounded text-sm"
+            onClick={() => navigate('/')}
+            data-testid="button-new-session"
+          >
+            ✨ New Session
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto p-6">
+        {isLoading ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <i className="fas fa-spinner fa-spin text-2xl"></i>
+          </div>
+        ) : !data || data.projects.length === 0 ? (
+          <div className="tool-panel p-8 text-center text-muted-foreground">
+            <i className="fas fa-folder-open text-3xl mb-3"></i>
+            <p className="text-sm">No saved projects yet. Upload files in a new session to create one.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-4">
+            {data.projects.map((project) => {
+              const fileCount = Array.isArray(project.files) ? project.files.length : 0;
+              return (
+                <div
+                  key={project.id}
+                  className="tool-panel p-4 cursor-pointer hover:border-primary/50 transition-colors"
+                  onClick={() => navigate(`/projects/${project.id}`)}
+                  data-testid={`project-card-${project.id}`}
+                >
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <div className="font-semibold text-sm truncate">{project.name}</div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteMutation.mutate(project.id);
+                      }}
+                      className="text-muted-foreground hover:text-red-500"
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-project-${project.id}`}
+                      title="Delete project"
+                    >
+                      <i className="fas fa-trash text-xs"></i>
+                    </button>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {fileCount} file{fileCount === 1 ? '' : 's'}
+                    {project.updatedAt && (
+                      <> · updated {formatDistanceToNow(new Date(project.updatedAt), { addSuffix: true })}</>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {data && data.total > PAGE_SIZE && (
+          <div className="flex items-center justify-center gap-3 mt-6 text-sm">
+            <button
+              className="px-3 py-1 bg-muted hover:bg-muted/80 rounded transition-colors disabled:opacity-50"
+              onClick={() => setPage(p => p - 1)}
+              disabled={page <= 1}
+              data-testid="button-previous-page"
+            >
+              ← Previous
+            </button>
+            <span className="text-muted-foreground">Page {page} of {totalPages}</span>
+            <button
+              className="px-3 py-1 bg-muted hover:bg-muted/80 rounded transition-colors disabled:opacity-50"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page >= totalPages}
+              data-testid="button-next-page"
+            >
+              Next →
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,33 @@
 export interface WorkshopMessage {
-  type: 'WORKSHOP_READY' | 'WORKSHOP_REQUEST_CODE' | 'INJECT_HTML' | 'WORKSHOP_APPLY_PATCH' | 'WORKSHOP_LOADED';
+  type: 'WORKSHOP_READY' | 'WORKSHOP_REQUEST_CODE' | 'INJECT_HTML' | 'WORKSHOP_APPLY_PATCH' | 'WORKSHOP_LOADED' | 'WORKSHOP_FOCUS_LINE';
   data?: any;
   workshopId?: string;
 }
 
-export interface ProjectFile {
-  id: string;
-  name: string;
-  content: string;
-  type: 'html' | 'css' | 'js' | 'json';
-  size: number;
+export type { ProjectFile } from '@shared/schema';
+
+// One file's new content in a WORKSHOP_APPLY_PATCH message; fileId wins over filename
+export interface WorkshopPatchFile {
+  fileId?: string;
+  filename?: string;
+  code: string;
+}
+
+// `data` of WORKSHOP_APPLY_PATCH: either a single file (code + fileId/filename) or several in `files`.
+// Without a target the patch applies to the file open in the editor.
+export interface WorkshopPatch extends Partial<WorkshopPatchFile> {
+  files?: WorkshopPatchFile[];
+  summary?: string;
+  // Review the patch as a whole rather than hunk by hunk
+  atomic?: boolean;
+  changes?: Array<{ type: string; description: string; location?: string }>;
+}
+
+// `data` of WORKSHOP_FOCUS_LINE: open a file in the editor at a 1-based line
+export interface WorkshopFocusLine {
+  fileId?: string;
+  filename?: string;
+  line: number;
 }
 
 export interface AnalysisChange {
@@ -19,6 +37,7 @@ export interface AnalysisChange {
   content: string;
   tool: string;
   description: string;
+  file?: string;
 }
 
 export interface ProjectStats {
@@ -0,0 +1,46 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import type { ExtractTablesWithRelations } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// "neon" speaks Neon's websocket protocol; "pg" is plain node-postgres for any other Postgres
+export type DatabaseDriver = "neon" | "pg";
+
+export interface DatabaseOptions {
+  connectionString?: string;
+  // Defaults to DATABASE_DRIVER, else "neon"
+  driver?: DatabaseDriver;
+  // An already-built node-postgres compatible pool (e.g. pg-mem's adapter); wins over the options above
+  pool?: pg.Pool;
+}
+
+// Either driver's database, plus the pool it runs on (the session store shares it)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema, ExtractTablesWithRelations<typeof schema>> & {
+  $client: pg.Pool;
+};
+
+export function createDb({
+  connectionString = process.env.DATABASE_URL,
+  driver = process.env.DATABASE_DRIVER === "pg" ? "pg" : "neon",
+  pool,
+}: DatabaseOptions = {}): Database {
+  if (pool) {
+    return drizzleNodePg({ client: pool, schema });
+  }
+
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+  }
+
+  if (driver === "pg") {
+    return drizzleNodePg({ client: new pg.Pool({ connectionString }), schema });
+  }
+  // Neon's Pool is a drop-in pg.Pool at runtime; its bundled typings just trail @types/pg
+  return drizzleNeon({ client: new NeonPool({ connectionString }), schema }) as unknown as Database;
+}
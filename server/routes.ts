@@ -1,15 +1,135 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertProjectSchema, insertAnalysisSchema } from "@shared/schema";
+import { setupAuth, requireAuth } from "./auth";
+import {
+  insertProjectSchema,
+  updateProjectSchema,
+  insertAnalysisSchema,
+  insertProjectVersionSchema,
+  projectFileSchema,
+  type Project,
+  type ProjectFile,
+} from "@shared/schema";
+import { randomUUID } from "crypto";
 import { z } from "zod";
 
+// Carries an HTTP status out of storage callbacks; same shape the error middleware reads
+class HttpError extends Error {
+  constructor(public status: number, message: string, public body?: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+const paginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Mirrors CSSBeautifyOptions; bounded because the endpoints are public and `indent` sizes every line
+const cssToolRequestSchema = z.object({
+  code: z.string(),
+  filename: z.string().max(255).optional(),
+  options: z.object({
+    indent: z.union([z.number().int().min(0).max(8), z.literal("tab")]),
+    braceStyle: z.enum(["same-line", "next-line"]),
+    selectorPerLine: z.boolean(),
+    blankLineBetweenRules: z.boolean(),
+    stripComments: z.boolean(),
+    removeZeroUnits: z.boolean(),
+    shortenColors: z.boolean(),
+  }).partial().strict().optional(),
+});
+
+const createFileSchema = projectFileSchema
+  .pick({ id: true, name: true, content: true, type: true })
+  .partial({ id: true });
+
+const replaceFileSchema = projectFileSchema.pick({ name: true, content: true, type: true });
+
+// Size and revision are always derived server-side, never trusted from the client
+function normalizeFile(file: Omit<ProjectFile, "size" | "revision">, revision: number): ProjectFile {
+  return {
+    id: file.id,
+    name: file.name,
+    content: file.content,
+    type: file.type,
+    size: Buffer.byteLength(file.content, "utf8"),
+    revision,
+  };
+}
+
+function fileEtag(file: ProjectFile): string {
+  return `"${file.revision ?? 1}"`;
+}
+
+// Missing If-Match means "last write wins"; a stale one is rejected with 412
+function assertIfMatch(ifMatch: string | undefined, file: ProjectFile) {
+  if (ifMatch && ifMatch !== "*" && ifMatch !== fileEtag(file)) {
+    throw new HttpError(412, "File was modified since it was last read", { file });
+  }
+}
+
+function sendFileError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({ message: "Invalid file data", errors: error.errors });
+  } else if (error instanceof HttpError) {
+    const current = error.body?.file as ProjectFile | undefined;
+    if (current) res.set("ETag", fileEtag(current));
+    res.status(error.status).json({ message: error.message, ...error.body });
+  } else {
+    res.status(500).json({ message: fallback });
+  }
+}
+
+// Only the label comes from the client; the snapshot is always the files the server has stored
+const createVersionSchema = insertProjectVersionSchema.pick({
+  toolName: true,
+  summary: true,
+});
+
+// Projects owned by someone else are reported as missing so ids can't be probed
+async function getOwnedProject(id: string, userId: string): Promise<Project | undefined> {
+  const project = await storage.getProject(id);
+  return project && project.userId === userId ? project : undefined;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Session + passport middleware and /api/register, /api/login, /api/logout, /api/user
+  setupAuth(app);
+
   // Project management routes
-  app.post("/api/projects", async (req, res) => {
+  app.get("/api/projects", requireAuth, async (req, res) => {
+    try {
+      const { page, pageSize } = paginationSchema.parse(req.query);
+      const result = await storage.getProjectsByUser(req.user!.id, {
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+      res.json({ ...result, page, pageSize });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid pagination parameters", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to list projects" });
+      }
+    }
+  });
+
+  app.post("/api/projects", requireAuth, async (req, res) => {
     try {
-      const projectData = insertProjectSchema.parse(req.body);
-      const project = await storage.createProject(projectData);
+      const { name, files } = insertProjectSchema.parse(req.body);
+      const project = await storage.createProject(
+        { name, files: (files ?? []).map((file) => normalizeFile(file, 1)) },
+        req.user!.id,
+      );
+      // Recorded here rather than by the first client edit, so every history starts from what was stored
+      await storage.createProjectVersion({
+        projectId: project.id,
+        files: project.files ?? [],
+        toolName: "CodeMaster",
+        summary: "Initial version",
+      });
       res.json(project);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -20,9 +140,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/projects/:id", async (req, res) => {
+  app.get("/api/projects/:id", requireAuth, async (req, res) => {
     try {
-      const project = await storage.getProject(req.params.id);
+      const project = await getOwnedProject(req.params.id, req.user!.id);
       if (!project) {
         res.status(404).json({ message: "Project not found" });
         return;
@@ -33,22 +153,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/projects/:id", async (req, res) => {
+  app.patch("/api/projects/:id", requireAuth, async (req, res) => {
     try {
-      const project = await storage.updateProject(req.params.id, req.body);
+      const existing = await getOwnedProject(req.params.id, req.user!.id);
+      if (!existing) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      // Only the name is patchable here; files go through the per-file routes below
+      if (req.body && typeof req.body === "object" && "files" in req.body) {
+        res.status(400).json({ message: `Files can't be patched here; use /api/projects/${existing.id}/files` });
+        return;
+      }
+      const updates = updateProjectSchema.parse(req.body);
+      const project = await storage.updateProject(existing.id, updates);
       if (!project) {
         res.status(404).json({ message: "Project not found" });
         return;
       }
       res.json(project);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update project" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid project data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update project" });
+      }
     }
   });
 
-  app.delete("/api/projects/:id", async (req, res) => {
+  app.delete("/api/projects/:id", requireAuth, async (req, res) => {
     try {
-      const success = await storage.deleteProject(req.params.id);
+      const existing = await getOwnedProject(req.params.id, req.user!.id);
+      if (!existing) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      const success = await storage.deleteProject(existing.id);
       if (!success) {
         res.status(404).json({ message: "Project not found" });
         return;
@@ -59,10 +199,187 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Per-file routes; each response carries the file's revision as its ETag
+  app.get("/api/projects/:id/files/:fileId", requireAuth, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req.params.id, req.user!.id);
+      const file = project?.files?.find((f) => f.id === req.params.fileId);
+      if (!file) {
+        res.status(404).json({ message: "File not found" });
+        return;
+      }
+      res.set("ETag", fileEtag(file)).json(file);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve file" });
+    }
+  });
+
+  app.post("/api/projects/:id/files", requireAuth, async (req, res) => {
+    try {
+      if (!(await getOwnedProject(req.params.id, req.user!.id))) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      const input = createFileSchema.parse(req.body);
+      const file = normalizeFile({ ...input, id: input.id ?? randomUUID() }, 1);
+
+      await storage.updateProjectFiles(req.params.id, (files) => {
+        if (files.some((f) => f.id === file.id || f.name === file.name)) {
+          throw new HttpError(409, "A file with this id or name already exists");
+        }
+        return [...files, file];
+      });
+      res.status(201).set("ETag", fileEtag(file)).json(file);
+    } catch (error) {
+      sendFileError(res, error, "Failed to create file");
+    }
+  });
+
+  app.put("/api/projects/:id/files/:fileId", requireAuth, async (req, res) => {
+    try {
+      if (!(await getOwnedProject(req.params.id, req.user!.id))) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      const input = replaceFileSchema.parse(req.body);
+      let updated: ProjectFile | undefined;
+
+      await storage.updateProjectFiles(req.params.id, (files) => {
+        const current = files.find((f) => f.id === req.params.fileId);
+        if (!current) throw new HttpError(404, "File not found");
+        assertIfMatch(req.get("If-Match"), current);
+        if (files.some((f) => f.id !== current.id && f.name === input.name)) {
+          throw new HttpError(409, "A file with this name already exists");
+        }
+
+        updated = normalizeFile({ ...input, id: current.id }, (current.revision ?? 1) + 1);
+        return files.map((f) => (f.id === current.id ? updated! : f));
+      });
+      res.set("ETag", fileEtag(updated!)).json(updated);
+    } catch (error) {
+      sendFileError(res, error, "Failed to update file");
+    }
+  });
+
+  app.delete("/api/projects/:id/files/:fileId", requireAuth, async (req, res) => {
+    try {
+      if (!(await getOwnedProject(req.params.id, req.user!.id))) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      await storage.updateProjectFiles(req.params.id, (files) => {
+        const current = files.find((f) => f.id === req.params.fileId);
+        if (!current) throw new HttpError(404, "File not found");
+        assertIfMatch(req.get("If-Match"), current);
+        return files.filter((f) => f.id !== current.id);
+      });
+      res.json({ success: true });
+    } catch (error) {
+      sendFileError(res, error, "Failed to delete file");
+    }
+  });
+
+  // Version history routes
+  app.get("/api/projects/:id/versions", requireAuth, async (req, res) => {
+    try {
+      if (!(await getOwnedProject(req.params.id, req.user!.id))) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      const versions = await storage.getProjectVersions(req.params.id);
+      // The timeline only needs metadata; file contents come from the single-version route
+      res.json(versions.map(({ files, ...version }) => ({ ...version, fileCount: files.length })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve versions" });
+    }
+  });
+
+  app.get("/api/projects/:id/versions/:versionId", requireAuth, async (req, res) => {
+    try {
+      if (!(await getOwnedProject(req.params.id, req.user!.id))) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      const version = await storage.getProjectVersion(req.params.versionId);
+      if (!version || version.projectId !== req.params.id) {
+        res.status(404).json({ message: "Version not found" });
+        return;
+      }
+      res.json(version);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve version" });
+    }
+  });
+
+  // Labels the files as stored right now; clients call it once the save carrying a change has landed
+  app.post("/api/projects/:id/versions", requireAuth, async (req, res) => {
+    try {
+      const project = await getOwnedProject(req.params.id, req.user!.id);
+      if (!project) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      const { toolName, summary } = createVersionSchema.parse(req.body);
+      const version = await storage.createProjectVersion({
+        projectId: project.id,
+        files: project.files ?? [],
+        toolName,
+        summary,
+      });
+      res.status(201).json(version);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid version data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create version" });
+      }
+    }
+  });
+
+  app.post("/api/projects/:id/versions/:versionId/restore", requireAuth, async (req, res) => {
+    try {
+      if (!(await getOwnedProject(req.params.id, req.user!.id))) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+      const version = await storage.getProjectVersion(req.params.versionId);
+      if (!version || version.projectId !== req.params.id) {
+        res.status(404).json({ message: "Version not found" });
+        return;
+      }
+
+      // Bump past the current revisions so other open sessions see the restore as a conflict
+      const project = await storage.updateProjectFiles(req.params.id, (files) =>
+        version.files.map((file) => {
+          const current = files.find((f) => f.id === file.id);
+          return normalizeFile(file, (current?.revision ?? 0) + 1);
+        }),
+      );
+      if (!project) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
+
+      await storage.createProjectVersion({
+        projectId: project.id,
+        files: project.files ?? [],
+        toolName: "Version History",
+        summary: `Restored "${version.summary}"`,
+      });
+      res.json(project);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore version" });
+    }
+  });
+
   // Analysis results routes
-  app.post("/api/analysis", async (req, res) => {
+  app.post("/api/analysis", requireAuth, async (req, res) => {
     try {
       const analysisData = insertAnalysisSchema.parse(req.body);
+      if (!analysisData.projectId || !(await getOwnedProject(analysisData.projectId, req.user!.id))) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
       const analysis = await storage.createAnalysisResult(analysisData);
       res.json(analysis);
     } catch (error) {
@@ -74,8 +391,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/analysis/:projectId", async (req, res) => {
+  app.get("/api/analysis/:projectId", requireAuth, async (req, res) => {
     try {
+      if (!(await getOwnedProject(req.params.projectId, req.user!.id))) {
+        res.status(404).json({ message: "Project not found" });
+        return;
+      }
       const results = await storage.getAnalysisResults(req.params.projectId);
       res.json(results);
     } catch (error) {
@@ -103,6 +424,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // CSS tool modules share one contract: { code, filename, options } in, ToolModule result out
+  const cssTools = {
+    "css-minify": async () => (await import("../client/src/lib/cssMinifyTool.js")).cssMinifyTool,
+    "css-beautify": async () => (await import("../client/src/lib/cssBeautifyTool.js")).cssBeautifyTool,
+  };
+
+  for (const [name, loadTool] of Object.entries(cssTools)) {
+    app.post(`/api/tools/${name}`, async (req, res) => {
+      try {
+        const { code, filename, options } = cssToolRequestSchema.parse(req.body);
+
+        const tool = await loadTool();
+        const result = await tool.run(code, { filename, options });
+
+        res.json(result);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json({ message: "Invalid tool request", errors: error.errors });
+        } else {
+          res.status(500).json({ message: `Failed to execute ${name} tool` });
+        }
+      }
+    });
+  }
+
   // Workshop communication endpoint
   app.post("/api/workshop/message", async (req, res) => {
     try {
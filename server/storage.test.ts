@@ -0,0 +1,302 @@
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { randomUUID } from "crypto";
+import { newDb, DataType } from "pg-mem";
+import pg from "pg";
+import { is, SQL } from "drizzle-orm";
+import { getTableConfig, type PgTable } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import type { ProjectFile } from "@shared/schema";
+import { createDb } from "./db";
+import { DrizzleStorage, DuplicateUsernameError, MemStorage, type IStorage } from "./storage";
+
+// The same contract runs against every backend: MemStorage, DrizzleStorage on pg-mem, and DrizzleStorage
+// on a real Postgres when TEST_DATABASE_URL points at a scratch database (its tables are emptied per test).
+
+interface Backend {
+  storage: IStorage;
+  close?: () => Promise<void>;
+}
+
+const TABLES: PgTable[] = [schema.users, schema.projects, schema.analysisResults, schema.projectVersions];
+
+// CREATE TABLE statements straight from the drizzle schema, so the suite can't drift from it
+function createTableStatements(): string[] {
+  return TABLES.map(table => {
+    const { name, columns } = getTableConfig(table);
+    const definitions = columns.map(column => {
+      let definition = `"${column.name}" ${column.getSQLType()}`;
+      if (column.primary) definition += " primary key";
+      else if (column.notNull) definition += " not null";
+      if (column.isUnique) definition += " unique";
+      if (column.default !== undefined) {
+        definition += is(column.default, SQL)
+          ? ` default ${column.default.queryChunks.map(chunk => (chunk as { value: string[] }).value.join("")).join("")}`
+          : ` default '${JSON.stringify(column.default)}'`;
+      }
+      return definition;
+    });
+    return `create table if not exists "${name}" (${definitions.join(", ")})`;
+  });
+}
+
+// Postgres renders `timestamp` columns as text, which drizzle parses; pg-mem hands back Date objects
+const asPostgresText = (value: unknown) =>
+  value instanceof Date ? value.toISOString().replace("T", " ").replace("Z", "") : value;
+
+// node-postgres' query signature, loosened to what drizzle passes: a config object or SQL text plus values
+type QueryConfig = pg.QueryConfig & { types?: unknown; rowMode?: "array" };
+type Query = (config: string | QueryConfig, ...rest: unknown[]) => Promise<pg.QueryResult<Record<string, unknown>>>;
+
+// pg-mem's node-postgres adapter rejects drizzle's custom type parsers and `rowMode: "array"`,
+// so the query is run plainly and its rows reshaped the way node-postgres would return them
+function compatibleQuery(query: Query): Query {
+  return async (config, ...rest) => {
+    if (!config || typeof config !== "object") return query(config, ...rest);
+    const { types: _types, rowMode, ...plain } = config;
+    const result = await query(plain, ...rest);
+    const rows = result.rows.map(row =>
+      rowMode === "array"
+        ? Object.values(row).map(asPostgresText)
+        : Object.fromEntries(Object.entries(row).map(([key, value]) => [key, asPostgresText(value)])),
+    );
+    return { ...result, rows } as pg.QueryResult<Record<string, unknown>>;
+  };
+}
+
+function createPgMemPool(): pg.Pool {
+  const memory = newDb();
+  memory.public.registerFunction({
+    name: "gen_random_uuid",
+    returns: DataType.text,
+    implementation: randomUUID,
+    impure: true,
+  });
+  createTableStatements().forEach(statement => memory.public.none(statement));
+
+  const { Pool } = memory.adapters.createPg();
+  const pool = new Pool();
+  pool.query = compatibleQuery(pool.query.bind(pool) as Query) as typeof pool.query;
+  const connect = pool.connect.bind(pool);
+  pool.connect = async () => {
+    const client = await connect();
+    client.query = compatibleQuery(client.query.bind(client) as Query) as typeof client.query;
+    return client;
+  };
+  return pool;
+}
+
+async function closeSessionStore(storage: IStorage) {
+  // connect-pg-simple keeps a prune timer running until the store is closed
+  (storage.sessionStore as { close?: () => void }).close?.();
+}
+
+interface BackendFactory {
+  name: string;
+  create: () => Promise<Backend>;
+  // pg-mem accepts `FOR UPDATE` but doesn't lock, so it can't serialize concurrent writers
+  locksRows: boolean;
+}
+
+const backends: BackendFactory[] = [
+  { name: "MemStorage", create: async () => ({ storage: new MemStorage() }), locksRows: true },
+  {
+    name: "DrizzleStorage (pg-mem)",
+    create: async () => {
+      const storage = new DrizzleStorage(createDb({ pool: createPgMemPool() }));
+      return { storage, close: () => closeSessionStore(storage) };
+    },
+    locksRows: false,
+  },
+];
+
+if (process.env.TEST_DATABASE_URL) {
+  const pool = new pg.Pool({ connectionString: process.env.TEST_DATABASE_URL });
+  backends.push({
+    name: "DrizzleStorage (Postgres)",
+    create: async () => {
+      for (const statement of createTableStatements()) await pool.query(statement);
+      const names = TABLES.map(table => `"${getTableConfig(table).name}"`).join(", ");
+      await pool.query(`truncate ${names} cascade`);
+      const storage = new DrizzleStorage(createDb({ pool }));
+      return { storage, close: () => closeSessionStore(storage) };
+    },
+    locksRows: true,
+  });
+  afterAll(() => pool.end());
+}
+
+const file = (name: string, content = ""): ProjectFile => ({
+  id: randomUUID(),
+  name,
+  content,
+  type: "css",
+  size: content.length,
+});
+
+// Separates timestamps that orderings depend on
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe.each(backends)("$name", ({ create, locksRows }) => {
+  let backend: Backend;
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    backend = await create();
+    storage = backend.storage;
+    return () => backend.close?.();
+  });
+
+  describe("users", () => {
+    it("creates users and finds them by id and username", async () => {
+      const user = await storage.createUser({ username: "ada", password: "hash" });
+
+      expect(user.id).toEqual(expect.any(String));
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("ada")).toEqual(user);
+    });
+
+    it("rejects a username that is already taken", async () => {
+      await storage.createUser({ username: "ada", password: "hash" });
+
+      await expect(storage.createUser({ username: "ada", password: "other" })).rejects.toBeInstanceOf(DuplicateUsernameError);
+    });
+
+    it("returns undefined for unknown users", async () => {
+      expect(await storage.getUser(randomUUID())).toBeUndefined();
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+  });
+
+  describe("projects", () => {
+    it("creates projects with defaults and reads them back", async () => {
+      const user = await storage.createUser({ username: "ada", password: "hash" });
+      const project = await storage.createProject({ name: "Site" }, user.id);
+
+      expect(project).toMatchObject({ name: "Site", files: [], userId: user.id });
+      expect(project.createdAt).toBeInstanceOf(Date);
+      expect(await storage.getProject(project.id)).toEqual(project);
+      expect(await storage.getProject(randomUUID())).toBeUndefined();
+    });
+
+    it("creates ownerless projects", async () => {
+      const project = await storage.createProject({ name: "Scratch", files: [file("a.css")] });
+
+      expect(project.userId).toBeNull();
+      expect(project.files).toHaveLength(1);
+    });
+
+    it("pages a user's projects, most recently updated first", async () => {
+      const user = await storage.createUser({ username: "ada", password: "hash" });
+      const other = await storage.createUser({ username: "grace", password: "hash" });
+      const first = await storage.createProject({ name: "First" }, user.id);
+      await tick();
+      const second = await storage.createProject({ name: "Second" }, user.id);
+      await tick();
+      const third = await storage.createProject({ name: "Third" }, user.id);
+      await storage.createProject({ name: "Not mine" }, other.id);
+      await tick();
+      await storage.updateProject(first.id, { name: "First, renamed" });
+
+      const page = await storage.getProjectsByUser(user.id, { limit: 2, offset: 0 });
+      expect(page.total).toBe(3);
+      expect(page.projects.map(p => p.id)).toEqual([first.id, third.id]);
+
+      const rest = await storage.getProjectsByUser(user.id, { limit: 2, offset: 2 });
+      expect(rest.total).toBe(3);
+      expect(rest.projects.map(p => p.id)).toEqual([second.id]);
+    });
+
+    it("updates fields and bumps updatedAt", async () => {
+      const project = await storage.createProject({ name: "Site" });
+      await tick();
+      const updated = await storage.updateProject(project.id, { name: "Renamed" });
+
+      expect(updated).toMatchObject({ id: project.id, name: "Renamed" });
+      expect(updated!.updatedAt!.getTime()).toBeGreaterThan(project.updatedAt!.getTime());
+      expect(updated!.createdAt).toEqual(project.createdAt);
+      expect(await storage.updateProject(randomUUID(), { name: "Ghost" })).toBeUndefined();
+    });
+
+    it("deletes projects along with their versions and analysis results", async () => {
+      const project = await storage.createProject({ name: "Site" });
+      const other = await storage.createProject({ name: "Other" });
+      await storage.createProjectVersion({ projectId: project.id, files: [], toolName: "Upload", summary: "Initial" });
+      await storage.createAnalysisResult({ projectId: project.id, toolName: "css", results: {} });
+      const kept = await storage.createAnalysisResult({ projectId: other.id, toolName: "css", results: {} });
+
+      expect(await storage.deleteProject(project.id)).toBe(true);
+      expect(await storage.getProject(project.id)).toBeUndefined();
+      expect(await storage.getProjectVersions(project.id)).toEqual([]);
+      expect(await storage.getAnalysisResults(project.id)).toEqual([]);
+      expect(await storage.getAnalysisResults(other.id)).toEqual([kept]);
+      expect(await storage.deleteProject(project.id)).toBe(false);
+    });
+  });
+
+  describe("updateProjectFiles", () => {
+    it("replaces the files with the update's result", async () => {
+      const project = await storage.createProject({ name: "Site", files: [file("a.css")] });
+      const updated = await storage.updateProjectFiles(project.id, files => [...files, file("b.css")]);
+
+      expect(updated!.files!.map(f => f.name)).toEqual(["a.css", "b.css"]);
+      expect((await storage.getProject(project.id))!.files).toEqual(updated!.files);
+    });
+
+    it("leaves the files untouched when the update throws", async () => {
+      const project = await storage.createProject({ name: "Site", files: [file("a.css")] });
+
+      await expect(storage.updateProjectFiles(project.id, () => {
+        throw new Error("conflict");
+      })).rejects.toThrow("conflict");
+      expect((await storage.getProject(project.id))!.files).toEqual(project.files);
+    });
+
+    it.skipIf(!locksRows)("applies concurrent updates one after another", async () => {
+      const project = await storage.createProject({ name: "Site" });
+      await Promise.all([
+        storage.updateProjectFiles(project.id, files => [...files, file("a.css")]),
+        storage.updateProjectFiles(project.id, files => [...files, file("b.css")]),
+      ]);
+
+      const names = (await storage.getProject(project.id))!.files!.map(f => f.name).sort();
+      expect(names).toEqual(["a.css", "b.css"]);
+    });
+
+    it("returns undefined for unknown projects", async () => {
+      expect(await storage.updateProjectFiles(randomUUID(), files => files)).toBeUndefined();
+    });
+  });
+
+  describe("analysis results", () => {
+    it("stores results per project", async () => {
+      const project = await storage.createProject({ name: "Site" });
+      const other = await storage.createProject({ name: "Other" });
+      const result = await storage.createAnalysisResult({ projectId: project.id, toolName: "css", results: { rules: 3 } });
+      await storage.createAnalysisResult({ projectId: other.id, toolName: "css", results: {} });
+
+      expect(result).toMatchObject({ projectId: project.id, toolName: "css", results: { rules: 3 } });
+      expect(await storage.getAnalysisResults(project.id)).toEqual([result]);
+    });
+  });
+
+  describe("project versions", () => {
+    it("lists a project's versions newest first", async () => {
+      const project = await storage.createProject({ name: "Site" });
+      const other = await storage.createProject({ name: "Other" });
+      const initial = await storage.createProjectVersion({ projectId: project.id, files: [], toolName: "Upload", summary: "Initial" });
+      await tick();
+      const edited = await storage.createProjectVersion({
+        projectId: project.id,
+        files: [file("a.css", "a{}")],
+        toolName: "CSS Workshop",
+        summary: "Edited",
+      });
+      await storage.createProjectVersion({ projectId: other.id, files: [], toolName: "Upload", summary: "Elsewhere" });
+
+      expect((await storage.getProjectVersions(project.id)).map(v => v.id)).toEqual([edited.id, initial.id]);
+      expect(await storage.getProjectVersion(edited.id)).toEqual(edited);
+      expect(edited.files).toEqual([expect.objectContaining({ name: "a.css", content: "a{}" })]);
+      expect(await storage.getProjectVersion(randomUUID())).toBeUndefined();
+    });
+  });
+});
@@ -1,29 +1,89 @@
-import { type User, type InsertUser, type Project, type InsertProject, type AnalysisResult, type InsertAnalysis } from "@shared/schema";
+import {
+  users,
+  projects,
+  analysisResults,
+  projectVersions,
+  type User,
+  type InsertUser,
+  type Project,
+  type InsertProject,
+  type AnalysisResult,
+  type InsertAnalysis,
+  type ProjectFile,
+  type ProjectVersion,
+  type InsertProjectVersion,
+} from "@shared/schema";
+import { count, desc, eq } from "drizzle-orm";
 import { randomUUID } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Thrown by createUser when the username is already registered, however close together the two requests
+export class DuplicateUsernameError extends Error {
+  constructor(username: string) {
+    super(`Username "${username}" already exists`);
+    this.name = "DuplicateUsernameError";
+  }
+}
+
+// Postgres unique_violation
+const isUniqueViolation = (error: unknown) =>
+  typeof error === "object" && error !== null && (error as { code?: unknown }).code === "23505";
+
+export interface PageOptions {
+  limit: number;
+  offset: number;
+}
+
+export interface ProjectPage {
+  projects: Project[];
+  total: number;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Rejects with DuplicateUsernameError when the username is taken
   createUser(user: InsertUser): Promise<User>;
   
   getProject(id: string): Promise<Project | undefined>;
-  createProject(project: InsertProject): Promise<Project>;
+  getProjectsByUser(userId: string, page: PageOptions): Promise<ProjectPage>;
+  createProject(project: InsertProject, userId?: string | null): Promise<Project>;
   updateProject(id: string, updates: Partial<Project>): Promise<Project | undefined>;
+  // Read-modify-write of the files array as one atomic step; `update` may throw to abort
+  updateProjectFiles(id: string, update: (files: ProjectFile[]) => ProjectFile[]): Promise<Project | undefined>;
   deleteProject(id: string): Promise<boolean>;
   
   getAnalysisResults(projectId: string): Promise<AnalysisResult[]>;
   createAnalysisResult(analysis: InsertAnalysis): Promise<AnalysisResult>;
+
+  // Newest first
+  getProjectVersions(projectId: string): Promise<ProjectVersion[]>;
+  getProjectVersion(id: string): Promise<ProjectVersion | undefined>;
+  createProjectVersion(version: InsertProjectVersion): Promise<ProjectVersion>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private projects: Map<string, Project>;
   private analysisResults: Map<string, AnalysisResult>;
+  private projectVersions: Map<string, ProjectVersion>;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.projects = new Map();
     this.analysisResults = new Map();
+    this.projectVersions = new Map();
+    // Prune expired sessions once a day
+    this.sessionStore = new MemoryStore({ checkPeriod: 86400000 });
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -37,6 +97,9 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new DuplicateUsernameError(insertUser.username);
+    }
     const id = randomUUID();
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
@@ -47,13 +110,24 @@ export class MemStorage implements IStorage {
     return this.projects.get(id);
   }
 
-  async createProject(insertProject: InsertProject): Promise<Project> {
+  async getProjectsByUser(userId: string, { limit, offset }: PageOptions): Promise<ProjectPage> {
+    const owned = Array.from(this.projects.values())
+      .filter(project => project.userId === userId)
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0));
+    return {
+      projects: owned.slice(offset, offset + limit),
+      total: owned.length
+    };
+  }
+
+  async createProject(insertProject: InsertProject, userId: string | null = null): Promise<Project> {
     const id = randomUUID();
     const now = new Date();
     const project: Project = { 
       ...insertProject, 
       id,
-      userId: null,
+      files: insertProject.files ?? [],
+      userId,
       createdAt: now,
       updatedAt: now
     };
@@ -74,7 +148,21 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async updateProjectFiles(id: string, update: (files: ProjectFile[]) => ProjectFile[]): Promise<Project | undefined> {
+    const existing = this.projects.get(id);
+    if (!existing) return undefined;
+
+    return this.updateProject(id, { files: update(existing.files ?? []) });
+  }
+
   async deleteProject(id: string): Promise<boolean> {
+    // Same cascade as DrizzleStorage: nothing that references the project outlives it
+    Array.from(this.analysisResults.values())
+      .filter(result => result.projectId === id)
+      .forEach(result => this.analysisResults.delete(result.id));
+    Array.from(this.projectVersions.values())
+      .filter(version => version.projectId === id)
+      .forEach(version => this.projectVersions.delete(version.id));
     return this.projects.delete(id);
   }
 
@@ -89,11 +177,176 @@ export class MemStorage implements IStorage {
     const analysisResult: AnalysisResult = {
       ...insertAnalysis,
       id,
+      projectId: insertAnalysis.projectId ?? null,
       createdAt: new Date()
     };
     this.analysisResults.set(id, analysisResult);
     return analysisResult;
   }
+
+  async getProjectVersions(projectId: string): Promise<ProjectVersion[]> {
+    return Array.from(this.projectVersions.values())
+      .filter(version => version.projectId === projectId)
+      .reverse();
+  }
+
+  async getProjectVersion(id: string): Promise<ProjectVersion | undefined> {
+    return this.projectVersions.get(id);
+  }
+
+  async createProjectVersion(insertVersion: InsertProjectVersion): Promise<ProjectVersion> {
+    const id = randomUUID();
+    const version: ProjectVersion = {
+      ...insertVersion,
+      id,
+      createdAt: new Date()
+    };
+    this.projectVersions.set(id, version);
+    return version;
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    try {
+      const [user] = await this.db.insert(users).values(insertUser).returning();
+      return user;
+    } catch (error) {
+      // The unique index settles concurrent registrations that both passed a lookup
+      if (isUniqueViolation(error)) throw new DuplicateUsernameError(insertUser.username);
+      throw error;
+    }
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async getProjectsByUser(userId: string, { limit, offset }: PageOptions): Promise<ProjectPage> {
+    const [rows, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(projects)
+        .where(eq(projects.userId, userId))
+        .orderBy(desc(projects.updatedAt))
+        .limit(limit)
+        .offset(offset),
+      this.db.select({ total: count() }).from(projects).where(eq(projects.userId, userId)),
+    ]);
+    return { projects: rows, total };
+  }
+
+  async createProject(insertProject: InsertProject, userId: string | null = null): Promise<Project> {
+    const [project] = await this.db
+      .insert(projects)
+      .values({ ...insertProject, userId })
+      .returning();
+    return project;
+  }
+
+  async updateProject(id: string, updates: Partial<Project>): Promise<Project | undefined> {
+    // Never let callers rewrite the primary key or creation time
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [project] = await this.db
+      .update(projects)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return project;
+  }
+
+  async updateProjectFiles(id: string, update: (files: ProjectFile[]) => ProjectFile[]): Promise<Project | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the row so concurrent file writes are applied one after another
+      const [existing] = await tx
+        .select()
+        .from(projects)
+        .where(eq(projects.id, id))
+        .for("update");
+      if (!existing) return undefined;
+
+      const [project] = await tx
+        .update(projects)
+        .set({ files: update(existing.files ?? []), updatedAt: new Date() })
+        .where(eq(projects.id, id))
+        .returning();
+      return project;
+    });
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    // Analysis results reference the project, so they have to go first
+    return this.db.transaction(async (tx) => {
+      await tx.delete(analysisResults).where(eq(analysisResults.projectId, id));
+      await tx.delete(projectVersions).where(eq(projectVersions.projectId, id));
+      const deleted = await tx
+        .delete(projects)
+        .where(eq(projects.id, id))
+        .returning({ id: projects.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getAnalysisResults(projectId: string): Promise<AnalysisResult[]> {
+    return this.db
+      .select()
+      .from(analysisResults)
+      .where(eq(analysisResults.projectId, projectId));
+  }
+
+  async createAnalysisResult(insertAnalysis: InsertAnalysis): Promise<AnalysisResult> {
+    const [analysisResult] = await this.db
+      .insert(analysisResults)
+      .values(insertAnalysis)
+      .returning();
+    return analysisResult;
+  }
+
+  async getProjectVersions(projectId: string): Promise<ProjectVersion[]> {
+    return this.db
+      .select()
+      .from(projectVersions)
+      .where(eq(projectVersions.projectId, projectId))
+      .orderBy(desc(projectVersions.createdAt));
+  }
+
+  async getProjectVersion(id: string): Promise<ProjectVersion | undefined> {
+    const [version] = await this.db.select().from(projectVersions).where(eq(projectVersions.id, id));
+    return version;
+  }
+
+  async createProjectVersion(insertVersion: InsertProjectVersion): Promise<ProjectVersion> {
+    const [version] = await this.db.insert(projectVersions).values(insertVersion).returning();
+    return version;
+  }
+}
+
+// STORAGE_BACKEND=postgres persists to DATABASE_URL; anything else keeps data in memory
+function createStorage(): IStorage {
+  if (process.env.STORAGE_BACKEND === "postgres") {
+    return new DrizzleStorage(createDb());
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -3,6 +3,18 @@ import { pgTable, text, varchar, jsonb, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const projectFileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1).max(255),
+  content: z.string(),
+  type: z.enum(["html", "css", "js", "json"]),
+  size: z.number().int().nonnegative(),
+  // Server-owned counter, bumped on every write and exposed as the file's ETag
+  revision: z.number().int().positive().optional(),
+});
+
+export type ProjectFile = z.infer<typeof projectFileSchema>;
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
@@ -12,7 +24,7 @@ export const users = pgTable("users", {
 export const projects = pgTable("projects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
-  files: jsonb("files").default({}),
+  files: jsonb("files").$type<ProjectFile[]>().default([]),
   userId: varchar("user_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -26,25 +38,58 @@ export const analysisResults = pgTable("analysis_results", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const projectVersions = pgTable("project_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id).notNull(),
+  files: jsonb("files").$type<ProjectFile[]>().notNull(),
+  toolName: text("tool_name").notNull(),
+  summary: text("summary").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(64),
+  password: z.string().min(8, "Password must be at least 8 characters").max(256),
+});
+
 export const insertProjectSchema = createInsertSchema(projects).pick({
   name: true,
   files: true,
+}).extend({
+  files: z.array(projectFileSchema).optional(),
 });
 
+// Strict so fields it doesn't take (like `files`) are rejected rather than silently dropped
+export const updateProjectSchema = insertProjectSchema.pick({
+  name: true,
+}).partial().strict();
+
 export const insertAnalysisSchema = createInsertSchema(analysisResults).pick({
   projectId: true,
   toolName: true,
   results: true,
 });
 
+export const insertProjectVersionSchema = createInsertSchema(projectVersions).pick({
+  projectId: true,
+  files: true,
+  toolName: true,
+  summary: true,
+}).extend({
+  files: z.array(projectFileSchema),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type SafeUser = Omit<User, "password">;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 export type InsertAnalysis = z.infer<typeof insertAnalysisSchema>;
 export type AnalysisResult = typeof analysisResults.$inferSelect;
+export type InsertProjectVersion = z.infer<typeof insertProjectVersionSchema>;
+export type ProjectVersion = typeof projectVersions.$inferSelect;